@@ -1,14 +1,69 @@
-import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 
 import { authenticate } from "../shopify.server";
+import { getSessionActor } from "../services/enquiry-events.server";
+import {
+  deleteView,
+  listSavedViews,
+  type SavedViewSummary,
+} from "../services/saved-views.server";
+
+type LoaderData = { views: SavedViewSummary[] };
+
+type ActionData = { ok: true; message: string } | { ok: false; error: string };
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
-  return null;
+  const { session } = await authenticate.admin(request);
+
+  const payload: LoaderData = {
+    views: await listSavedViews(session.shop, getSessionActor(session)),
+  };
+
+  return Response.json(payload);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  if (formData.get("intent") !== "delete-view") {
+    return Response.json(
+      { ok: false, error: "Unsupported action" },
+      { status: 400 },
+    );
+  }
+
+  const viewIdRaw = formData.get("viewId");
+  const result = await deleteView({
+    shop: session.shop,
+    actor: getSessionActor(session),
+    viewId: typeof viewIdRaw === "string" ? viewIdRaw.trim() : "",
+  });
+
+  if ("error" in result) {
+    return Response.json(
+      { ok: false, error: result.error },
+      { status: result.status },
+    );
+  }
+
+  return Response.json({
+    ok: true,
+    message: `Deleted view "${result.view.name}"`,
+  });
 };
 
 export default function DashboardHome() {
+  const { views } = useLoaderData() as LoaderData;
+
   return (
     <s-page heading="Welcome to Branding HQ Enquiries">
       <s-stack gap="base">
@@ -25,12 +80,6 @@ export default function DashboardHome() {
               <s-button href="/app/enquiries" variant="primary">
                 Go to enquiries dashboard
               </s-button>
-              <s-button
-                href="/app/enquiries?status=AWAITING_CUSTOMER"
-                variant="secondary"
-              >
-                Follow up waiting replies
-              </s-button>
             </s-stack>
           </s-stack>
         </s-card>
@@ -66,23 +115,71 @@ export default function DashboardHome() {
         </s-grid>
       </s-stack>
 
-      <s-section slot="aside" heading="Shortcuts">
-        <s-stack gap="tight">
-          <s-button href="/app/enquiries?status=NEW" variant="tertiary">
-            View new enquiries
-          </s-button>
-          <s-button href="/app/enquiries?status=QUOTE_SENT" variant="tertiary">
-            Monitor quotes sent
-          </s-button>
-          <s-button href="/app/enquiries?status=COMPLETED" variant="tertiary">
-            Review completed requests
-          </s-button>
-        </s-stack>
+      <s-section slot="aside" heading="Saved views">
+        {views.length ? (
+          <s-stack gap="small-100">
+            {views.map((view) => (
+              <SavedViewRow key={view.id} view={view} />
+            ))}
+          </s-stack>
+        ) : (
+          <s-text color="subdued">
+            Filter the enquiries dashboard and save the filters as a view to
+            keep a shortcut here and in the app menu.
+          </s-text>
+        )}
       </s-section>
     </s-page>
   );
 }
 
+function SavedViewRow({ view }: { view: SavedViewSummary }) {
+  const fetcher = useFetcher<ActionData>();
+  const appBridge = useAppBridge();
+  const isDeleting = fetcher.state !== "idle";
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data) {
+      if (fetcher.data.ok) {
+        appBridge.toast.show(fetcher.data.message);
+      } else {
+        appBridge.toast.show(fetcher.data.error, { isError: true });
+      }
+    }
+  }, [appBridge, fetcher.data, fetcher.state]);
+
+  return (
+    <s-stack direction="inline" gap="small-100" alignItems="center">
+      <s-button href={`/app/enquiries?${view.query}`} variant="tertiary">
+        {view.name}
+      </s-button>
+      <s-badge tone="info">{String(view.count)}</s-badge>
+      <s-badge>
+        {!view.shared
+          ? "Private"
+          : view.isOwn
+            ? "Shared"
+            : `Shared by ${view.ownerName ?? "staff"}`}
+      </s-badge>
+      {view.isOwn ? (
+        <fetcher.Form method="post">
+          <input type="hidden" name="intent" value="delete-view" />
+          <input type="hidden" name="viewId" value={view.id} />
+          <s-button
+            type="submit"
+            variant="tertiary"
+            tone="critical"
+            accessibilityLabel={`Delete ${view.name}`}
+            {...(isDeleting ? { loading: true } : {})}
+          >
+            Delete
+          </s-button>
+        </fetcher.Form>
+      ) : null}
+    </s-stack>
+  );
+}
+
 export const headers: HeadersFunction = (headersArgs) => {
   return boundary.headers(headersArgs);
 };
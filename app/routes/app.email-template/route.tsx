@@ -0,0 +1,458 @@
+import { useEffect, useRef, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+
+import prisma from "../../db.server";
+import { authenticate } from "../../shopify.server";
+import {
+  TEMPLATE_PLACEHOLDERS,
+  getEmailTemplate,
+  parseEmailTemplateForm,
+  saveEmailTemplate,
+  type EmailTemplateSettings,
+} from "../../services/email-template.server";
+import {
+  ENQUIRY_EMAIL_RECIPIENT,
+  renderEnquiryEmail,
+  type RenderedEnquiryEmail,
+} from "../../services/enquiry-email.server";
+import { loadEnquiryEmailPayload } from "../../services/enquiry-notification.server";
+import styles from "./styles.module.css";
+
+const PREVIEW_ENQUIRY_LIMIT = 25;
+const PREVIEW_DEBOUNCE_MS = 400;
+
+type PreviewAudience = "STAFF" | "CUSTOMER";
+
+export type LoaderData = {
+  template: EmailTemplateSettings;
+  isCustomized: boolean;
+  version: string;
+  placeholders: Array<{ key: string; description: string }>;
+  enquiries: Array<{ id: string; label: string }>;
+  preview: RenderedEnquiryEmail | null;
+};
+
+export type ActionData =
+  | { ok: true; message: string; preview?: undefined }
+  | { ok: true; preview: RenderedEnquiryEmail; message?: undefined }
+  | {
+      ok: false;
+      error: string;
+      fieldErrors?: Record<string, string>;
+      preview?: undefined;
+    };
+
+const readAudience = (formData: FormData): PreviewAudience =>
+  formData.get("previewAudience") === ENQUIRY_EMAIL_RECIPIENT.CUSTOMER
+    ? ENQUIRY_EMAIL_RECIPIENT.CUSTOMER
+    : ENQUIRY_EMAIL_RECIPIENT.STAFF;
+
+const renderPreview = async ({
+  shop,
+  enquiryId,
+  template,
+  audience,
+}: {
+  shop: string;
+  enquiryId: string;
+  template: EmailTemplateSettings;
+  audience: PreviewAudience;
+}) => {
+  const enquiry = await loadEnquiryEmailPayload(enquiryId);
+
+  if (!enquiry || enquiry.shop !== shop) {
+    return null;
+  }
+
+  return renderEnquiryEmail({ enquiry, template, recipientType: audience });
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const [template, stored, enquiries] = await Promise.all([
+    getEmailTemplate(session.shop),
+    prisma.emailTemplate.findUnique({
+      where: { shop: session.shop },
+      select: { updatedAt: true },
+    }),
+    prisma.enquiry.findMany({
+      where: { shop: session.shop, isSpam: false },
+      orderBy: { createdAt: "desc" },
+      take: PREVIEW_ENQUIRY_LIMIT,
+      select: { id: true, name: true, productTitle: true, createdAt: true },
+    }),
+  ]);
+
+  const payload: LoaderData = {
+    template,
+    isCustomized: Boolean(stored),
+    version: stored?.updatedAt.toISOString() ?? "default",
+    placeholders: TEMPLATE_PLACEHOLDERS.map((placeholder) => ({
+      ...placeholder,
+    })),
+    enquiries: enquiries.map((enquiry) => ({
+      id: enquiry.id,
+      label: [
+        enquiry.name,
+        enquiry.productTitle,
+        enquiry.createdAt.toISOString().slice(0, 10),
+      ]
+        .filter(Boolean)
+        .join(" · "),
+    })),
+    preview: enquiries.length
+      ? await renderPreview({
+          shop: session.shop,
+          enquiryId: enquiries[0].id,
+          template,
+          audience: ENQUIRY_EMAIL_RECIPIENT.STAFF,
+        })
+      : null,
+  };
+
+  return payload;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "reset-template") {
+    await prisma.emailTemplate.deleteMany({ where: { shop: session.shop } });
+    return Response.json({ ok: true, message: "Template reset to defaults" });
+  }
+
+  if (intent !== "save-template" && intent !== "preview-template") {
+    return Response.json(
+      { ok: false, error: "Unsupported action" },
+      { status: 400 },
+    );
+  }
+
+  const input = parseEmailTemplateForm(formData);
+  if (input.errors) {
+    return Response.json(
+      {
+        ok: false,
+        error: "Fix the highlighted fields",
+        fieldErrors: input.errors,
+      },
+      { status: 400 },
+    );
+  }
+
+  if (intent === "save-template") {
+    await saveEmailTemplate(session.shop, input.settings);
+    return Response.json({ ok: true, message: "Email template saved" });
+  }
+
+  const enquiryId = formData.get("previewEnquiryId");
+  const preview =
+    typeof enquiryId === "string" && enquiryId
+      ? await renderPreview({
+          shop: session.shop,
+          enquiryId,
+          template: input.settings,
+          audience: readAudience(formData),
+        })
+      : null;
+
+  if (!preview) {
+    return Response.json(
+      { ok: false, error: "Enquiry not found" },
+      { status: 404 },
+    );
+  }
+
+  return Response.json({ ok: true, preview });
+};
+
+const useActionToast = (
+  fetcher: ReturnType<typeof useFetcher<ActionData>>,
+) => {
+  const appBridge = useAppBridge();
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data) {
+      if (fetcher.data.ok) {
+        if (fetcher.data.message) {
+          appBridge.toast.show(fetcher.data.message);
+        }
+      } else if (fetcher.data.error) {
+        appBridge.toast.show(fetcher.data.error, { isError: true });
+      }
+    }
+  }, [appBridge, fetcher.data, fetcher.state]);
+};
+
+export default function EmailTemplateEditor() {
+  const data = useLoaderData() as LoaderData;
+  const fetcher = useFetcher<ActionData>();
+  const resetFetcher = useFetcher<ActionData>();
+  const previewFetcher = useFetcher<ActionData>();
+  const formRef = useRef<HTMLFormElement>(null);
+  const previewTimer = useRef<ReturnType<typeof setTimeout> | undefined>(
+    undefined,
+  );
+  const [preview, setPreview] = useState(data.preview);
+
+  useEffect(() => {
+    setPreview(data.preview);
+  }, [data.preview]);
+
+  useEffect(() => {
+    if (previewFetcher.state === "idle" && previewFetcher.data?.preview) {
+      setPreview(previewFetcher.data.preview);
+    }
+  }, [previewFetcher.data, previewFetcher.state]);
+
+  useEffect(() => () => clearTimeout(previewTimer.current), []);
+
+  useActionToast(fetcher);
+  useActionToast(resetFetcher);
+
+  // Preview requests validate the same fields as saving, so the most recent
+  // preview reflects the form as it stands.
+  const latestResult = previewFetcher.data ?? fetcher.data;
+  const fieldErrors =
+    (latestResult && !latestResult.ok ? latestResult.fieldErrors : undefined) ??
+    {};
+
+  const requestPreview = () => {
+    clearTimeout(previewTimer.current);
+    previewTimer.current = setTimeout(() => {
+      if (!formRef.current || !data.enquiries.length) {
+        return;
+      }
+      const formData = new FormData(formRef.current);
+      formData.set("intent", "preview-template");
+      previewFetcher.submit(formData, { method: "post" });
+    }, PREVIEW_DEBOUNCE_MS);
+  };
+
+  const template = data.template;
+  const isSaving = fetcher.state !== "idle";
+
+  return (
+    <s-page heading="Email template">
+      <div className={styles.layout}>
+        <s-section heading="Branding and copy">
+          <fetcher.Form
+            key={data.version}
+            ref={formRef}
+            method="post"
+            className={styles.templateForm}
+            onChange={requestPreview}
+          >
+            <input type="hidden" name="intent" value="save-template" />
+            <TextField
+              name="brandName"
+              label="Brand name"
+              defaultValue={template.brandName}
+              error={fieldErrors.brandName}
+              help="Used as the logo alt text, or shown in the header when there is no logo."
+            />
+            <TextField
+              name="logoUrl"
+              label="Logo URL"
+              defaultValue={template.logoUrl ?? ""}
+              error={fieldErrors.logoUrl}
+              type="url"
+            />
+            <div className={styles.colorGrid}>
+              <ColorField
+                name="accentColor"
+                label="Accent"
+                defaultValue={template.accentColor}
+                error={fieldErrors.accentColor}
+              />
+              <ColorField
+                name="backgroundColor"
+                label="Background"
+                defaultValue={template.backgroundColor}
+                error={fieldErrors.backgroundColor}
+              />
+              <ColorField
+                name="panelColor"
+                label="Panels"
+                defaultValue={template.panelColor}
+                error={fieldErrors.panelColor}
+              />
+              <ColorField
+                name="textColor"
+                label="Text"
+                defaultValue={template.textColor}
+                error={fieldErrors.textColor}
+              />
+            </div>
+            <TextField
+              name="subjectPattern"
+              label="Subject"
+              defaultValue={template.subjectPattern}
+              error={fieldErrors.subjectPattern}
+            />
+            <TextField
+              name="staffIntro"
+              label="Staff intro"
+              defaultValue={template.staffIntro}
+              error={fieldErrors.staffIntro}
+              multiline
+            />
+            <TextField
+              name="customerIntro"
+              label="Customer intro"
+              defaultValue={template.customerIntro}
+              error={fieldErrors.customerIntro}
+              multiline
+            />
+            <TextField
+              name="footerText"
+              label="Footer"
+              defaultValue={template.footerText ?? ""}
+              error={fieldErrors.footerText}
+              help="Company name and address. Each line is separated by a bullet."
+              multiline
+            />
+            <TextField
+              name="footerUrl"
+              label="Footer link"
+              defaultValue={template.footerUrl ?? ""}
+              error={fieldErrors.footerUrl}
+              type="url"
+            />
+            <div className={styles.placeholders}>
+              <s-text color="subdued">
+                Subject and intro copy can use these placeholders:
+              </s-text>
+              <ul>
+                {data.placeholders.map((placeholder) => (
+                  <li key={placeholder.key}>
+                    <code>{`{{${placeholder.key}}}`}</code>{" "}
+                    {placeholder.description}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            {data.enquiries.length ? (
+              <div className={styles.previewControls}>
+                <div className={styles.formField}>
+                  <label htmlFor="preview-enquiry">Preview with enquiry</label>
+                  <select id="preview-enquiry" name="previewEnquiryId">
+                    {data.enquiries.map((enquiry) => (
+                      <option key={enquiry.id} value={enquiry.id}>
+                        {enquiry.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className={styles.formField}>
+                  <label htmlFor="preview-audience">Recipient</label>
+                  <select id="preview-audience" name="previewAudience">
+                    <option value="STAFF">Staff</option>
+                    <option value="CUSTOMER">Customer</option>
+                  </select>
+                </div>
+              </div>
+            ) : null}
+            <s-stack direction="inline" gap="small-100">
+              <s-button
+                type="submit"
+                variant="primary"
+                {...(isSaving ? { loading: true } : {})}
+              >
+                Save template
+              </s-button>
+            </s-stack>
+          </fetcher.Form>
+          {data.isCustomized ? (
+            <resetFetcher.Form method="post" className={styles.resetForm}>
+              <input type="hidden" name="intent" value="reset-template" />
+              <s-button type="submit" variant="tertiary" tone="critical">
+                Reset to defaults
+              </s-button>
+            </resetFetcher.Form>
+          ) : null}
+        </s-section>
+
+        <s-section heading="Preview">
+          {preview ? (
+            <s-stack gap="small-100">
+              <s-text>
+                <strong>Subject:</strong> {preview.subject}
+              </s-text>
+              <iframe
+                title="Email preview"
+                className={styles.previewFrame}
+                srcDoc={preview.html}
+                sandbox=""
+              />
+            </s-stack>
+          ) : (
+            <s-text color="subdued">
+              A preview appears here once the shop has received an enquiry.
+            </s-text>
+          )}
+        </s-section>
+      </div>
+    </s-page>
+  );
+}
+
+function TextField({
+  name,
+  label,
+  defaultValue,
+  error,
+  help,
+  type = "text",
+  multiline = false,
+}: {
+  name: string;
+  label: string;
+  defaultValue: string;
+  error?: string;
+  help?: string;
+  type?: "text" | "url";
+  multiline?: boolean;
+}) {
+  const id = `template-${name}`;
+
+  return (
+    <div className={styles.formField}>
+      <label htmlFor={id}>{label}</label>
+      {multiline ? (
+        <textarea id={id} name={name} defaultValue={defaultValue} rows={3} />
+      ) : (
+        <input id={id} name={name} type={type} defaultValue={defaultValue} />
+      )}
+      {help ? <s-text color="subdued">{help}</s-text> : null}
+      {error ? <s-text tone="critical">{error}</s-text> : null}
+    </div>
+  );
+}
+
+function ColorField({
+  name,
+  label,
+  defaultValue,
+  error,
+}: {
+  name: string;
+  label: string;
+  defaultValue: string;
+  error?: string;
+}) {
+  const id = `template-${name}`;
+
+  return (
+    <div className={styles.formField}>
+      <label htmlFor={id}>{label}</label>
+      <input id={id} name={name} type="color" defaultValue={defaultValue} />
+      {error ? <s-text tone="critical">{error}</s-text> : null}
+    </div>
+  );
+}
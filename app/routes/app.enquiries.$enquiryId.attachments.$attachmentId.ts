@@ -0,0 +1,74 @@
+import type { LoaderFunctionArgs } from "react-router";
+
+import prisma from "../db.server";
+import { authenticate } from "../shopify.server";
+import { getAttachmentStorage } from "../services/attachment-storage.server";
+
+const INLINE_MIME_PREFIXES = ["image/", "application/pdf"];
+
+const buildContentDisposition = (
+  type: "inline" | "attachment",
+  filename: string,
+) => {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, "_").replace(/"/g, "'");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(
+    filename,
+  )}`;
+};
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const enquiryId = params.enquiryId?.trim() ?? "";
+  const attachmentId = params.attachmentId?.trim() ?? "";
+
+  if (!enquiryId || !attachmentId) {
+    return new Response("Missing attachment identifier", { status: 400 });
+  }
+
+  const attachment = await prisma.enquiryAttachment.findUnique({
+    where: { id: attachmentId },
+    select: {
+      enquiryId: true,
+      fileName: true,
+      mimeType: true,
+      size: true,
+      storageKey: true,
+      enquiry: { select: { shop: true } },
+    },
+  });
+
+  if (
+    !attachment ||
+    attachment.enquiryId !== enquiryId ||
+    attachment.enquiry.shop !== session.shop
+  ) {
+    return new Response("Attachment not found", { status: 404 });
+  }
+
+  const body = await getAttachmentStorage().stream(attachment.storageKey);
+
+  if (!body) {
+    return new Response("Attachment not found", { status: 404 });
+  }
+
+  const mimeType = attachment.mimeType || "application/octet-stream";
+  const filename = attachment.fileName || "attachment";
+  const canInline = INLINE_MIME_PREFIXES.some((prefix) =>
+    mimeType.startsWith(prefix),
+  );
+  const disposition =
+    url.searchParams.get("disposition") === "inline" && canInline
+      ? "inline"
+      : "attachment";
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": mimeType,
+      "Content-Length": String(attachment.size),
+      "Content-Disposition": buildContentDisposition(disposition, filename),
+      "Cache-Control": "private, no-store",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+};
@@ -0,0 +1,102 @@
+import type { Prisma } from "@prisma/client";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+
+import { authenticate } from "../shopify.server";
+import { readBulkWhere } from "../services/enquiry-bulk.server";
+import { getSessionActor } from "../services/enquiry-events.server";
+import {
+  createEnquiryExport,
+  isExportFormat,
+  type ExportFormat,
+} from "../services/enquiry-export.server";
+import {
+  buildEnquiryWhere,
+  parseEnquiryFilters,
+} from "../services/enquiry-filters.server";
+import { SEARCH_RESULT_LIMIT } from "../services/enquiry-search.server";
+import {
+  getStatusLabels,
+  getWorkflow,
+  type Workflow,
+} from "../services/enquiry-workflow.server";
+
+const exportResponse = (
+  format: ExportFormat,
+  where: Prisma.EnquiryWhereInput,
+  workflow: Workflow,
+) => {
+  const { filename, contentType, body } = createEnquiryExport({
+    format,
+    where,
+    statusLabels: getStatusLabels(workflow),
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "private, no-store",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+};
+
+// Takes the dashboard's filters (`status`, `assignee`, `spam`, `q`) plus
+// `from`/`to` dates, and `format=csv|xlsx`.
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const format = url.searchParams.get("format") ?? "csv";
+
+  if (!isExportFormat(format)) {
+    return new Response("Unsupported export format", { status: 400 });
+  }
+
+  const actor = getSessionActor(session);
+  const workflow = await getWorkflow(session.shop);
+  const filters = parseEnquiryFilters(url.searchParams, { workflow, actor });
+  const { where, searchTruncated } = await buildEnquiryWhere(
+    session.shop,
+    filters,
+    actor,
+  );
+
+  // Exporting the best matches only would look like a complete export.
+  if (searchTruncated) {
+    return new Response(
+      `The search matches more than ${SEARCH_RESULT_LIMIT} enquiries; narrow it first`,
+      { status: 400 },
+    );
+  }
+
+  return exportResponse(format, where, workflow);
+};
+
+// Exports a bulk selection from the dashboard: `intent=bulk-export`, the
+// ticked `enquiryId` values or `selection=all` with `filters`, and `format`.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const format = formData.get("format") ?? "csv";
+
+  if (formData.get("intent") !== "bulk-export") {
+    return new Response("Unsupported action", { status: 400 });
+  }
+
+  if (typeof format !== "string" || !isExportFormat(format)) {
+    return new Response("Unsupported export format", { status: 400 });
+  }
+
+  const actor = getSessionActor(session);
+  const workflow = await getWorkflow(session.shop);
+  const bulkWhere = await readBulkWhere(session.shop, formData, {
+    workflow,
+    actor,
+  });
+
+  if ("error" in bulkWhere) {
+    return new Response(bulkWhere.error, { status: 400 });
+  }
+
+  return exportResponse(format, bulkWhere.where, workflow);
+};
@@ -1,4 +1,11 @@
-import { useEffect, useState } from "react";
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type FormEvent,
+} from "react";
+import type { Prisma } from "@prisma/client";
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
 import { useFetcher, useLoaderData, useSearchParams } from "react-router";
 import { useAppBridge } from "@shopify/app-bridge-react";
@@ -6,17 +13,84 @@ import { ChevronDownIcon, ChevronUpIcon } from "@shopify/polaris-icons";
 
 import prisma from "../../db.server";
 import { authenticate } from "../../shopify.server";
+import {
+  parseCustomFieldAnswers,
+  type CustomFieldAnswer,
+} from "../../services/enquiry-form.server";
+import {
+  enqueueEnquiryNotifications,
+  enqueueMentionEmails,
+  enqueueStatusEmail,
+  getFailedRecipients,
+  OUTBOX_STATUS,
+  processOutbox,
+} from "../../services/enquiry-outbox.server";
+import { ENQUIRY_EMAIL_RECIPIENT } from "../../services/enquiry-email.server";
+import {
+  getRequestType,
+  REQUEST_TYPES,
+} from "../../services/enquiry-request-types.server";
+import {
+  ENQUIRY_EVENT_TYPE,
+  describeEnquiryEvent,
+  getSessionActor,
+  recordEnquiryEvent,
+  type EventActor,
+} from "../../services/enquiry-events.server";
+import {
+  COMMENT_SOURCE,
+  MAX_COMMENT_LENGTH,
+  deleteComment,
+  findMentions,
+  getMentionRecipients,
+  parseMentionIds,
+} from "../../services/enquiry-comments.server";
+import { getStaffDirectory } from "../../services/staff-directory.server";
+import {
+  getAssignmentSettings,
+  pickNextAssignee,
+  saveAutoAssign,
+  toAssigneeData,
+} from "../../services/enquiry-assignment.server";
+import { rules } from "../../services/enquiry-validation.server";
+import {
+  parseSpamReasons,
+  SPAM_REASON_LABELS,
+} from "../../services/enquiry-spam.server";
+import {
+  checkTransition,
+  getStatusLabels,
+  getWorkflow,
+  type WorkflowStatusDefinition,
+  type WorkflowTransitionDefinition,
+} from "../../services/enquiry-workflow.server";
+import {
+  buildEnquiryWhere,
+  getEnquiryOrderBy,
+  parseEnquiryFilters,
+  type AssigneeFilter,
+} from "../../services/enquiry-filters.server";
+import {
+  getStatusEmail,
+  getStatusEmails,
+  renderStatusEmailForEnquiry,
+} from "../../services/status-email.server";
+import {
+  bulkAssign,
+  bulkChangeStatus,
+  bulkDelete,
+  bulkResend,
+  describeBulkOutcome,
+  resolveBulkSelection,
+  type BulkFailure,
+  type BulkOutcome,
+} from "../../services/enquiry-bulk.server";
+import {
+  MAX_VIEW_NAME_LENGTH,
+  saveView,
+} from "../../services/saved-views.server";
 import styles from "./styles.module.css";
 
-const STATUS_OPTIONS = [
-  { value: "NEW", label: "New" },
-  { value: "IN_PROGRESS", label: "In progress" },
-  { value: "AWAITING_CUSTOMER", label: "Awaiting customer" },
-  { value: "QUOTE_SENT", label: "Quote sent" },
-  { value: "COMPLETED", label: "Completed" },
-  { value: "CLOSED", label: "Closed" },
-] as const;
-
 const PAGE_SIZE = 10;
 
 const EMAIL_STATE_LABELS: Record<string, string> = {
@@ -32,21 +106,21 @@ const RECIPIENT_LABELS: Record<string, string> = {
   OTHER: "Other",
 };
 
-const STATUS_MAP = new Map(
-  STATUS_OPTIONS.map((option) => [option.value, option.label]),
-);
-const STATUS_VALUES = STATUS_OPTIONS.map((option) => option.value);
+// What the mail provider reported after accepting a message.
+const DELIVERY_LABELS: Record<string, string> = {
+  DELIVERED: "Delivered",
+  OPENED: "Opened",
+  DEFERRED: "Delayed",
+  BOUNCED: "Bounced",
+  COMPLAINED: "Marked as spam",
+};
 
-const STATUS_TONE: Record<
-  string,
-  "info" | "success" | "critical" | "attention"
-> = {
-  NEW: "info",
-  IN_PROGRESS: "attention",
-  AWAITING_CUSTOMER: "attention",
-  QUOTE_SENT: "attention",
-  COMPLETED: "success",
-  CLOSED: "success",
+const DELIVERY_TONE: Record<string, "success" | "caution" | "critical"> = {
+  DELIVERED: "success",
+  OPENED: "success",
+  DEFERRED: "caution",
+  BOUNCED: "critical",
+  COMPLAINED: "critical",
 };
 
 const EMAIL_TONE: Record<
@@ -85,6 +159,15 @@ const formatWorkedWith = (value: string | null) => {
   }
 };
 
+const hasDecorationDetails = (enquiry: LoaderData["enquiries"][number]) =>
+  Boolean(
+    enquiry.productColour ||
+      enquiry.printPosition ||
+      enquiry.printColours ||
+      enquiry.pantoneReference ||
+      enquiry.artworkNotes,
+  );
+
 const safeStringify = (value: unknown) => {
   try {
     return JSON.stringify(value, null, 2);
@@ -93,6 +176,18 @@ const safeStringify = (value: unknown) => {
   }
 };
 
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 export type LoaderData = {
   enquiries: Array<{
     id: string;
@@ -105,6 +200,10 @@ export type LoaderData = {
     companyName: string | null;
     phoneNumber: string | null;
     requestType: string;
+    requestTypeLabel: string;
+    locale: string | null;
+    assigneeId: string | null;
+    assigneeName: string | null;
     productTitle: string | null;
     productReference: string | null;
     quantity: number | null;
@@ -112,9 +211,28 @@ export type LoaderData = {
     workedWithBefore: string | null;
     message: string;
     extraInformation: string | null;
+    firstName: string | null;
+    lastName: string | null;
+    productColour: string | null;
+    printPosition: string | null;
+    printColours: string | null;
+    pantoneReference: string | null;
+    artworkNotes: string | null;
+    customFields: CustomFieldAnswer[];
+    isSpam: boolean;
+    spamScore: number;
+    spamReasons: string[];
+    attachments: Array<{
+      id: string;
+      fileName: string;
+      mimeType: string;
+      size: number;
+    }>;
     emailNotificationState: string;
     lastEmailAttemptAt: string | null;
     lastEmailError: string | null;
+    // Set when the customer's address hard-bounced.
+    customerEmailBounce: { at: string; reason: string | null } | null;
     emailLogs: Array<{
       id: string;
       createdAt: string;
@@ -125,41 +243,118 @@ export type LoaderData = {
       errorMessage: string | null;
       providerId: string | null;
       metadata: unknown;
+      deliveryStatus: string | null;
+      deliveryDetail: string | null;
+      deliveryUpdatedAt: string | null;
+    }>;
+    events: Array<{
+      id: string;
+      createdAt: string;
+      description: string;
+      actor: string | null;
+      note: string | null;
+    }>;
+    comments: Array<{
+      id: string;
+      createdAt: string;
+      author: string;
+      body: string;
+      edited: boolean;
+      isOwn: boolean;
+      // A reply the customer sent by email rather than a staff comment.
+      fromCustomer: boolean;
+      attachments: Array<{
+        id: string;
+        fileName: string;
+        mimeType: string;
+        size: number;
+      }>;
     }>;
   }>;
+  staff: Array<{ id: string; handle: string; name: string }>;
+  canComment: boolean;
+  maxCommentLength: number;
+  // Saved views belong to a staff member, so offline sessions cannot save.
+  canSaveViews: boolean;
+  maxViewNameLength: number;
+  currentStaffId: string | null;
+  autoAssign: boolean;
+  assigneeFilter: AssigneeFilter | null;
+  statuses: WorkflowStatusDefinition[];
+  transitions: WorkflowTransitionDefinition[];
+  // Statuses that email the customer when an enquiry moves into them.
+  customerEmailStatuses: string[];
   statusCounts: Record<string, number>;
+  spamCount: number;
+  requestTypes: Array<{ value: string; label: string }>;
   statusFilter: string | null;
+  spamOnly: boolean;
   query: string;
   page: number;
   pageSize: number;
   totalMatching: number;
+  // The search matched more than SEARCH_RESULT_LIMIT enquiries and only the
+  // best of them are listed.
+  searchTruncated: boolean;
 };
 
 export type ActionData =
   | {
       ok: true;
-      enquiry: {
+      message?: string;
+      enquiry?: {
         id: string;
         status: string;
         statusNotes: string | null;
         statusUpdatedAt: string;
       };
+      // Customer email for a pending status change; null when none is sent.
+      statusEmail?: { to: string; subject: string; html: string } | null;
+      // Rows a bulk action skipped, with the reason for each.
+      failures?: BulkFailure[];
     }
-  | { ok: false; error: string };
+  | {
+      ok: false;
+      error: string;
+      statusEmail?: undefined;
+      failures?: BulkFailure[];
+    };
+
+// One page of search matches, best first, among those the other filters keep.
+// The filtered ids are loaded and paged in memory, which stays cheap only
+// because `where` is limited to the SEARCH_RESULT_LIMIT ranked ids.
+const getRankedPage = async (
+  where: Prisma.EnquiryWhereInput,
+  rankedIds: string[],
+  skip: number,
+) => {
+  const matching = new Set(
+    (await prisma.enquiry.findMany({ where, select: { id: true } })).map(
+      (enquiry) => enquiry.id,
+    ),
+  );
+
+  return rankedIds
+    .filter((id) => matching.has(id))
+    .slice(skip, skip + PAGE_SIZE);
+};
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
+  const actor = getSessionActor(session);
   const url = new URL(request.url);
 
-  const rawStatus = url.searchParams.get("status");
-  const rawQuery = url.searchParams.get("q")?.trim() ?? "";
   const rawPage = url.searchParams.get("page");
 
-  const normalizedStatus = rawStatus ? rawStatus.toUpperCase() : null;
-  const statusFilter = STATUS_VALUES.includes(normalizedStatus ?? "")
-    ? normalizedStatus
-    : null;
-  const query = rawQuery.slice(0, 120);
+  const workflow = await getWorkflow(session.shop);
+  const statusLabels = getStatusLabels(workflow);
+  const filters = parseEnquiryFilters(url.searchParams, { workflow, actor });
+  const {
+    status: statusFilter,
+    assignee: assigneeFilter,
+    spamOnly,
+    query,
+  } = filters;
   const requestedPage = (() => {
     const parsed = Number.parseInt(rawPage ?? "", 10);
     if (!Number.isFinite(parsed) || parsed < 1) {
@@ -168,57 +363,91 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     return parsed;
   })();
 
-  const where: Record<string, unknown> = { shop: session.shop };
-
-  if (statusFilter) {
-    where.status = statusFilter;
-  }
-
-  if (query) {
-    where.AND = [
-      {
-        OR: [
-          { name: { contains: query, mode: "insensitive" } },
-          { email: { contains: query, mode: "insensitive" } },
-          { companyName: { contains: query, mode: "insensitive" } },
-          { productTitle: { contains: query, mode: "insensitive" } },
-          { productReference: { contains: query, mode: "insensitive" } },
-          { message: { contains: query, mode: "insensitive" } },
-        ],
-      },
-    ];
-  }
+  const { where, rankedIds, searchTruncated } = await buildEnquiryWhere(
+    session.shop,
+    filters,
+    actor,
+  );
 
-  const totalMatching = await prisma.enquiry.count({
-    where: where as never,
-  });
+  const totalMatching = await prisma.enquiry.count({ where });
 
   const maxPage = Math.max(1, Math.ceil(totalMatching / PAGE_SIZE));
   const page = Math.min(requestedPage, maxPage);
   const skip = (page - 1) * PAGE_SIZE;
 
-  const enquiries = await prisma.enquiry.findMany({
-    where: where as never,
-    orderBy: { createdAt: "desc" },
-    skip,
-    take: PAGE_SIZE,
+  // Search results are listed best match first unless a sort is chosen.
+  const rankedPageIds =
+    rankedIds && !filters.sort
+      ? await getRankedPage(where, rankedIds, skip)
+      : null;
+
+  const pageRows = await prisma.enquiry.findMany({
+    where: rankedPageIds ? { id: { in: rankedPageIds } } : where,
+    orderBy: getEnquiryOrderBy(filters.sort),
+    ...(rankedPageIds ? {} : { skip, take: PAGE_SIZE }),
+    omit: { attachmentData: true },
     include: {
+      attachments: {
+        where: { commentId: null },
+        orderBy: { createdAt: "asc" },
+        select: { id: true, fileName: true, mimeType: true, size: true },
+      },
       emailLogs: {
         orderBy: { createdAt: "desc" },
         take: 5,
       },
+      events: {
+        orderBy: { createdAt: "asc" },
+      },
+      comments: {
+        orderBy: { createdAt: "asc" },
+        include: {
+          attachments: {
+            orderBy: { createdAt: "asc" },
+            select: { id: true, fileName: true, mimeType: true, size: true },
+          },
+        },
+      },
     },
   });
 
+  const enquiries = rankedPageIds
+    ? pageRows.sort(
+        (a, b) => rankedPageIds.indexOf(a.id) - rankedPageIds.indexOf(b.id),
+      )
+    : pageRows;
+
+  // The metrics count every status, narrowed by the other active filters.
+  const { where: countWhere } = await buildEnquiryWhere(
+    session.shop,
+    {
+      ...filters,
+      status: null,
+      search: filters.search && { ...filters.search, statuses: [] },
+    },
+    actor,
+  );
+
   const groupedCounts = (await prisma.enquiry.groupBy({
     by: ["status"],
     _count: { _all: true },
-    where: { shop: session.shop },
+    where: countWhere,
   })) as Array<{ status: string; _count: { _all: number } }>;
 
+  const spamCount = await prisma.enquiry.count({
+    where: { shop: session.shop, isSpam: true },
+  });
+
+  const staff = await getStaffDirectory(session.shop);
+  const { autoAssign } = await getAssignmentSettings(session.shop);
+  const statusEmails = await getStatusEmails(
+    session.shop,
+    workflow.statuses.map((status) => status.key),
+  );
+
   const statusCounts: Record<string, number> = {};
-  for (const option of STATUS_OPTIONS) {
-    statusCounts[option.value] = 0;
+  for (const status of workflow.statuses) {
+    statusCounts[status.key] = 0;
   }
   for (const entry of groupedCounts) {
     statusCounts[entry.status] = entry._count._all;
@@ -236,6 +465,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       companyName: enquiry.companyName,
       phoneNumber: enquiry.phoneNumber,
       requestType: enquiry.requestType,
+      requestTypeLabel: getRequestType(enquiry.requestType).label,
+      locale: enquiry.locale,
+      assigneeId: enquiry.assigneeId,
+      assigneeName: enquiry.assigneeName ?? enquiry.assigneeEmail,
       productTitle: enquiry.productTitle,
       productReference: enquiry.productReference,
       quantity: enquiry.quantity,
@@ -243,11 +476,31 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       workedWithBefore: enquiry.workedWithBefore,
       message: enquiry.message,
       extraInformation: enquiry.extraInformation,
+      firstName: enquiry.firstName,
+      lastName: enquiry.lastName,
+      productColour: enquiry.productColour,
+      printPosition: enquiry.printPosition,
+      printColours: enquiry.printColours,
+      pantoneReference: enquiry.pantoneReference,
+      artworkNotes: enquiry.artworkNotes,
+      customFields: parseCustomFieldAnswers(enquiry.customFields),
+      isSpam: enquiry.isSpam,
+      spamScore: enquiry.spamScore,
+      spamReasons: parseSpamReasons(enquiry.spamReasons).map(
+        (reason) => SPAM_REASON_LABELS[reason],
+      ),
+      attachments: enquiry.attachments,
       emailNotificationState: enquiry.emailNotificationState,
       lastEmailAttemptAt: enquiry.lastEmailAttemptAt
         ? enquiry.lastEmailAttemptAt.toISOString()
         : null,
       lastEmailError: enquiry.lastEmailError,
+      customerEmailBounce: enquiry.customerEmailBouncedAt
+        ? {
+            at: enquiry.customerEmailBouncedAt.toISOString(),
+            reason: enquiry.customerEmailBounce,
+          }
+        : null,
       emailLogs: enquiry.emailLogs.map((log) => ({
         id: log.id,
         createdAt: log.createdAt.toISOString(),
@@ -258,14 +511,65 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         errorMessage: log.errorMessage,
         providerId: log.providerId,
         metadata: log.metadata,
+        deliveryStatus: log.deliveryStatus,
+        deliveryDetail: log.deliveryDetail,
+        deliveryUpdatedAt: log.deliveryUpdatedAt
+          ? log.deliveryUpdatedAt.toISOString()
+          : null,
+      })),
+      events: enquiry.events.map((event) => ({
+        id: event.id,
+        createdAt: event.createdAt.toISOString(),
+        description: describeEnquiryEvent(event, statusLabels),
+        actor: event.actorName ?? event.actorEmail,
+        note: event.note,
       })),
+      comments: enquiry.comments.map((comment) => ({
+        id: comment.id,
+        createdAt: comment.createdAt.toISOString(),
+        author:
+          comment.authorName ??
+          comment.authorEmail ??
+          (comment.source === COMMENT_SOURCE.CUSTOMER_EMAIL
+            ? "Customer"
+            : "Staff member"),
+        body: comment.body,
+        edited: Boolean(comment.editedAt),
+        isOwn: Boolean(actor) && comment.authorId === actor?.id,
+        fromCustomer: comment.source === COMMENT_SOURCE.CUSTOMER_EMAIL,
+        attachments: comment.attachments,
+      })),
+    })),
+    staff: staff.map((member) => ({
+      id: member.id,
+      handle: member.handle,
+      name: member.name,
     })),
+    canComment: Boolean(actor),
+    maxCommentLength: MAX_COMMENT_LENGTH,
+    canSaveViews: Boolean(actor),
+    maxViewNameLength: MAX_VIEW_NAME_LENGTH,
+    currentStaffId: actor?.id ?? null,
+    autoAssign,
+    assigneeFilter,
+    statuses: workflow.statuses,
+    transitions: workflow.transitions,
+    customerEmailStatuses: Array.from(statusEmails.values())
+      .filter((entry) => entry.enabled)
+      .map((entry) => entry.statusKey),
     statusCounts,
+    spamCount,
+    requestTypes: REQUEST_TYPES.map((type) => ({
+      value: type.value,
+      label: type.label,
+    })),
     statusFilter,
+    spamOnly,
     query,
     page,
     pageSize: PAGE_SIZE,
     totalMatching,
+    searchTruncated,
   };
 
   return Response.json(payload);
@@ -276,6 +580,82 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const formData = await request.formData();
 
   const intent = formData.get("intent");
+  const actor = getSessionActor(session);
+
+  if (intent === "release-spam") {
+    return releaseSpam(session.shop, actor, formData.get("enquiryId"));
+  }
+
+  if (
+    intent === "resend-all" ||
+    intent === "resend-failed" ||
+    intent === "resend-to"
+  ) {
+    return resendNotifications(session.shop, actor, intent, formData);
+  }
+
+  if (intent === "assign") {
+    return assignEnquiry(session.shop, actor, formData);
+  }
+
+  if (intent === "update-assignment-settings") {
+    const autoAssign = formData.get("autoAssign") === "on";
+    await saveAutoAssign(session.shop, autoAssign);
+    return Response.json({
+      ok: true,
+      message: autoAssign
+        ? "New enquiries will be assigned in turn"
+        : "Automatic assignment turned off",
+    });
+  }
+
+  if (
+    intent === "add-comment" ||
+    intent === "edit-comment" ||
+    intent === "delete-comment"
+  ) {
+    return handleComment(session.shop, actor, intent, formData);
+  }
+
+  if (intent === "preview-status-email") {
+    return previewStatusEmail(session.shop, formData);
+  }
+
+  if (intent === "save-view") {
+    const nameRaw = formData.get("name");
+    const queryRaw = formData.get("query");
+    const result = await saveView({
+      shop: session.shop,
+      actor,
+      name: typeof nameRaw === "string" ? nameRaw : "",
+      query: typeof queryRaw === "string" ? queryRaw : "",
+      shared: formData.get("shared") === "on",
+    });
+
+    if ("error" in result) {
+      return Response.json(
+        { ok: false, error: result.error },
+        { status: result.status },
+      );
+    }
+
+    return Response.json({
+      ok: true,
+      message: result.replaced
+        ? `Updated view "${result.view.name}"`
+        : `Saved view "${result.view.name}"`,
+    });
+  }
+
+  if (
+    intent === "bulk-status" ||
+    intent === "bulk-assign" ||
+    intent === "bulk-resend" ||
+    intent === "bulk-delete"
+  ) {
+    return handleBulkAction(session.shop, actor, intent, formData);
+  }
+
   if (intent !== "update-status") {
     return Response.json(
       { ok: false, error: "Unsupported action" },
@@ -286,6 +666,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const enquiryIdRaw = formData.get("enquiryId");
   const statusRaw = formData.get("status");
   const notesRaw = formData.get("statusNotes");
+  const reasonRaw = formData.get("reason");
+  const notifyCustomer = formData.get("notifyCustomer") === "on";
 
   const enquiryId = typeof enquiryIdRaw === "string" ? enquiryIdRaw.trim() : "";
   const statusValue =
@@ -294,6 +676,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     typeof notesRaw === "string" && notesRaw.trim().length > 0
       ? notesRaw.trim()
       : null;
+  const reason =
+    typeof reasonRaw === "string" && reasonRaw.trim().length > 0
+      ? reasonRaw.trim()
+      : null;
 
   if (!enquiryId) {
     return Response.json(
@@ -302,16 +688,16 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     );
   }
 
-  if (!STATUS_VALUES.includes(statusValue)) {
-    return Response.json(
-      { ok: false, error: "Invalid status value" },
-      { status: 400 },
-    );
-  }
-
   const existing = await prisma.enquiry.findUnique({
     where: { id: enquiryId },
-    select: { id: true, shop: true, status: true },
+    select: {
+      id: true,
+      shop: true,
+      status: true,
+      statusNotes: true,
+      isSpam: true,
+      customerEmailBouncedAt: true,
+    },
   });
 
   if (!existing || existing.shop !== session.shop) {
@@ -321,26 +707,100 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     );
   }
 
+  const workflow = await getWorkflow(session.shop);
+  const transitionError = checkTransition(
+    workflow,
+    existing.status,
+    statusValue,
+    reason,
+  );
+
+  if (transitionError) {
+    return Response.json(
+      { ok: false, error: transitionError },
+      { status: 400 },
+    );
+  }
+
   const shouldRefreshTimestamp = existing.status !== statusValue;
+  const notesChanged = existing.statusNotes !== statusNotes;
   const now = new Date();
 
-  const updated = await prisma.enquiry.update({
-    where: { id: enquiryId },
-    data: {
-      status: statusValue as never,
-      statusNotes,
-      ...(shouldRefreshTimestamp ? { statusUpdatedAt: now } : {}),
-    },
-    select: {
-      id: true,
-      status: true,
-      statusNotes: true,
-      statusUpdatedAt: true,
-    },
-  });
+  // Notes are overwritten on the enquiry, so each version is kept on its event.
+  const [updated] = await prisma.$transaction([
+    prisma.enquiry.update({
+      where: { id: enquiryId },
+      data: {
+        status: statusValue,
+        statusNotes,
+        ...(shouldRefreshTimestamp ? { statusUpdatedAt: now } : {}),
+      },
+      select: {
+        id: true,
+        status: true,
+        statusNotes: true,
+        statusUpdatedAt: true,
+      },
+    }),
+    ...(shouldRefreshTimestamp || notesChanged
+      ? [
+          recordEnquiryEvent({
+            enquiryId,
+            type: shouldRefreshTimestamp
+              ? ENQUIRY_EVENT_TYPE.STATUS_CHANGED
+              : ENQUIRY_EVENT_TYPE.NOTE_UPDATED,
+            actor,
+            fromStatus: existing.status,
+            toStatus: statusValue,
+            note: statusNotes,
+            ...(shouldRefreshTimestamp && reason
+              ? { metadata: { reason } }
+              : {}),
+          }),
+        ]
+      : []),
+  ]);
+
+  // Staff confirm the email in the dashboard before it is requested here.
+  // It goes through the outbox so failures are retried, but is sent straight
+  // away so staff see the result.
+  const messageId =
+    notifyCustomer &&
+    shouldRefreshTimestamp &&
+    !existing.isSpam &&
+    !existing.customerEmailBouncedAt
+      ? await enqueueStatusEmail(enquiryId, statusValue, { wake: false })
+      : null;
+
+  if (messageId) {
+    await processOutbox({ enquiryId });
+  }
+
+  const emailed = messageId
+    ? await prisma.enquiryEmailOutbox.findUnique({
+        where: { id: messageId },
+        select: { status: true },
+      })
+    : null;
+
+  let message: string | undefined;
+  if (
+    notifyCustomer &&
+    shouldRefreshTimestamp &&
+    existing.customerEmailBouncedAt
+  ) {
+    message =
+      "Status updated; the customer's address has bounced, so they were not emailed";
+  } else if (emailed) {
+    message =
+      emailed.status === OUTBOX_STATUS.SENT
+        ? "Status updated and customer emailed"
+        : "Status updated; the customer email could not be sent and will be retried";
+  }
 
   return Response.json({
     ok: true,
+    message,
     enquiry: {
       id: updated.id,
       status: updated.status,
@@ -350,179 +810,821 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   });
 };
 
-export default function EnquiriesDashboard() {
-  const data = useLoaderData() as LoaderData;
-  const fetcher = useFetcher<ActionData>();
-  const appBridge = useAppBridge();
-  const [params, setParams] = useSearchParams();
-  const [expandedId, setExpandedId] = useState<string | null>(null);
-  const [statusPopoverId, setStatusPopoverId] = useState<string | null>(null);
+const previewStatusEmail = async (shop: string, formData: FormData) => {
+  const enquiryIdRaw = formData.get("enquiryId");
+  const statusRaw = formData.get("status");
+  const enquiryId = typeof enquiryIdRaw === "string" ? enquiryIdRaw.trim() : "";
+  const statusKey =
+    typeof statusRaw === "string" ? statusRaw.trim().toUpperCase() : "";
 
-  useEffect(() => {
-    if (fetcher.state === "idle" && fetcher.data) {
-      if (fetcher.data.ok) {
-        appBridge.toast.show("Enquiry updated");
-        setStatusPopoverId(null);
-      } else if (fetcher.data.error) {
-        appBridge.toast.show(fetcher.data.error, { isError: true });
-      }
-    }
-  }, [appBridge, fetcher.data, fetcher.state]);
+  const existing = enquiryId
+    ? await prisma.enquiry.findUnique({
+        where: { id: enquiryId },
+        select: { shop: true, isSpam: true, customerEmailBouncedAt: true },
+      })
+    : null;
 
-  useEffect(() => {
-    if (!statusPopoverId) {
-      return;
-    }
+  if (!existing || existing.shop !== shop) {
+    return Response.json(
+      { ok: false, error: "Enquiry not found" },
+      { status: 404 },
+    );
+  }
 
-    const handlePointerDown = (event: PointerEvent) => {
-      const target = event.target as HTMLElement | null;
+  // Neither spam nor a bounced address is emailed, so there is nothing to
+  // confirm.
+  if (existing.isSpam || existing.customerEmailBouncedAt) {
+    return Response.json({ ok: true, statusEmail: null });
+  }
 
-      if (target?.closest("[data-status-popover-root]")) {
-        return;
-      }
+  const statusLabel = getStatusLabels(await getWorkflow(shop)).get(statusKey);
+  const rendered = statusLabel
+    ? await renderStatusEmailForEnquiry({ enquiryId, statusKey, statusLabel })
+    : null;
 
-      setStatusPopoverId(null);
-    };
+  return Response.json({
+    ok: true,
+    statusEmail: rendered
+      ? { to: rendered.to, subject: rendered.subject, html: rendered.html }
+      : null,
+  });
+};
 
-    window.addEventListener("pointerdown", handlePointerDown);
+const releaseSpam = async (
+  shop: string,
+  actor: EventActor,
+  enquiryIdRaw: FormDataEntryValue | null,
+) => {
+  const enquiryId = typeof enquiryIdRaw === "string" ? enquiryIdRaw.trim() : "";
 
-    return () => {
-      window.removeEventListener("pointerdown", handlePointerDown);
-    };
-  }, [statusPopoverId]);
+  const existing = enquiryId
+    ? await prisma.enquiry.findUnique({
+        where: { id: enquiryId },
+        select: { id: true, shop: true, isSpam: true, assigneeId: true },
+      })
+    : null;
 
-  const hasResults = data.enquiries.length > 0;
-  const filterStatus = params.get("status") ?? "";
-  const filterQuery = params.get("q") ?? "";
-  const totalEnquiries = Object.values(data.statusCounts).reduce(
-    (acc, count) => acc + count,
-    0,
-  );
-  const totalMatching = data.totalMatching;
-  const pageSize = data.pageSize;
-  const page = data.page;
-  const totalPages = Math.max(1, Math.ceil(totalMatching / pageSize));
-  const hasPreviousPage = page > 1;
-  const hasNextPage = page < totalPages;
-  const rangeStart = totalMatching === 0 ? 0 : (page - 1) * pageSize + 1;
-  const rangeEnd =
-    totalMatching === 0
-      ? 0
-      : Math.min(totalMatching, rangeStart + pageSize - 1);
+  if (!existing || existing.shop !== shop) {
+    return Response.json(
+      { ok: false, error: "Enquiry not found" },
+      { status: 404 },
+    );
+  }
 
-  const changePage = (targetPage: number) => {
-    const safeTarget = Math.min(Math.max(targetPage, 1), totalPages);
-    const nextParams = new URLSearchParams(params);
-    if (safeTarget <= 1) {
-      nextParams.delete("page");
-    } else {
-      nextParams.set("page", String(safeTarget));
-    }
-    setExpandedId(null);
-    setStatusPopoverId(null);
-    setParams(nextParams, { replace: true });
-  };
+  if (!existing.isSpam) {
+    return Response.json(
+      { ok: false, error: "Enquiry is not marked as spam" },
+      { status: 400 },
+    );
+  }
 
-  const handlePreviousPage = () => {
-    if (hasPreviousPage) {
-      changePage(page - 1);
-    }
-  };
+  // Spam skips auto-assignment on arrival, so it joins the rotation now.
+  const assignee = existing.assigneeId ? null : await pickNextAssignee(shop);
 
-  const handleNextPage = () => {
-    if (hasNextPage) {
-      changePage(page + 1);
-    }
-  };
+  const [updated] = await prisma.$transaction([
+    prisma.enquiry.update({
+      where: { id: enquiryId },
+      data: { isSpam: false, ...(assignee ? toAssigneeData(assignee) : {}) },
+      select: {
+        id: true,
+        status: true,
+        statusNotes: true,
+        statusUpdatedAt: true,
+      },
+    }),
+    recordEnquiryEvent({
+      enquiryId,
+      type: ENQUIRY_EVENT_TYPE.SPAM_RELEASED,
+      actor,
+    }),
+    ...(assignee
+      ? [
+          recordEnquiryEvent({
+            enquiryId,
+            type: ENQUIRY_EVENT_TYPE.ASSIGNED,
+            metadata: {
+              assigneeId: assignee.id,
+              assigneeName: assignee.name,
+              auto: true,
+            },
+          }),
+        ]
+      : []),
+  ]);
 
-  const emailSummary = Object.entries(EMAIL_STATE_LABELS).map(
-    ([state, label]) => {
-      const count = data.enquiries.filter(
-        (enquiry) => enquiry.emailNotificationState === state,
-      ).length;
-      return { state, label, count };
-    },
-  );
+  // Notifications were held back while the enquiry was flagged.
+  const queued = await enqueueEnquiryNotifications(enquiryId);
 
-  const metricCards = [
-    {
-      id: "TOTAL",
-      label: "Total enquiries",
-      value: totalEnquiries,
+  return Response.json({
+    ok: true,
+    message: queued.length
+      ? "Enquiry released and notifications queued"
+      : "Enquiry released, but no email recipients are configured",
+    enquiry: {
+      id: updated.id,
+      status: updated.status,
+      statusNotes: updated.statusNotes,
+      statusUpdatedAt: updated.statusUpdatedAt.toISOString(),
     },
-    ...STATUS_OPTIONS.map((option) => ({
-      id: option.value,
-      label: option.label,
-      value: data.statusCounts[option.value] ?? 0,
-    })),
-  ];
+  });
+};
 
-  return (
-    <s-page heading="Enquiries dashboard">
-      <div className={styles.pageRoot}>
-        <s-section>
-          <div className={styles.metricsRow}>
-            {metricCards.map((metric) => (
-              <s-card
-                key={metric.id}
-                padding="base"
-                className={styles.metricCard}
-                background="subdued"
-              >
-                <s-stack gap="tight">
-                  <s-heading level={metric.id === "TOTAL" ? 3 : 4}>
-                    {metric.label}
-                  </s-heading>
-                  <span className={styles.metricValue}>{metric.value}</span>
-                  <s-text tone="subdued">{metric.helper}</s-text>
+const assignEnquiry = async (
+  shop: string,
+  actor: EventActor,
+  formData: FormData,
+) => {
+  const enquiryIdRaw = formData.get("enquiryId");
+  const assigneeIdRaw = formData.get("assigneeId");
+  const enquiryId = typeof enquiryIdRaw === "string" ? enquiryIdRaw.trim() : "";
+  const assigneeId =
+    typeof assigneeIdRaw === "string" ? assigneeIdRaw.trim() : "";
+
+  const existing = enquiryId
+    ? await prisma.enquiry.findUnique({
+        where: { id: enquiryId },
+        select: { id: true, shop: true, isSpam: true, assigneeId: true },
+      })
+    : null;
+
+  if (!existing || existing.shop !== shop) {
+    return Response.json(
+      { ok: false, error: "Enquiry not found" },
+      { status: 404 },
+    );
+  }
+
+  const assignee = assigneeId
+    ? (await getStaffDirectory(shop)).find(
+        (member) => member.id === assigneeId,
+      )
+    : null;
+
+  if (assigneeId && !assignee) {
+    return Response.json(
+      { ok: false, error: "Staff member not found" },
+      { status: 400 },
+    );
+  }
+
+  if ((assignee?.id ?? null) === existing.assigneeId) {
+    return Response.json({ ok: true, message: "Assignee unchanged" });
+  }
+
+  await prisma.$transaction([
+    prisma.enquiry.update({
+      where: { id: enquiryId },
+      data: toAssigneeData(assignee ?? null),
+    }),
+    recordEnquiryEvent({
+      enquiryId,
+      type: ENQUIRY_EVENT_TYPE.ASSIGNED,
+      actor,
+      metadata: assignee
+        ? { assigneeId: assignee.id, assigneeName: assignee.name }
+        : {},
+    }),
+  ]);
+
+  if (!assignee) {
+    return Response.json({ ok: true, message: "Enquiry unassigned" });
+  }
+
+  // The new owner gets the staff notification they missed, unless they
+  // assigned it to themselves or it is still held as spam.
+  const queued =
+    assignee.email && assignee.id !== actor?.id && !existing.isSpam
+      ? await enqueueEnquiryNotifications(enquiryId, {
+          recipients: [
+            {
+              email: assignee.email,
+              recipientType: ENQUIRY_EMAIL_RECIPIENT.STAFF,
+            },
+          ],
+        })
+      : [];
+
+  return Response.json({
+    ok: true,
+    message: queued.length
+      ? `Assigned to ${assignee.name} and notified`
+      : `Assigned to ${assignee.name}`,
+  });
+};
+
+const RESEND_STATE_MESSAGES: Record<string, string> = {
+  SENT: "Notifications sent",
+  PARTIAL: "Some notifications failed and will be retried",
+  PENDING: "Notifications failed and will be retried",
+  FAILED: "Notifications could not be sent",
+};
+
+const resendNotifications = async (
+  shop: string,
+  actor: EventActor,
+  intent: "resend-all" | "resend-failed" | "resend-to",
+  formData: FormData,
+) => {
+  const enquiryIdRaw = formData.get("enquiryId");
+  const enquiryId = typeof enquiryIdRaw === "string" ? enquiryIdRaw.trim() : "";
+
+  const existing = enquiryId
+    ? await prisma.enquiry.findUnique({
+        where: { id: enquiryId },
+        select: {
+          id: true,
+          shop: true,
+          isSpam: true,
+          customerEmailBouncedAt: true,
+        },
+      })
+    : null;
+
+  if (!existing || existing.shop !== shop) {
+    return Response.json(
+      { ok: false, error: "Enquiry not found" },
+      { status: 404 },
+    );
+  }
+
+  if (existing.isSpam) {
+    return Response.json(
+      { ok: false, error: "Release the enquiry from spam before emailing it" },
+      { status: 400 },
+    );
+  }
+
+  let recipients;
+  let eventMetadata: Record<string, string> = { scope: "all" };
+  if (intent === "resend-failed") {
+    eventMetadata = { scope: "failed" };
+    recipients = await getFailedRecipients(enquiryId);
+    if (!recipients.length) {
+      return Response.json(
+        { ok: false, error: "No failed recipients to resend to" },
+        { status: 400 },
+      );
+    }
+  } else if (intent === "resend-to") {
+    const addressRaw = formData.get("recipient");
+    const address = typeof addressRaw === "string" ? addressRaw.trim() : "";
+    if (!address || rules.email(address)) {
+      return Response.json(
+        { ok: false, error: "Enter a valid email address" },
+        { status: 400 },
+      );
+    }
+    recipients = [
+      { email: address, recipientType: ENQUIRY_EMAIL_RECIPIENT.OTHER },
+    ];
+    eventMetadata = { scope: "copy", recipient: address };
+  }
+
+  const queued = await enqueueEnquiryNotifications(enquiryId, {
+    recipients,
+    wake: false,
+  });
+
+  if (!queued.length) {
+    return Response.json(
+      {
+        ok: false,
+        error: existing.customerEmailBouncedAt
+          ? "No email recipients are left; the customer's address has bounced"
+          : "No email recipients are configured",
+      },
+      { status: 400 },
+    );
+  }
+
+  await recordEnquiryEvent({
+    enquiryId,
+    type: ENQUIRY_EVENT_TYPE.RESEND_REQUESTED,
+    actor,
+    metadata: eventMetadata,
+  });
+
+  // Send straight away so staff see the result; failures stay in the outbox
+  // and are retried by the background worker.
+  await processOutbox({ enquiryId });
+
+  const [updated, copy] = await Promise.all([
+    prisma.enquiry.findUniqueOrThrow({
+      where: { id: enquiryId },
+      select: {
+        id: true,
+        status: true,
+        statusNotes: true,
+        statusUpdatedAt: true,
+        emailNotificationState: true,
+      },
+    }),
+    // The copy's own outbox message, not whichever email was logged last.
+    intent === "resend-to"
+      ? prisma.enquiryEmailOutbox.findUnique({
+          where: { id: queued[0] },
+          select: { status: true },
+        })
+      : null,
+  ]);
+
+  const message =
+    intent === "resend-to"
+      ? copy?.status === OUTBOX_STATUS.SENT
+        ? "Copy sent"
+        : "Copy could not be sent and will be retried"
+      : RESEND_STATE_MESSAGES[updated.emailNotificationState] ??
+        "Notifications processed";
+
+  return Response.json({
+    ok: true,
+    message,
+    enquiry: {
+      id: updated.id,
+      status: updated.status,
+      statusNotes: updated.statusNotes,
+      statusUpdatedAt: updated.statusUpdatedAt.toISOString(),
+    },
+  });
+};
+
+const readCommentBody = (formData: FormData) => {
+  const value = formData.get("body");
+  const body = typeof value === "string" ? value.trim() : "";
+
+  if (!body) {
+    return { error: "Write a comment first" } as const;
+  }
+
+  if (body.length > MAX_COMMENT_LENGTH) {
+    return {
+      error: `Keep comments under ${MAX_COMMENT_LENGTH} characters`,
+    } as const;
+  }
+
+  return { body } as const;
+};
+
+const handleComment = async (
+  shop: string,
+  actor: EventActor,
+  intent: "add-comment" | "edit-comment" | "delete-comment",
+  formData: FormData,
+) => {
+  if (!actor) {
+    return Response.json(
+      { ok: false, error: "Comments need a signed-in staff account" },
+      { status: 403 },
+    );
+  }
+
+  if (intent === "add-comment") {
+    const enquiryIdRaw = formData.get("enquiryId");
+    const enquiryId =
+      typeof enquiryIdRaw === "string" ? enquiryIdRaw.trim() : "";
+    const enquiry = enquiryId
+      ? await prisma.enquiry.findUnique({
+          where: { id: enquiryId },
+          select: { id: true, shop: true, name: true },
+        })
+      : null;
+
+    if (!enquiry || enquiry.shop !== shop) {
+      return Response.json(
+        { ok: false, error: "Enquiry not found" },
+        { status: 404 },
+      );
+    }
+
+    const input = readCommentBody(formData);
+    if ("error" in input) {
+      return Response.json({ ok: false, error: input.error }, { status: 400 });
+    }
+
+    const mentioned = findMentions(input.body, await getStaffDirectory(shop));
+
+    const comment = await prisma.enquiryComment.create({
+      data: {
+        enquiryId,
+        authorId: actor.id,
+        authorName: actor.name,
+        authorEmail: actor.email,
+        body: input.body,
+        mentions: mentioned.map((member) => member.id),
+      },
+      select: { id: true },
+    });
+
+    const notified = (
+      await enqueueMentionEmails(
+        enquiryId,
+        comment.id,
+        getMentionRecipients(mentioned, actor),
+      )
+    ).length;
+
+    return Response.json({
+      ok: true,
+      message: notified
+        ? `Comment added and ${notified} ${notified === 1 ? "person" : "people"} notified`
+        : "Comment added",
+    });
+  }
+
+  const commentIdRaw = formData.get("commentId");
+  const commentId = typeof commentIdRaw === "string" ? commentIdRaw.trim() : "";
+  const comment = commentId
+    ? await prisma.enquiryComment.findUnique({
+        where: { id: commentId },
+        include: { enquiry: { select: { id: true, shop: true, name: true } } },
+      })
+    : null;
+
+  if (!comment || comment.enquiry.shop !== shop) {
+    return Response.json(
+      { ok: false, error: "Comment not found" },
+      { status: 404 },
+    );
+  }
+
+  if (comment.authorId !== actor.id) {
+    return Response.json(
+      { ok: false, error: "You can only change your own comments" },
+      { status: 403 },
+    );
+  }
+
+  if (intent === "delete-comment") {
+    await deleteComment(comment.id);
+    return Response.json({ ok: true, message: "Comment deleted" });
+  }
+
+  const input = readCommentBody(formData);
+  if ("error" in input) {
+    return Response.json({ ok: false, error: input.error }, { status: 400 });
+  }
+
+  // Only people newly mentioned by the edit are emailed.
+  const mentioned = findMentions(input.body, await getStaffDirectory(shop));
+  const alreadyMentioned = new Set(parseMentionIds(comment.mentions));
+
+  await prisma.enquiryComment.update({
+    where: { id: comment.id },
+    data: {
+      body: input.body,
+      mentions: Array.from(
+        new Set([...alreadyMentioned, ...mentioned.map((member) => member.id)]),
+      ),
+      editedAt: new Date(),
+    },
+  });
+
+  await enqueueMentionEmails(
+    comment.enquiry.id,
+    comment.id,
+    getMentionRecipients(
+      mentioned.filter((member) => !alreadyMentioned.has(member.id)),
+      actor,
+    ),
+  );
+
+  return Response.json({ ok: true, message: "Comment updated" });
+};
+
+const countEnquiries = (count: number) =>
+  `${count} ${count === 1 ? "enquiry" : "enquiries"}`;
+
+const handleBulkAction = async (
+  shop: string,
+  actor: EventActor,
+  intent: "bulk-status" | "bulk-assign" | "bulk-resend" | "bulk-delete",
+  formData: FormData,
+) => {
+  const workflow = await getWorkflow(shop);
+  const selection = await resolveBulkSelection(shop, formData, {
+    workflow,
+    actor,
+  });
+
+  if ("error" in selection) {
+    return Response.json(
+      { ok: false, error: selection.error },
+      { status: 400 },
+    );
+  }
+
+  const { targets, missing } = selection;
+
+  if (!targets.length) {
+    return Response.json(
+      { ok: false, error: "None of the selected enquiries were found" },
+      { status: 404 },
+    );
+  }
+
+  let outcome: BulkOutcome;
+  let done: (count: number) => string;
+
+  if (intent === "bulk-status") {
+    const statusRaw = formData.get("status");
+    const notesRaw = formData.get("statusNotes");
+    const reasonRaw = formData.get("reason");
+    const status =
+      typeof statusRaw === "string" ? statusRaw.trim().toUpperCase() : "";
+    const statusLabel = getStatusLabels(workflow).get(status);
+
+    if (!statusLabel) {
+      return Response.json(
+        { ok: false, error: "Choose a status from the workflow" },
+        { status: 400 },
+      );
+    }
+
+    const emailCustomers =
+      formData.get("notifyCustomers") === "on" &&
+      (await getStatusEmail(shop, status)).enabled;
+
+    outcome = await bulkChangeStatus({
+      targets,
+      workflow,
+      status,
+      // A blank note keeps each enquiry's own notes.
+      note:
+        typeof notesRaw === "string" && notesRaw.trim().length > 0
+          ? notesRaw.trim()
+          : null,
+      reason:
+        typeof reasonRaw === "string" && reasonRaw.trim().length > 0
+          ? reasonRaw.trim()
+          : null,
+      emailCustomers,
+      actor,
+    });
+    const emailed = outcome.emailed ?? 0;
+    done = (count) =>
+      `Moved ${countEnquiries(count)} to ${statusLabel}${
+        emailed
+          ? ` and emailing ${emailed} ${emailed === 1 ? "customer" : "customers"}`
+          : ""
+      }`;
+  } else if (intent === "bulk-assign") {
+    const assigneeIdRaw = formData.get("assigneeId");
+    const assigneeId =
+      typeof assigneeIdRaw === "string" ? assigneeIdRaw.trim() : "";
+    const assignee = assigneeId
+      ? (await getStaffDirectory(shop)).find(
+          (member) => member.id === assigneeId,
+        )
+      : null;
+
+    if (assigneeId && !assignee) {
+      return Response.json(
+        { ok: false, error: "Staff member not found" },
+        { status: 400 },
+      );
+    }
+
+    outcome = await bulkAssign({ targets, assignee: assignee ?? null, actor });
+    done = (count) =>
+      assignee
+        ? `Assigned ${countEnquiries(count)} to ${assignee.name}`
+        : `Unassigned ${countEnquiries(count)}`;
+  } else if (intent === "bulk-resend") {
+    outcome = await bulkResend({ targets, actor });
+    done = (count) => `Notifications queued for ${countEnquiries(count)}`;
+  } else {
+    outcome = await bulkDelete({ targets });
+    done = (count) => `Deleted ${countEnquiries(count)}`;
+  }
+
+  const failures = [...missing, ...outcome.failures];
+  const message = describeBulkOutcome({ ...outcome, failures }, done);
+
+  if (!outcome.succeeded && !outcome.unchanged) {
+    return Response.json(
+      { ok: false, error: message, failures },
+      { status: 400 },
+    );
+  }
+
+  return Response.json({ ok: true, message, failures });
+};
+
+export default function EnquiriesDashboard() {
+  const data = useLoaderData() as LoaderData;
+  const fetcher = useFetcher<ActionData>();
+  const appBridge = useAppBridge();
+  const [params, setParams] = useSearchParams();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [statusPopoverId, setStatusPopoverId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
+  const searchKey = params.toString();
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data) {
+      if (fetcher.data.ok) {
+        appBridge.toast.show(fetcher.data.message ?? "Enquiry updated");
+        setStatusPopoverId(null);
+      } else if (fetcher.data.error) {
+        appBridge.toast.show(fetcher.data.error, { isError: true });
+      }
+    }
+  }, [appBridge, fetcher.data, fetcher.state]);
+
+  useEffect(() => {
+    if (!statusPopoverId) {
+      return;
+    }
+
+    const handlePointerDown = (event: PointerEvent) => {
+      const target = event.target as HTMLElement | null;
+
+      if (target?.closest("[data-status-popover-root]")) {
+        return;
+      }
+
+      setStatusPopoverId(null);
+    };
+
+    window.addEventListener("pointerdown", handlePointerDown);
+
+    return () => {
+      window.removeEventListener("pointerdown", handlePointerDown);
+    };
+  }, [statusPopoverId]);
+
+  const statusByKey = new Map(
+    data.statuses.map((status) => [status.key, status]),
+  );
+  const hasResults = data.enquiries.length > 0;
+  const totalEnquiries = Object.values(data.statusCounts).reduce(
+    (acc, count) => acc + count,
+    0,
+  );
+  const totalMatching = data.totalMatching;
+  const pageSize = data.pageSize;
+  const page = data.page;
+  const totalPages = Math.max(1, Math.ceil(totalMatching / pageSize));
+  const hasPreviousPage = page > 1;
+  const hasNextPage = page < totalPages;
+  const rangeStart = totalMatching === 0 ? 0 : (page - 1) * pageSize + 1;
+  const rangeEnd =
+    totalMatching === 0
+      ? 0
+      : Math.min(totalMatching, rangeStart + pageSize - 1);
+
+  const pageIds = data.enquiries.map((enquiry) => enquiry.id);
+  const selectedOnPage = pageIds.filter((id) => selectedIds.includes(id));
+  const isPageSelected =
+    pageIds.length > 0 && selectedOnPage.length === pageIds.length;
+  const filterParams = new URLSearchParams(params);
+  filterParams.delete("page");
+  const bulkSelection: BulkSelection = selectAllMatching
+    ? { all: true, filters: filterParams.toString(), count: totalMatching }
+    : { all: false, ids: selectedOnPage, count: selectedOnPage.length };
+
+  const toggleSelected = (enquiryId: string, selected: boolean) => {
+    setSelectAllMatching(false);
+    setSelectedIds((current) =>
+      selected
+        ? [...current, enquiryId]
+        : current.filter((id) => id !== enquiryId),
+    );
+  };
+
+  const togglePageSelected = (selected: boolean) => {
+    setSelectAllMatching(false);
+    setSelectedIds(selected ? pageIds : []);
+  };
+
+  // Stable so the bulk bar's result effect does not rerun on each render.
+  const clearSelection = useCallback(() => {
+    setSelectAllMatching(false);
+    setSelectedIds([]);
+  }, []);
+
+  // A selection only ever covers what is on screen.
+  useEffect(() => {
+    clearSelection();
+  }, [clearSelection, searchKey]);
+
+  const changePage = (targetPage: number) => {
+    const safeTarget = Math.min(Math.max(targetPage, 1), totalPages);
+    const nextParams = new URLSearchParams(params);
+    if (safeTarget <= 1) {
+      nextParams.delete("page");
+    } else {
+      nextParams.set("page", String(safeTarget));
+    }
+    setExpandedId(null);
+    setStatusPopoverId(null);
+    setParams(nextParams, { replace: true });
+  };
+
+  const showSpam = (spamOnly: boolean) => {
+    const nextParams = new URLSearchParams(params);
+    nextParams.delete("page");
+    if (spamOnly) {
+      nextParams.set("spam", "1");
+    } else {
+      nextParams.delete("spam");
+    }
+    setExpandedId(null);
+    setStatusPopoverId(null);
+    setParams(nextParams);
+  };
+
+  const applyFilters = (nextParams: URLSearchParams) => {
+    nextParams.delete("page");
+    setExpandedId(null);
+    setStatusPopoverId(null);
+    setParams(nextParams);
+  };
+
+  const showAssignee = (filter: AssigneeFilter | null) => {
+    const nextParams = new URLSearchParams(params);
+    nextParams.delete("page");
+    if (filter) {
+      nextParams.set("assignee", filter);
+    } else {
+      nextParams.delete("assignee");
+    }
+    setExpandedId(null);
+    setStatusPopoverId(null);
+    setParams(nextParams);
+  };
+
+  const handlePreviousPage = () => {
+    if (hasPreviousPage) {
+      changePage(page - 1);
+    }
+  };
+
+  const handleNextPage = () => {
+    if (hasNextPage) {
+      changePage(page + 1);
+    }
+  };
+
+  const emailSummary = Object.entries(EMAIL_STATE_LABELS).map(
+    ([state, label]) => {
+      const count = data.enquiries.filter(
+        (enquiry) => enquiry.emailNotificationState === state,
+      ).length;
+      return { state, label, count };
+    },
+  );
+
+  const metricCards = [
+    {
+      id: "TOTAL",
+      label: "Total enquiries",
+      value: totalEnquiries,
+    },
+    ...data.statuses.map((status) => ({
+      id: `status-${status.key}`,
+      label: status.label,
+      value: data.statusCounts[status.key] ?? 0,
+    })),
+  ];
+
+  return (
+    <s-page heading="Enquiries dashboard">
+      <div className={styles.pageRoot}>
+        <s-section>
+          <div className={styles.metricsRow}>
+            {metricCards.map((metric) => (
+              <s-card
+                key={metric.id}
+                padding="base"
+                className={styles.metricCard}
+                background="subdued"
+              >
+                <s-stack gap="tight">
+                  <s-heading level={metric.id === "TOTAL" ? 3 : 4}>
+                    {metric.label}
+                  </s-heading>
+                  <span className={styles.metricValue}>{metric.value}</span>
+                  <s-text tone="subdued">{metric.helper}</s-text>
                 </s-stack>
               </s-card>
             ))}
           </div>
         </s-section>
 
-        {/* <s-card padding="base" className={styles.filterCard}>
-          <s-heading level={3}>Filter enquiries</s-heading>
-          <form method="get" className={styles.filterForm}>
-            <div className={styles.filterField}>
-              <label htmlFor="status-select">Status</label>
-              <select
-                id="status-select"
-                name="status"
-                defaultValue={filterStatus}
-              >
-                <option value="">All statuses</option>
-                {STATUS_OPTIONS.map((option) => (
-                  <option key={option.value} value={option.value}>
-                    {option.label}
-                  </option>
-                ))}
-              </select>
-            </div>
-            <div className={styles.filterField}>
-              <label htmlFor="search-input">Search</label>
-              <input
-                id="search-input"
-                type="search"
-                name="q"
-                placeholder="Name, email, product, message..."
-                defaultValue={filterQuery}
-              />
-            </div>
-            <div className={styles.filterActions}>
-              <s-button type="submit" variant="primary">
-                Apply
-              </s-button>
-              <s-button
-                type="button"
-                variant="tertiary"
-                onClick={() => setParams({})}
-              >
-                Clear
-              </s-button>
-            </div>
-          </form>
-        </s-card> */}
+        <FilterPanel
+          statuses={data.statuses}
+          requestTypes={data.requestTypes}
+          onApply={applyFilters}
+        />
+
+        {data.canSaveViews ? (
+          <SaveViewForm
+            fetcher={fetcher}
+            maxNameLength={data.maxViewNameLength}
+          />
+        ) : null}
 
         {/* <s-card padding="base">
           <s-heading level={3}>Email delivery summary</s-heading>
@@ -540,12 +1642,113 @@ export default function EnquiriesDashboard() {
           </div>
         </s-card> */}
 
+        <s-stack direction="inline" gap="small-100">
+          <s-button
+            type="button"
+            variant={data.spamOnly ? "secondary" : "primary"}
+            onClick={() => showSpam(false)}
+          >
+            Inbox
+          </s-button>
+          <s-button
+            type="button"
+            variant={data.spamOnly ? "primary" : "secondary"}
+            onClick={() => showSpam(true)}
+          >
+            Spam ({data.spamCount})
+          </s-button>
+        </s-stack>
+
+        <div className={styles.assigneeBar}>
+          <s-stack direction="inline" gap="small-100">
+            <s-button
+              type="button"
+              variant={data.assigneeFilter ? "secondary" : "primary"}
+              onClick={() => showAssignee(null)}
+            >
+              Everyone
+            </s-button>
+            <s-button
+              type="button"
+              variant={data.assigneeFilter === "mine" ? "primary" : "secondary"}
+              onClick={() => showAssignee("mine")}
+              {...(data.currentStaffId ? {} : { disabled: true })}
+            >
+              Mine
+            </s-button>
+            <s-button
+              type="button"
+              variant={
+                data.assigneeFilter === "unassigned" ? "primary" : "secondary"
+              }
+              onClick={() => showAssignee("unassigned")}
+            >
+              Unassigned
+            </s-button>
+          </s-stack>
+          <label className={styles.autoAssignToggle}>
+            <input
+              type="checkbox"
+              checked={data.autoAssign}
+              onChange={(event) =>
+                fetcher.submit(
+                  {
+                    intent: "update-assignment-settings",
+                    autoAssign: event.currentTarget.checked ? "on" : "",
+                  },
+                  { method: "post" },
+                )
+              }
+            />
+            Assign new enquiries to staff in turn
+          </label>
+        </div>
+
+        <ExportForm disabled={data.searchTruncated} />
+
+        {data.searchTruncated ? (
+          <s-text tone="caution">
+            The search matched too many enquiries, so only the closest matches
+            are listed. Narrow it to export or act on all of them.
+          </s-text>
+        ) : null}
+
+        {bulkSelection.count > 0 ? (
+          <BulkActionBar
+            selection={bulkSelection}
+            canSelectAllMatching={
+              isPageSelected &&
+              !selectAllMatching &&
+              !data.searchTruncated &&
+              totalMatching > pageIds.length
+            }
+            totalMatching={totalMatching}
+            onSelectAllMatching={() => setSelectAllMatching(true)}
+            onClear={clearSelection}
+            statuses={data.statuses}
+            customerEmailStatuses={data.customerEmailStatuses}
+            staff={data.staff}
+          />
+        ) : null}
+
         <s-divider />
         <section>
           {hasResults ? (
             <>
               <div className={styles.tableHeader}>
-                <span>Contact</span>
+                <span>
+                  <label className={styles.selectToggle}>
+                    <input
+                      type="checkbox"
+                      aria-label="Select all enquiries on this page"
+                      checked={isPageSelected}
+                      onChange={(event) =>
+                        togglePageSelected(event.currentTarget.checked)
+                      }
+                    />
+                    Contact
+                  </label>
+                </span>
                 <span>Status</span>
                 <span>Actions</span>
               </div>
@@ -565,17 +1768,54 @@ export default function EnquiriesDashboard() {
                       <div className={styles.row}>
                         <div className={styles.rowContent}>
                           <div className={styles.rowTop}>
-                            <div>
-                              <s-heading level={4}>{enquiry.name}</s-heading>
-                              <div className={styles.rowMeta}>
-                                <span>{enquiry.email}</span>
+                            <div className={styles.rowIdentity}>
+                              <input
+                                type="checkbox"
+                                aria-label={`Select ${enquiry.name}`}
+                                checked={
+                                  selectAllMatching ||
+                                  selectedIds.includes(enquiry.id)
+                                }
+                                onChange={(event) =>
+                                  toggleSelected(
+                                    enquiry.id,
+                                    event.currentTarget.checked,
+                                  )
+                                }
+                              />
+                              <div>
+                                <s-heading level={4}>{enquiry.name}</s-heading>
+                                <div className={styles.rowMeta}>
+                                  <span>{enquiry.email}</span>
+                                </div>
                               </div>
                             </div>
                             <div className={styles.rowBadges}>
+                              {enquiry.isSpam ? (
+                                <s-badge tone="critical">Spam</s-badge>
+                              ) : null}
+                              {enquiry.customerEmailBounce ? (
+                                <s-badge tone="critical">Email bounced</s-badge>
+                              ) : null}
+                              <s-badge>{enquiry.requestTypeLabel}</s-badge>
+                              {enquiry.assigneeName ? (
+                                <s-badge>{enquiry.assigneeName}</s-badge>
+                              ) : null}
+                              {enquiry.comments.length ? (
+                                <s-badge tone="info">
+                                  {enquiry.comments.length}{" "}
+                                  {enquiry.comments.length === 1
+                                    ? "comment"
+                                    : "comments"}
+                                </s-badge>
+                              ) : null}
                               <s-badge
-                                tone={STATUS_TONE[enquiry.status] ?? "info"}
+                                tone={
+                                  statusByKey.get(enquiry.status)?.tone ??
+                                  "info"
+                                }
                               >
-                                {STATUS_MAP.get(enquiry.status) ??
+                                {statusByKey.get(enquiry.status)?.label ??
                                   enquiry.status}
                               </s-badge>
                             </div>
@@ -603,6 +1843,11 @@ export default function EnquiriesDashboard() {
                                 <StatusForm
                                   fetcher={fetcher}
                                   enquiry={enquiry}
+                                  statuses={data.statuses}
+                                  transitions={data.transitions}
+                                  customerEmailStatuses={
+                                    data.customerEmailStatuses
+                                  }
                                   layout="compact"
                                 />
                               </div>
@@ -642,11 +1887,14 @@ export default function EnquiriesDashboard() {
                                 Received: {formatDateTime(enquiry.createdAt)} ·
                                 Updated:{" "}
                                 {formatDateTime(enquiry.statusUpdatedAt)}
+                                {enquiry.locale
+                                  ? ` · Locale: ${enquiry.locale}`
+                                  : ""}
                               </s-text>
                             </div>
                             <div className={styles.rowSummary}>
                               <s-text tone="subdued">
-                                Request type: {enquiry.requestType} · Worked
+                                Request type: {enquiry.requestTypeLabel} · Worked
                                 with us before:{" "}
                                 {formatWorkedWith(enquiry.workedWithBefore)}
                               </s-text>
@@ -674,6 +1922,78 @@ export default function EnquiriesDashboard() {
                                 SKU / ID: {enquiry.productReference ?? "—"}
                               </s-text>
                             </div>
+                            {hasDecorationDetails(enquiry) ? (
+                              <div className={styles.detailGrid}>
+                                <s-heading>Decoration</s-heading>
+                                <s-text color="subdued">
+                                  Colour: {enquiry.productColour ?? "—"} ·
+                                  Print position:{" "}
+                                  {enquiry.printPosition ?? "—"} · Print
+                                  colours: {enquiry.printColours ?? "—"}
+                                </s-text>
+                                <s-text color="subdued">
+                                  Pantone: {enquiry.pantoneReference ?? "—"}
+                                </s-text>
+                                {enquiry.artworkNotes ? (
+                                  <s-text>
+                                    Artwork notes: {enquiry.artworkNotes}
+                                  </s-text>
+                                ) : null}
+                              </div>
+                            ) : null}
+                            {enquiry.isSpam ? (
+                              <div className={styles.detailGrid}>
+                                <s-heading>
+                                  Flagged as spam (score {enquiry.spamScore})
+                                </s-heading>
+                                {enquiry.spamReasons.map((reason) => (
+                                  <s-text key={reason} color="subdued">
+                                    {reason}
+                                  </s-text>
+                                ))}
+                                <fetcher.Form method="post">
+                                  <input
+                                    type="hidden"
+                                    name="intent"
+                                    value="release-spam"
+                                  />
+                                  <input
+                                    type="hidden"
+                                    name="enquiryId"
+                                    value={enquiry.id}
+                                  />
+                                  <s-button type="submit" variant="secondary">
+                                    Not spam – release and notify
+                                  </s-button>
+                                </fetcher.Form>
+                              </div>
+                            ) : null}
+                            {enquiry.customFields.length > 0 ? (
+                              <div className={styles.detailGrid}>
+                                <s-heading>Additional information</s-heading>
+                                {enquiry.customFields.map((answer) => (
+                                  <s-text key={answer.key}>
+                                    {answer.label}: {answer.value}
+                                  </s-text>
+                                ))}
+                              </div>
+                            ) : null}
+                            {enquiry.attachments.length > 0 ? (
+                              <div>
+                                <s-heading>
+                                  Artwork ({enquiry.attachments.length})
+                                </s-heading>
+                                <div className={styles.attachmentList}>
+                                  {enquiry.attachments.map((attachment) => (
+                                    <AttachmentPreview
+                                      key={attachment.id}
+                                      enquiryId={enquiry.id}
+                                      attachment={attachment}
+                                    />
+                                  ))}
+                                </div>
+                              </div>
+                            ) : null}
                             <div className={styles.detailBadges}>
                               <s-badge
                                 tone={
@@ -696,11 +2016,41 @@ export default function EnquiriesDashboard() {
                                   Last error: {enquiry.lastEmailError}
                                 </s-text>
                               ) : null}
+                              {enquiry.customerEmailBounce ? (
+                                <s-text tone="critical">
+                                  {enquiry.email} bounced on{" "}
+                                  {formatDateTime(enquiry.customerEmailBounce.at)}
+                                  {enquiry.customerEmailBounce.reason
+                                    ? `: ${enquiry.customerEmailBounce.reason}`
+                                    : ""}
+                                </s-text>
+                              ) : null}
                             </div>
+                            <AssigneeForm
+                              fetcher={fetcher}
+                              enquiry={enquiry}
+                              staff={data.staff}
+                            />
+                            {!enquiry.isSpam ? (
+                              <ResendForm fetcher={fetcher} enquiry={enquiry} />
+                            ) : null}
                             <div>
                               <s-heading level={4}>Email history</s-heading>
                               <EmailLog logs={enquiry.emailLogs} />
                             </div>
+                            <div>
+                              <s-heading>Comments</s-heading>
+                              <CommentThread
+                                enquiry={enquiry}
+                                staff={data.staff}
+                                canComment={data.canComment}
+                                maxLength={data.maxCommentLength}
+                              />
+                            </div>
+                            <div>
+                              <s-heading>Timeline</s-heading>
+                              <EventTimeline events={enquiry.events} />
+                            </div>
                           </div>
                         </>
                       )}
@@ -749,20 +2099,131 @@ export default function EnquiriesDashboard() {
   );
 }
 
+function AssigneeForm({
+  enquiry,
+  fetcher,
+  staff,
+}: {
+  enquiry: LoaderData["enquiries"][number];
+  fetcher: ReturnType<typeof useFetcher<ActionData>>;
+  staff: LoaderData["staff"];
+}) {
+  const isSubmitting = fetcher.state !== "idle";
+  // Keep a former assignee selectable after their session has expired.
+  const hasCurrentAssignee =
+    !enquiry.assigneeId ||
+    staff.some((member) => member.id === enquiry.assigneeId);
+
+  return (
+    <fetcher.Form method="post" className={styles.assigneeForm}>
+      <input type="hidden" name="intent" value="assign" />
+      <input type="hidden" name="enquiryId" value={enquiry.id} />
+      <label className={styles.statusFormField}>
+        <span>Assignee</span>
+        <select
+          key={enquiry.assigneeId ?? ""}
+          name="assigneeId"
+          defaultValue={enquiry.assigneeId ?? ""}
+        >
+          <option value="">Unassigned</option>
+          {!hasCurrentAssignee && enquiry.assigneeId ? (
+            <option value={enquiry.assigneeId}>
+              {enquiry.assigneeName ?? "Former staff member"}
+            </option>
+          ) : null}
+          {staff.map((member) => (
+            <option key={member.id} value={member.id}>
+              {member.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div>
+        <s-button
+          type="submit"
+          variant="secondary"
+          {...(isSubmitting ? { loading: true } : {})}
+        >
+          Assign
+        </s-button>
+      </div>
+    </fetcher.Form>
+  );
+}
+
 function StatusForm({
   enquiry,
   fetcher,
+  statuses,
+  transitions,
+  customerEmailStatuses,
   layout = "default",
 }: {
   enquiry: LoaderData["enquiries"][number];
   fetcher: ReturnType<typeof useFetcher<ActionData>>;
+  statuses: LoaderData["statuses"];
+  transitions: LoaderData["transitions"];
+  customerEmailStatuses: LoaderData["customerEmailStatuses"];
   layout?: "default" | "compact";
 }) {
   const isSubmitting = fetcher.state !== "idle";
+  const previewFetcher = useFetcher<ActionData>();
+  const formRef = useRef<HTMLFormElement>(null);
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [selectedStatus, setSelectedStatus] = useState(enquiry.status);
+  const outgoing = new Map(
+    transitions
+      .filter((transition) => transition.fromKey === enquiry.status)
+      .map((transition) => [transition.toKey, transition]),
+  );
+  // The current status stays listed so notes can be edited without moving.
+  const options = statuses.filter(
+    (status) => status.key === enquiry.status || outgoing.has(status.key),
+  );
+  const needsReason = Boolean(outgoing.get(selectedStatus)?.requiresReason);
+  const emailsCustomer =
+    selectedStatus !== enquiry.status &&
+    !enquiry.isSpam &&
+    customerEmailStatuses.includes(selectedStatus);
+  const preview = previewFetcher.data;
+  const isPreviewLoading = previewFetcher.state !== "idle";
+
+  // Show the customer email before saving a status that sends one.
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    if (!emailsCustomer) {
+      return;
+    }
+
+    event.preventDefault();
+    previewFetcher.submit(
+      {
+        intent: "preview-status-email",
+        enquiryId: enquiry.id,
+        status: selectedStatus,
+      },
+      { method: "post" },
+    );
+    dialogRef.current?.showModal();
+  };
+
+  const submitStatus = (notifyCustomer: boolean) => {
+    if (!formRef.current) {
+      return;
+    }
+
+    const formData = new FormData(formRef.current);
+    if (notifyCustomer) {
+      formData.set("notifyCustomer", "on");
+    }
+    dialogRef.current?.close();
+    fetcher.submit(formData, { method: "post" });
+  };
 
   return (
     <fetcher.Form
+      ref={formRef}
       method="post"
+      onSubmit={handleSubmit}
       className={
         layout === "compact" ? styles.statusFormCompact : styles.statusForm
       }
@@ -773,16 +2234,31 @@ function StatusForm({
         <span>Workflow status</span>
         <select
           name="status"
-          defaultValue={enquiry.status}
+          value={selectedStatus}
+          onChange={(event) => setSelectedStatus(event.currentTarget.value)}
           disabled={isSubmitting}
         >
-          {STATUS_OPTIONS.map((option) => (
-            <option key={option.value} value={option.value}>
-              {option.label}
+          {options.some((status) => status.key === enquiry.status) ? null : (
+            <option value={enquiry.status}>{enquiry.status}</option>
+          )}
+          {options.map((status) => (
+            <option key={status.key} value={status.key}>
+              {status.label}
             </option>
           ))}
         </select>
       </div>
+      {needsReason ? (
+        <div className={styles.statusFormField}>
+          <span>Reason for this change</span>
+          <input
+            name="reason"
+            required
+            disabled={isSubmitting}
+            placeholder="Shown on the timeline"
+          />
+        </div>
+      ) : null}
       <div className={styles.statusFormField}>
         <span>Internal notes</span>
         <textarea
@@ -799,10 +2275,128 @@ function StatusForm({
       >
         Update status
       </s-button>
+      <dialog ref={dialogRef} className={styles.statusDialog}>
+        <s-stack gap="base">
+          <s-heading>Email the customer?</s-heading>
+          {isPreviewLoading ? (
+            <s-text color="subdued">Loading the email…</s-text>
+          ) : preview && !preview.ok ? (
+            <s-text tone="critical">{preview.error}</s-text>
+          ) : preview?.statusEmail ? (
+            <>
+              <s-text color="subdued">
+                To: {preview.statusEmail.to} · Subject:{" "}
+                {preview.statusEmail.subject}
+              </s-text>
+              <iframe
+                title="Status email preview"
+                className={styles.statusDialogPreview}
+                srcDoc={preview.statusEmail.html}
+                sandbox=""
+              />
+            </>
+          ) : (
+            <s-text color="subdued">
+              No customer email is set up for this status.
+            </s-text>
+          )}
+          <s-stack direction="inline" gap="small-100">
+            <s-button
+              type="button"
+              variant="primary"
+              onClick={() => submitStatus(true)}
+              {...(isPreviewLoading || !preview?.statusEmail
+                ? { disabled: true }
+                : {})}
+            >
+              Update and send email
+            </s-button>
+            <s-button
+              type="button"
+              variant="secondary"
+              onClick={() => submitStatus(false)}
+            >
+              Update without emailing
+            </s-button>
+            <s-button
+              type="button"
+              variant="tertiary"
+              onClick={() => dialogRef.current?.close()}
+            >
+              Cancel
+            </s-button>
+          </s-stack>
+        </s-stack>
+      </dialog>
     </fetcher.Form>
   );
 }
 
+function ResendForm({
+  enquiry,
+  fetcher,
+}: {
+  enquiry: LoaderData["enquiries"][number];
+  fetcher: ReturnType<typeof useFetcher<ActionData>>;
+}) {
+  const isSubmitting = fetcher.state !== "idle";
+  const hasFailures =
+    enquiry.emailNotificationState === "FAILED" ||
+    enquiry.emailNotificationState === "PARTIAL";
+
+  return (
+    <div className={styles.resendForms}>
+      <s-stack direction="inline" gap="small-100">
+        {hasFailures ? (
+          <fetcher.Form method="post">
+            <input type="hidden" name="intent" value="resend-failed" />
+            <input type="hidden" name="enquiryId" value={enquiry.id} />
+            <s-button
+              type="submit"
+              variant="primary"
+              {...(isSubmitting ? { disabled: true } : {})}
+            >
+              Resend to failed recipients
+            </s-button>
+          </fetcher.Form>
+        ) : null}
+        <fetcher.Form method="post">
+          <input type="hidden" name="intent" value="resend-all" />
+          <input type="hidden" name="enquiryId" value={enquiry.id} />
+          <s-button
+            type="submit"
+            variant="secondary"
+            {...(isSubmitting ? { disabled: true } : {})}
+          >
+            Resend to all recipients
+          </s-button>
+        </fetcher.Form>
+      </s-stack>
+      <fetcher.Form method="post" className={styles.resendToForm}>
+        <input type="hidden" name="intent" value="resend-to" />
+        <input type="hidden" name="enquiryId" value={enquiry.id} />
+        <div className={styles.statusFormField}>
+          <span>Send a copy to</span>
+          <input
+            type="email"
+            name="recipient"
+            required
+            placeholder="colleague@example.com"
+            disabled={isSubmitting}
+          />
+        </div>
+        <s-button
+          type="submit"
+          variant="secondary"
+          {...(isSubmitting ? { loading: true } : {})}
+        >
+          Send copy
+        </s-button>
+      </fetcher.Form>
+    </div>
+  );
+}
+
 function EmailLog({
   logs,
 }: {
@@ -825,10 +2419,24 @@ function EmailLog({
               {RECIPIENT_LABELS[log.recipientType] ?? log.recipientType} ·{" "}
               {formatDateTime(log.createdAt)}
             </s-text>
-            <s-badge tone={log.status === "SUCCESS" ? "success" : "critical"}>
-              {log.status === "SUCCESS" ? "Delivered" : "Failed"}
-            </s-badge>
+            {log.status !== "SUCCESS" ? (
+              <s-badge tone="critical">Failed</s-badge>
+            ) : log.deliveryStatus ? (
+              <s-badge tone={DELIVERY_TONE[log.deliveryStatus] ?? "info"}>
+                {DELIVERY_LABELS[log.deliveryStatus] ?? log.deliveryStatus}
+              </s-badge>
+            ) : (
+              <s-badge tone="info">Sent</s-badge>
+            )}
             <s-text>Recipient: {log.recipient}</s-text>
+            {log.deliveryDetail ? (
+              <s-text color="subdued">
+                {log.deliveryDetail}
+                {log.deliveryUpdatedAt
+                  ? ` · ${formatDateTime(log.deliveryUpdatedAt)}`
+                  : ""}
+              </s-text>
+            ) : null}
             {log.errorMessage && (
               <s-text tone="critical">Error: {log.errorMessage}</s-text>
             )}
@@ -843,3 +2451,932 @@ function EmailLog({
     </ul>
   );
 }
+
+function CommentThread({
+  enquiry,
+  staff,
+  canComment,
+  maxLength,
+}: {
+  enquiry: LoaderData["enquiries"][number];
+  staff: LoaderData["staff"];
+  canComment: boolean;
+  maxLength: number;
+}) {
+  const fetcher = useFetcher<ActionData>();
+  const appBridge = useAppBridge();
+  const formRef = useRef<HTMLFormElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const isSubmitting = fetcher.state !== "idle";
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data) {
+      if (fetcher.data.ok) {
+        appBridge.toast.show(fetcher.data.message ?? "Comment saved");
+        formRef.current?.reset();
+        setEditingId(null);
+      } else if (fetcher.data.error) {
+        appBridge.toast.show(fetcher.data.error, { isError: true });
+      }
+    }
+  }, [appBridge, fetcher.data, fetcher.state]);
+
+  return (
+    <s-stack gap="base">
+      {enquiry.comments.length ? (
+        <ul className={styles.commentList}>
+          {enquiry.comments.map((comment) => (
+            <li
+              key={comment.id}
+              className={
+                comment.fromCustomer
+                  ? `${styles.comment} ${styles.customerReply}`
+                  : styles.comment
+              }
+            >
+              <s-text color="subdued">
+                {comment.author} · {formatDateTime(comment.createdAt)}
+                {comment.fromCustomer ? " · replied by email" : ""}
+                {comment.edited ? " · edited" : ""}
+              </s-text>
+              {editingId === comment.id ? (
+                <fetcher.Form method="post" className={styles.commentForm}>
+                  <input type="hidden" name="intent" value="edit-comment" />
+                  <input type="hidden" name="commentId" value={comment.id} />
+                  <textarea
+                    name="body"
+                    defaultValue={comment.body}
+                    rows={3}
+                    maxLength={maxLength}
+                    required
+                  />
+                  <s-stack direction="inline" gap="small-100">
+                    <s-button
+                      type="submit"
+                      variant="primary"
+                      {...(isSubmitting ? { loading: true } : {})}
+                    >
+                      Save
+                    </s-button>
+                    <s-button
+                      type="button"
+                      variant="tertiary"
+                      onClick={() => setEditingId(null)}
+                    >
+                      Cancel
+                    </s-button>
+                  </s-stack>
+                </fetcher.Form>
+              ) : (
+                <p className={styles.commentBody}>{comment.body}</p>
+              )}
+              {comment.attachments.length ? (
+                <div className={styles.attachmentList}>
+                  {comment.attachments.map((attachment) => (
+                    <AttachmentPreview
+                      key={attachment.id}
+                      enquiryId={enquiry.id}
+                      attachment={attachment}
+                    />
+                  ))}
+                </div>
+              ) : null}
+              {comment.isOwn && editingId !== comment.id ? (
+                <s-stack direction="inline" gap="small-100">
+                  <s-button
+                    type="button"
+                    variant="tertiary"
+                    onClick={() => setEditingId(comment.id)}
+                  >
+                    Edit
+                  </s-button>
+                  <fetcher.Form method="post">
+                    <input type="hidden" name="intent" value="delete-comment" />
+                    <input type="hidden" name="commentId" value={comment.id} />
+                    <s-button type="submit" variant="tertiary" tone="critical">
+                      Delete
+                    </s-button>
+                  </fetcher.Form>
+                </s-stack>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <s-text color="subdued">No comments yet.</s-text>
+      )}
+      {canComment ? (
+        <fetcher.Form
+          ref={formRef}
+          method="post"
+          className={styles.commentForm}
+        >
+          <input type="hidden" name="intent" value="add-comment" />
+          <input type="hidden" name="enquiryId" value={enquiry.id} />
+          <textarea
+            name="body"
+            rows={3}
+            maxLength={maxLength}
+            placeholder="Add a comment for the team"
+            aria-label="New comment"
+            required
+          />
+          {staff.length ? (
+            <s-text color="subdued">
+              Mention a colleague to email them:{" "}
+              {staff
+                .map((member) => `@${member.handle} (${member.name})`)
+                .join(", ")}
+            </s-text>
+          ) : null}
+          <div>
+            <s-button
+              type="submit"
+              variant="secondary"
+              {...(isSubmitting ? { loading: true } : {})}
+            >
+              Add comment
+            </s-button>
+          </div>
+        </fetcher.Form>
+      ) : (
+        <s-text color="subdued">
+          Sign in with a staff account to add comments.
+        </s-text>
+      )}
+    </s-stack>
+  );
+}
+
+// URL params set by the filter panel; see parseEnquiryFilters.
+const FILTER_PARAMS = [
+  "q",
+  "status",
+  "from",
+  "to",
+  "type",
+  "email",
+  "product",
+  "attachments",
+  "worked",
+  "deadlineFrom",
+  "deadlineTo",
+  "sort",
+];
+
+function SaveViewForm({
+  fetcher,
+  maxNameLength,
+}: {
+  fetcher: ReturnType<typeof useFetcher<ActionData>>;
+  maxNameLength: number;
+}) {
+  const [params] = useSearchParams();
+  const isSubmitting =
+    fetcher.state !== "idle" && fetcher.formData?.get("intent") === "save-view";
+
+  return (
+    <fetcher.Form method="post" className={styles.exportForm}>
+      <input type="hidden" name="intent" value="save-view" />
+      {/* The server keeps only the filter and sort params. */}
+      <input type="hidden" name="query" value={params.toString()} />
+      <label>
+        Save these filters as
+        <input
+          name="name"
+          required
+          maxLength={maxNameLength}
+          placeholder="e.g. My open quotes"
+        />
+      </label>
+      <label className={styles.autoAssignToggle}>
+        <input type="checkbox" name="shared" />
+        Share with everyone in the shop
+      </label>
+      <s-button
+        type="submit"
+        variant="secondary"
+        {...(isSubmitting ? { loading: true } : {})}
+      >
+        Save view
+      </s-button>
+    </fetcher.Form>
+  );
+}
+
+// Dashboard filters carried over into the export.
+const EXPORT_FILTER_PARAMS = ["assignee", "spam", ...FILTER_PARAMS];
+
+function FilterPanel({
+  statuses,
+  requestTypes,
+  onApply,
+}: {
+  statuses: LoaderData["statuses"];
+  requestTypes: LoaderData["requestTypes"];
+  onApply: (nextParams: URLSearchParams) => void;
+}) {
+  const [params] = useSearchParams();
+  const activeCount = FILTER_PARAMS.filter((name) => params.get(name)).length;
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+    const nextParams = new URLSearchParams(params);
+    for (const name of FILTER_PARAMS) {
+      const value = formData.get(name);
+      if (typeof value === "string" && value.trim()) {
+        nextParams.set(name, value.trim());
+      } else {
+        nextParams.delete(name);
+      }
+    }
+    onApply(nextParams);
+  };
+
+  const handleClear = () => {
+    const nextParams = new URLSearchParams(params);
+    for (const name of FILTER_PARAMS) {
+      nextParams.delete(name);
+    }
+    onApply(nextParams);
+  };
+
+  return (
+    <s-stack padding="base" background="subdued" gap="base">
+      <s-heading>
+        {activeCount ? `Filters (${activeCount} active)` : "Filters"}
+      </s-heading>
+      {/* Keyed so the fields reset when the URL changes, e.g. on back. */}
+      <form
+        key={params.toString()}
+        className={styles.filterForm}
+        onSubmit={handleSubmit}
+      >
+        <div className={styles.filterField}>
+          <label htmlFor="filter-search">Search</label>
+          <input
+            id="filter-search"
+            type="search"
+            name="q"
+            placeholder='e.g. mugs email:jane "spot colour"'
+            defaultValue={params.get("q") ?? ""}
+          />
+        </div>
+        <div className={styles.filterField}>
+          <label htmlFor="filter-status">Status</label>
+          <select
+            id="filter-status"
+            name="status"
+            defaultValue={params.get("status") ?? ""}
+          >
+            <option value="">All statuses</option>
+            {statuses.map((status) => (
+              <option key={status.key} value={status.key}>
+                {status.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className={styles.filterField}>
+          <label htmlFor="filter-type">Request type</label>
+          <select
+            id="filter-type"
+            name="type"
+            defaultValue={params.get("type") ?? ""}
+          >
+            <option value="">All request types</option>
+            {requestTypes.map((type) => (
+              <option key={type.value} value={type.value}>
+                {type.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className={styles.filterField}>
+          <label htmlFor="filter-email">Email state</label>
+          <select
+            id="filter-email"
+            name="email"
+            defaultValue={params.get("email") ?? ""}
+          >
+            <option value="">Any email state</option>
+            {Object.entries(EMAIL_STATE_LABELS).map(([state, label]) => (
+              <option key={state} value={state}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className={styles.filterField}>
+          <label htmlFor="filter-product">Product</label>
+          <input
+            id="filter-product"
+            name="product"
+            placeholder="Title or reference"
+            defaultValue={params.get("product") ?? ""}
+          />
+        </div>
+        <div className={styles.filterField}>
+          <label htmlFor="filter-attachments">Artwork</label>
+          <select
+            id="filter-attachments"
+            name="attachments"
+            defaultValue={params.get("attachments") ?? ""}
+          >
+            <option value="">With or without files</option>
+            <option value="yes">Has attachments</option>
+            <option value="no">No attachments</option>
+          </select>
+        </div>
+        <div className={styles.filterField}>
+          <label htmlFor="filter-worked">Worked with us before</label>
+          <select
+            id="filter-worked"
+            name="worked"
+            defaultValue={params.get("worked") ?? ""}
+          >
+            <option value="">Any answer</option>
+            <option value="yes">Yes</option>
+            <option value="no">No</option>
+            <option value="not_sure">Not sure</option>
+          </select>
+        </div>
+        <div className={styles.filterField}>
+          <label htmlFor="filter-from">Received from</label>
+          <input
+            id="filter-from"
+            type="date"
+            name="from"
+            defaultValue={params.get("from") ?? ""}
+          />
+        </div>
+        <div className={styles.filterField}>
+          <label htmlFor="filter-to">Received to</label>
+          <input
+            id="filter-to"
+            type="date"
+            name="to"
+            defaultValue={params.get("to") ?? ""}
+          />
+        </div>
+        <div className={styles.filterField}>
+          <label htmlFor="filter-deadline-from">Deadline from</label>
+          <input
+            id="filter-deadline-from"
+            type="date"
+            name="deadlineFrom"
+            defaultValue={params.get("deadlineFrom") ?? ""}
+          />
+        </div>
+        <div className={styles.filterField}>
+          <label htmlFor="filter-deadline-to">Deadline to</label>
+          <input
+            id="filter-deadline-to"
+            type="date"
+            name="deadlineTo"
+            defaultValue={params.get("deadlineTo") ?? ""}
+          />
+        </div>
+        <div className={styles.filterField}>
+          <label htmlFor="filter-sort">Sort</label>
+          <select
+            id="filter-sort"
+            name="sort"
+            defaultValue={params.get("sort") ?? ""}
+          >
+            <option value="">Newest first, or best match</option>
+            <option value="oldest">Oldest first</option>
+            <option value="deadline">Soonest deadline</option>
+          </select>
+        </div>
+        <div className={styles.filterActions}>
+          <s-button type="submit" variant="primary">
+            Apply
+          </s-button>
+          <s-button
+            type="button"
+            variant="tertiary"
+            onClick={handleClear}
+            {...(activeCount ? {} : { disabled: true })}
+          >
+            Clear
+          </s-button>
+        </div>
+      </form>
+    </s-stack>
+  );
+}
+
+// Saves an export response under the name the server gave it.
+const downloadExport = async (response: Response, fallbackName: string) => {
+  if (!response.ok) {
+    throw new Error(`Export failed (${response.status})`);
+  }
+  const filename =
+    /filename="([^"]+)"/.exec(
+      response.headers.get("Content-Disposition") ?? "",
+    )?.[1] ?? fallbackName;
+  const blob = await response.blob();
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(objectUrl);
+};
+
+function ExportForm({ disabled }: { disabled: boolean }) {
+  const appBridge = useAppBridge();
+  const [params] = useSearchParams();
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Fetched rather than linked so App Bridge adds the session token.
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+    const exportParams = new URLSearchParams();
+    for (const name of EXPORT_FILTER_PARAMS) {
+      const value = params.get(name);
+      if (value) {
+        exportParams.set(name, value);
+      }
+    }
+    const format = formData.get("format");
+    if (typeof format === "string" && format) {
+      exportParams.set("format", format);
+    }
+
+    setIsExporting(true);
+    try {
+      await downloadExport(
+        await fetch(`/app/enquiries/export?${exportParams}`),
+        `enquiries.${exportParams.get("format") ?? "csv"}`,
+      );
+    } catch (error) {
+      console.error("Unable to export enquiries", error);
+      appBridge.toast.show("Unable to export enquiries", { isError: true });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <form className={styles.exportForm} onSubmit={handleSubmit}>
+      <label>
+        Format
+        <select name="format" defaultValue="csv">
+          <option value="csv">CSV</option>
+          <option value="xlsx">Excel (XLSX)</option>
+        </select>
+      </label>
+      <s-button
+        type="submit"
+        variant="secondary"
+        disabled={disabled}
+        {...(isExporting ? { loading: true } : {})}
+      >
+        Export filtered enquiries
+      </s-button>
+    </form>
+  );
+}
+
+// Either the ticked rows, or every enquiry matching the dashboard filters.
+type BulkSelection =
+  | { all: true; filters: string; count: number }
+  | { all: false; ids: string[]; count: number };
+
+const BULK_ACTIONS = [
+  { value: "bulk-status", label: "Change status" },
+  { value: "bulk-assign", label: "Assign" },
+  { value: "bulk-resend", label: "Resend notifications" },
+  { value: "bulk-export", label: "Export" },
+  { value: "bulk-delete", label: "Delete" },
+] as const;
+type BulkActionIntent = (typeof BULK_ACTIONS)[number]["value"];
+
+function BulkSelectionFields({ selection }: { selection: BulkSelection }) {
+  if (selection.all) {
+    return (
+      <>
+        <input type="hidden" name="selection" value="all" />
+        <input type="hidden" name="filters" value={selection.filters} />
+      </>
+    );
+  }
+
+  return (
+    <>
+      {selection.ids.map((id) => (
+        <input key={id} type="hidden" name="enquiryId" value={id} />
+      ))}
+    </>
+  );
+}
+
+function BulkActionBar({
+  selection,
+  canSelectAllMatching,
+  totalMatching,
+  onSelectAllMatching,
+  onClear,
+  statuses,
+  customerEmailStatuses,
+  staff,
+}: {
+  selection: BulkSelection;
+  canSelectAllMatching: boolean;
+  totalMatching: number;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  statuses: LoaderData["statuses"];
+  customerEmailStatuses: LoaderData["customerEmailStatuses"];
+  staff: LoaderData["staff"];
+}) {
+  const fetcher = useFetcher<ActionData>();
+  const appBridge = useAppBridge();
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [action, setAction] = useState<BulkActionIntent>("bulk-status");
+  const [bulkStatus, setBulkStatus] = useState(statuses[0]?.key ?? "");
+  const emailsCustomers = customerEmailStatuses.includes(bulkStatus);
+  const [isExporting, setIsExporting] = useState(false);
+  const isSubmitting = fetcher.state !== "idle";
+  const countLabel = `${selection.count} ${
+    selection.count === 1 ? "enquiry" : "enquiries"
+  }`;
+
+  // Failures are listed in the message, so a partial run shows as an error.
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data) {
+      if (fetcher.data.ok) {
+        appBridge.toast.show(fetcher.data.message ?? "Enquiries updated", {
+          isError: Boolean(fetcher.data.failures?.length),
+        });
+        onClear();
+      } else if (fetcher.data.error) {
+        appBridge.toast.show(fetcher.data.error, { isError: true });
+      }
+    }
+  }, [appBridge, fetcher.data, fetcher.state, onClear]);
+
+  // Fetched rather than submitted so the file downloads in place.
+  const handleExport = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+
+    setIsExporting(true);
+    try {
+      await downloadExport(
+        await fetch("/app/enquiries/export", {
+          method: "POST",
+          body: formData,
+        }),
+        `enquiries.${formData.get("format") ?? "csv"}`,
+      );
+    } catch (error) {
+      console.error("Unable to export enquiries", error);
+      appBridge.toast.show("Unable to export enquiries", { isError: true });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <s-stack padding="base" background="subdued" gap="base">
+      <div className={styles.bulkSummary}>
+        <s-text>
+          {selection.all
+            ? `All ${countLabel} matching the filters are selected`
+            : `${countLabel} selected`}
+        </s-text>
+        {canSelectAllMatching ? (
+          <s-button
+            type="button"
+            variant="tertiary"
+            onClick={onSelectAllMatching}
+          >
+            Select all {totalMatching} matching
+          </s-button>
+        ) : null}
+        <s-button type="button" variant="tertiary" onClick={onClear}>
+          Clear selection
+        </s-button>
+      </div>
+      <div className={styles.bulkForm}>
+        <label>
+          Action
+          <select
+            value={action}
+            onChange={(event) =>
+              setAction(event.currentTarget.value as BulkActionIntent)
+            }
+            disabled={isSubmitting}
+          >
+            {BULK_ACTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {action === "bulk-status" ? (
+        <fetcher.Form method="post" className={styles.bulkForm}>
+          <input type="hidden" name="intent" value="bulk-status" />
+          <BulkSelectionFields selection={selection} />
+          <label>
+            New status
+            <select
+              name="status"
+              value={bulkStatus}
+              onChange={(event) => setBulkStatus(event.currentTarget.value)}
+            >
+              {statuses.map((status) => (
+                <option key={status.key} value={status.key}>
+                  {status.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Reason
+            <input name="reason" placeholder="Needed for some moves" />
+          </label>
+          <label className={styles.bulkNote}>
+            Internal notes
+            <textarea
+              name="statusNotes"
+              placeholder="Leave blank to keep each enquiry's notes"
+            />
+          </label>
+          {emailsCustomers ? (
+            <label>
+              <input type="checkbox" name="notifyCustomers" defaultChecked />
+              Email each customer this status update
+            </label>
+          ) : null}
+          <s-text color="subdued">
+            {emailsCustomers
+              ? "Unticked, customers are not emailed. Spam and bounced addresses are never emailed."
+              : "This status has no customer email, so customers are not notified."}
+          </s-text>
+          <s-button
+            type="submit"
+            variant="primary"
+            {...(isSubmitting ? { loading: true } : {})}
+          >
+            Update {countLabel}
+          </s-button>
+        </fetcher.Form>
+      ) : null}
+      {action === "bulk-assign" ? (
+        <fetcher.Form method="post" className={styles.bulkForm}>
+          <input type="hidden" name="intent" value="bulk-assign" />
+          <BulkSelectionFields selection={selection} />
+          <label>
+            Assignee
+            <select name="assigneeId" defaultValue="">
+              <option value="">Unassigned</option>
+              {staff.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {member.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <s-button
+            type="submit"
+            variant="primary"
+            {...(isSubmitting ? { loading: true } : {})}
+          >
+            Assign {countLabel}
+          </s-button>
+        </fetcher.Form>
+      ) : null}
+      {action === "bulk-resend" ? (
+        <fetcher.Form method="post" className={styles.bulkForm}>
+          <input type="hidden" name="intent" value="bulk-resend" />
+          <BulkSelectionFields selection={selection} />
+          <s-text color="subdued">
+            Emails every recipient of each enquiry again. Spam is skipped.
+          </s-text>
+          <s-button
+            type="submit"
+            variant="primary"
+            {...(isSubmitting ? { loading: true } : {})}
+          >
+            Resend for {countLabel}
+          </s-button>
+        </fetcher.Form>
+      ) : null}
+      {action === "bulk-export" ? (
+        <form className={styles.bulkForm} onSubmit={handleExport}>
+          <input type="hidden" name="intent" value="bulk-export" />
+          <BulkSelectionFields selection={selection} />
+          <label>
+            Format
+            <select name="format" defaultValue="csv">
+              <option value="csv">CSV</option>
+              <option value="xlsx">Excel (XLSX)</option>
+            </select>
+          </label>
+          <s-button
+            type="submit"
+            variant="primary"
+            {...(isExporting ? { loading: true } : {})}
+          >
+            Export {countLabel}
+          </s-button>
+        </form>
+      ) : null}
+      {action === "bulk-delete" ? (
+        <fetcher.Form
+          method="post"
+          className={styles.bulkForm}
+          onSubmit={() => dialogRef.current?.close()}
+        >
+          <input type="hidden" name="intent" value="bulk-delete" />
+          <BulkSelectionFields selection={selection} />
+          <s-text color="subdued">
+            Deletes the enquiries with their comments, files and email history.
+            This cannot be undone.
+          </s-text>
+          <s-button
+            type="button"
+            tone="critical"
+            onClick={() => dialogRef.current?.showModal()}
+            {...(isSubmitting ? { loading: true } : {})}
+          >
+            Delete {countLabel}
+          </s-button>
+          <dialog ref={dialogRef} className={styles.statusDialog}>
+            <s-stack gap="base">
+              <s-heading>Delete {countLabel}?</s-heading>
+              <s-text color="subdued">
+                The enquiries and everything attached to them are removed
+                permanently.
+              </s-text>
+              <s-stack direction="inline" gap="small-100">
+                <s-button type="submit" tone="critical" variant="primary">
+                  Delete permanently
+                </s-button>
+                <s-button
+                  type="button"
+                  variant="tertiary"
+                  onClick={() => dialogRef.current?.close()}
+                >
+                  Cancel
+                </s-button>
+              </s-stack>
+            </s-stack>
+          </dialog>
+        </fetcher.Form>
+      ) : null}
+    </s-stack>
+  );
+}
+
+function EventTimeline({
+  events,
+}: {
+  events: LoaderData["enquiries"][number]["events"];
+}) {
+  if (!events.length) {
+    return <s-text color="subdued">No activity recorded yet.</s-text>;
+  }
+
+  return (
+    <ol className={styles.timeline}>
+      {events.map((event) => (
+        <li key={event.id}>
+          <s-stack gap="small-100">
+            <s-text>{event.description}</s-text>
+            <s-text color="subdued">
+              {formatDateTime(event.createdAt)}
+              {event.actor ? ` · ${event.actor}` : ""}
+            </s-text>
+            {event.note ? (
+              <s-text>
+                <span className={styles.timelineNote}>{event.note}</span>
+              </s-text>
+            ) : null}
+          </s-stack>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function AttachmentPreview({
+  enquiryId,
+  attachment,
+}: {
+  enquiryId: string;
+  attachment: LoaderData["enquiries"][number]["attachments"][number];
+}) {
+  const appBridge = useAppBridge();
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const downloadUrl = `/app/enquiries/${encodeURIComponent(
+    enquiryId,
+  )}/attachments/${encodeURIComponent(attachment.id)}`;
+  const isImage = attachment.mimeType.startsWith("image/");
+  const isPdf = attachment.mimeType === "application/pdf";
+  const canPreview = isImage || isPdf;
+
+  useEffect(() => {
+    if (!canPreview) {
+      return;
+    }
+
+    // Fetch through App Bridge's authenticated fetch; a plain <img src> would
+    // not carry the session token required by the admin route.
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    fetch(`${downloadUrl}?disposition=inline`)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Preview request failed (${response.status})`);
+        }
+        return response.blob();
+      })
+      .then((blob) => {
+        if (cancelled) {
+          return;
+        }
+        objectUrl = URL.createObjectURL(blob);
+        setPreviewUrl(objectUrl);
+      })
+      .catch((error) => {
+        console.warn("Unable to load attachment preview", error);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [canPreview, downloadUrl]);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const response = await fetch(downloadUrl);
+      if (!response.ok) {
+        throw new Error(`Download failed (${response.status})`);
+      }
+      const blob = await response.blob();
+      const objectUrl = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = objectUrl;
+      link.download = attachment.fileName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(objectUrl);
+    } catch (error) {
+      console.error("Unable to download attachment", error);
+      appBridge.toast.show("Unable to download attachment", { isError: true });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className={styles.attachmentCard}>
+      {canPreview ? (
+        <div className={styles.attachmentThumb}>
+          {previewUrl && isImage ? (
+            <img src={previewUrl} alt={attachment.fileName} />
+          ) : null}
+          {previewUrl && isPdf ? (
+            <object
+              data={previewUrl}
+              type="application/pdf"
+              aria-label={attachment.fileName}
+            />
+          ) : null}
+        </div>
+      ) : null}
+      <div className={styles.attachmentMeta}>
+        <s-text>{attachment.fileName}</s-text>
+        <s-text color="subdued">
+          {attachment.mimeType} · {formatFileSize(attachment.size)}
+        </s-text>
+        <s-button
+          type="button"
+          variant="secondary"
+          onClick={handleDownload}
+          {...(isDownloading ? { loading: true } : {})}
+        >
+          Download
+        </s-button>
+      </div>
+    </div>
+  );
+}
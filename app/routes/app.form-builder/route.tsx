@@ -0,0 +1,433 @@
+import { useEffect, useRef } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+
+import prisma from "../../db.server";
+import { authenticate } from "../../shopify.server";
+import {
+  CUSTOM_FIELD_TYPES,
+  getFormFields,
+  isCustomFieldType,
+  parseFieldOptions,
+  slugifyFieldKey,
+} from "../../services/enquiry-form.server";
+import styles from "./styles.module.css";
+
+const MAX_LABEL_LENGTH = 200;
+const MAX_HELP_TEXT_LENGTH = 500;
+
+export type LoaderData = {
+  fieldTypes: Array<{ value: string; label: string }>;
+  fields: Array<{
+    id: string;
+    key: string;
+    label: string;
+    type: string;
+    required: boolean;
+    options: string[];
+    helpText: string | null;
+  }>;
+};
+
+export type ActionData =
+  | { ok: true; message: string }
+  | { ok: false; error: string };
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const fields = await getFormFields(session.shop);
+
+  const payload: LoaderData = {
+    fieldTypes: CUSTOM_FIELD_TYPES.map((type) => ({ ...type })),
+    fields: fields.map((field) => ({
+      id: field.id,
+      key: field.key,
+      label: field.label,
+      type: field.type,
+      required: field.required,
+      options: parseFieldOptions(field.options),
+      helpText: field.helpText,
+    })),
+  };
+
+  return payload;
+};
+
+const readString = (formData: FormData, name: string) => {
+  const value = formData.get(name);
+  return typeof value === "string" ? value.trim() : "";
+};
+
+const readFieldInput = (formData: FormData) => {
+  const label = readString(formData, "label");
+  const type = readString(formData, "type");
+  const helpText = readString(formData, "helpText");
+  const options = readString(formData, "options")
+    .split("\n")
+    .map((option) => option.trim())
+    .filter(Boolean);
+
+  if (!label) {
+    return { error: "Label is required" } as const;
+  }
+
+  if (label.length > MAX_LABEL_LENGTH) {
+    return { error: "Label is too long" } as const;
+  }
+
+  if (helpText.length > MAX_HELP_TEXT_LENGTH) {
+    return { error: "Help text is too long" } as const;
+  }
+
+  if (!isCustomFieldType(type)) {
+    return { error: "Invalid field type" } as const;
+  }
+
+  if (type === "select" && options.length === 0) {
+    return { error: "Dropdown fields need at least one option" } as const;
+  }
+
+  return {
+    data: {
+      label,
+      type,
+      required: formData.get("required") === "on",
+      options: type === "select" ? Array.from(new Set(options)) : [],
+      helpText: helpText || null,
+    },
+  } as const;
+};
+
+const buildUniqueKey = (label: string, existingKeys: Set<string>) => {
+  const base = slugifyFieldKey(label);
+  let candidate = base;
+  let suffix = 2;
+
+  while (existingKeys.has(candidate)) {
+    candidate = `${base}_${suffix}`;
+    suffix += 1;
+  }
+
+  return candidate;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "create-field") {
+    const input = readFieldInput(formData);
+    if ("error" in input) {
+      return Response.json({ ok: false, error: input.error }, { status: 400 });
+    }
+
+    const existing = await getFormFields(session.shop);
+    const key = buildUniqueKey(
+      input.data.label,
+      new Set(existing.map((field) => field.key)),
+    );
+    const position =
+      existing.reduce((max, field) => Math.max(max, field.position), -1) + 1;
+
+    await prisma.enquiryFormField.create({
+      data: { ...input.data, shop: session.shop, key, position },
+    });
+
+    return Response.json({ ok: true, message: "Field added" });
+  }
+
+  const fieldId = readString(formData, "fieldId");
+  if (!fieldId) {
+    return Response.json(
+      { ok: false, error: "Missing field identifier" },
+      { status: 400 },
+    );
+  }
+
+  const field = await prisma.enquiryFormField.findUnique({
+    where: { id: fieldId },
+  });
+
+  if (!field || field.shop !== session.shop) {
+    return Response.json(
+      { ok: false, error: "Field not found" },
+      { status: 404 },
+    );
+  }
+
+  if (intent === "update-field") {
+    const input = readFieldInput(formData);
+    if ("error" in input) {
+      return Response.json({ ok: false, error: input.error }, { status: 400 });
+    }
+
+    // The key stays fixed so answers already stored on enquiries keep
+    // pointing at the same field after a relabel.
+    await prisma.enquiryFormField.update({
+      where: { id: field.id },
+      data: input.data,
+    });
+
+    return Response.json({ ok: true, message: "Field saved" });
+  }
+
+  if (intent === "delete-field") {
+    await prisma.enquiryFormField.delete({ where: { id: field.id } });
+    return Response.json({ ok: true, message: "Field deleted" });
+  }
+
+  if (intent === "move-field") {
+    const direction = readString(formData, "direction");
+    const fields = await getFormFields(session.shop);
+    const index = fields.findIndex((entry) => entry.id === field.id);
+    const targetIndex = direction === "up" ? index - 1 : index + 1;
+
+    if (targetIndex < 0 || targetIndex >= fields.length) {
+      return Response.json({ ok: true, message: "Field order unchanged" });
+    }
+
+    const reordered = [...fields];
+    [reordered[index], reordered[targetIndex]] = [
+      reordered[targetIndex],
+      reordered[index],
+    ];
+
+    await prisma.$transaction(
+      reordered.map((entry, position) =>
+        prisma.enquiryFormField.update({
+          where: { id: entry.id },
+          data: { position },
+        }),
+      ),
+    );
+
+    return Response.json({ ok: true, message: "Field order updated" });
+  }
+
+  return Response.json(
+    { ok: false, error: "Unsupported action" },
+    { status: 400 },
+  );
+};
+
+const useActionToast = (
+  fetcher: ReturnType<typeof useFetcher<ActionData>>,
+) => {
+  const appBridge = useAppBridge();
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data) {
+      if (fetcher.data.ok) {
+        appBridge.toast.show(fetcher.data.message);
+      } else if (fetcher.data.error) {
+        appBridge.toast.show(fetcher.data.error, { isError: true });
+      }
+    }
+  }, [appBridge, fetcher.data, fetcher.state]);
+};
+
+export default function FormBuilder() {
+  const data = useLoaderData() as LoaderData;
+  const fetcher = useFetcher<ActionData>();
+  const createFetcher = useFetcher<ActionData>();
+
+  useActionToast(fetcher);
+  useActionToast(createFetcher);
+
+  return (
+    <s-page heading="Form builder">
+      <s-stack gap="base">
+        <s-section heading="Custom fields">
+          <s-stack gap="base">
+            <s-text color="subdued">
+              These fields appear on the storefront enquiry form after the
+              built-in fields, in the order listed here. Answers are shown on
+              each enquiry and in the notification emails.
+            </s-text>
+            {data.fields.length ? (
+              <div className={styles.fieldList}>
+                {data.fields.map((field, index) => (
+                  <div key={field.id} className={styles.fieldCard}>
+                    <div className={styles.fieldHeader}>
+                      <s-stack direction="inline" gap="small-100">
+                        <s-text>{field.label}</s-text>
+                        <s-badge>
+                          {data.fieldTypes.find(
+                            (type) => type.value === field.type,
+                          )?.label ?? field.type}
+                        </s-badge>
+                        {field.required ? (
+                          <s-badge tone="info">Required</s-badge>
+                        ) : null}
+                      </s-stack>
+                      <s-stack direction="inline" gap="small-100">
+                        <MoveButton
+                          fetcher={fetcher}
+                          fieldId={field.id}
+                          direction="up"
+                          disabled={index === 0}
+                        />
+                        <MoveButton
+                          fetcher={fetcher}
+                          fieldId={field.id}
+                          direction="down"
+                          disabled={index === data.fields.length - 1}
+                        />
+                        <fetcher.Form method="post">
+                          <input type="hidden" name="intent" value="delete-field" />
+                          <input type="hidden" name="fieldId" value={field.id} />
+                          <s-button type="submit" variant="tertiary" tone="critical">
+                            Delete
+                          </s-button>
+                        </fetcher.Form>
+                      </s-stack>
+                    </div>
+                    <FieldForm
+                      fetcher={fetcher}
+                      fieldTypes={data.fieldTypes}
+                      field={field}
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <s-text color="subdued">
+                No custom fields yet. Add one below.
+              </s-text>
+            )}
+          </s-stack>
+        </s-section>
+
+        <s-section heading="Add a field">
+          <FieldForm fetcher={createFetcher} fieldTypes={data.fieldTypes} />
+        </s-section>
+      </s-stack>
+    </s-page>
+  );
+}
+
+function MoveButton({
+  fetcher,
+  fieldId,
+  direction,
+  disabled,
+}: {
+  fetcher: ReturnType<typeof useFetcher<ActionData>>;
+  fieldId: string;
+  direction: "up" | "down";
+  disabled: boolean;
+}) {
+  return (
+    <fetcher.Form method="post">
+      <input type="hidden" name="intent" value="move-field" />
+      <input type="hidden" name="fieldId" value={fieldId} />
+      <input type="hidden" name="direction" value={direction} />
+      <s-button
+        type="submit"
+        variant="tertiary"
+        {...(disabled ? { disabled: true } : {})}
+      >
+        {direction === "up" ? "Move up" : "Move down"}
+      </s-button>
+    </fetcher.Form>
+  );
+}
+
+function FieldForm({
+  fetcher,
+  fieldTypes,
+  field,
+}: {
+  fetcher: ReturnType<typeof useFetcher<ActionData>>;
+  fieldTypes: LoaderData["fieldTypes"];
+  field?: LoaderData["fields"][number];
+}) {
+  const formRef = useRef<HTMLFormElement>(null);
+  const isSubmitting = fetcher.state !== "idle";
+  const idPrefix = field ? `field-${field.id}` : "new-field";
+
+  useEffect(() => {
+    // Clear the "add" form once the new field has been created.
+    if (!field && fetcher.state === "idle" && fetcher.data?.ok) {
+      formRef.current?.reset();
+    }
+  }, [field, fetcher.data, fetcher.state]);
+
+  return (
+    <fetcher.Form ref={formRef} method="post" className={styles.fieldForm}>
+      <input
+        type="hidden"
+        name="intent"
+        value={field ? "update-field" : "create-field"}
+      />
+      {field ? <input type="hidden" name="fieldId" value={field.id} /> : null}
+      <div className={styles.formField}>
+        <label htmlFor={`${idPrefix}-label`}>Label</label>
+        <input
+          id={`${idPrefix}-label`}
+          name="label"
+          defaultValue={field?.label ?? ""}
+          maxLength={MAX_LABEL_LENGTH}
+          required
+        />
+      </div>
+      <div className={styles.formField}>
+        <label htmlFor={`${idPrefix}-type`}>Type</label>
+        <select
+          id={`${idPrefix}-type`}
+          name="type"
+          defaultValue={field?.type ?? "text"}
+        >
+          {fieldTypes.map((type) => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className={styles.formField}>
+        <label htmlFor={`${idPrefix}-options`}>
+          Dropdown options (one per line)
+        </label>
+        <textarea
+          id={`${idPrefix}-options`}
+          name="options"
+          defaultValue={field?.options.join("\n") ?? ""}
+          rows={3}
+        />
+      </div>
+      <div className={styles.formField}>
+        <label htmlFor={`${idPrefix}-help`}>Help text</label>
+        <input
+          id={`${idPrefix}-help`}
+          name="helpText"
+          defaultValue={field?.helpText ?? ""}
+          maxLength={MAX_HELP_TEXT_LENGTH}
+        />
+      </div>
+      <label className={styles.checkboxField}>
+        <input
+          type="checkbox"
+          name="required"
+          defaultChecked={field?.required ?? false}
+        />
+        Required
+      </label>
+      {field ? (
+        <s-text color="subdued">Submitted as {field.key}</s-text>
+      ) : null}
+      <div>
+        <s-button
+          type="submit"
+          variant={field ? "secondary" : "primary"}
+          {...(isSubmitting ? { loading: true } : {})}
+        >
+          {field ? "Save field" : "Add field"}
+        </s-button>
+      </div>
+    </fetcher.Form>
+  );
+}
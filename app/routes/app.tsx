@@ -1,25 +1,66 @@
-import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import type {
+  HeadersFunction,
+  LoaderFunctionArgs,
+  ShouldRevalidateFunction,
+} from "react-router";
 import { Outlet, useLoaderData, useRouteError } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import { AppProvider } from "@shopify/shopify-app-react-router/react";
 
 import { authenticate } from "../shopify.server";
+import { getSessionActor } from "../services/enquiry-events.server";
+import { listSavedViews, NAV_VIEW_LIMIT } from "../services/saved-views.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
+  const views = await listSavedViews(session.shop, getSessionActor(session), {
+    limit: NAV_VIEW_LIMIT,
+  });
 
-  // eslint-disable-next-line no-undef
-  return { apiKey: process.env.SHOPIFY_API_KEY || "" };
+  return {
+    // eslint-disable-next-line no-undef
+    apiKey: process.env.SHOPIFY_API_KEY || "",
+    views: views.map((view) => ({
+      id: view.id,
+      name: view.name,
+      query: view.query,
+      count: view.count,
+    })),
+  };
+};
+
+// Each saved view costs a count, plus a full-text search for search views, so
+// the nav only reloads on navigation and after a view is saved or deleted,
+// not after every status change or comment.
+export const shouldRevalidate: ShouldRevalidateFunction = ({
+  formMethod,
+  formData,
+  defaultShouldRevalidate,
+}) => {
+  if (!formMethod || formMethod.toUpperCase() === "GET") {
+    return defaultShouldRevalidate;
+  }
+
+  const intent = formData?.get("intent");
+  return intent === "save-view" || intent === "delete-view";
 };
 
 export default function App() {
-  const { apiKey } = useLoaderData<typeof loader>();
+  const { apiKey, views } = useLoaderData<typeof loader>();
 
   return (
     <AppProvider embedded apiKey={apiKey}>
       <s-app-nav>
       <s-link href="/app">Home</s-link>
         <s-link href="/app/enquiries">Enquiries</s-link>
+        <s-link href="/app/form-builder">Form builder</s-link>
+        <s-link href="/app/email-template">Email template</s-link>
+        <s-link href="/app/workflow">Workflow</s-link>
+        {views.map((view) => (
+          <s-link key={view.id} href={`/app/enquiries?${view.query}`}>
+            {`${view.name} (${view.count})`}
+          </s-link>
+        ))}
       </s-app-nav>
       <Outlet />
     </AppProvider>
@@ -0,0 +1,642 @@
+import { useEffect, useRef } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+
+import prisma from "../../db.server";
+import { authenticate } from "../../shopify.server";
+import {
+  STATUS_TONES,
+  ensureWorkflow,
+  getWorkflow,
+  isStatusTone,
+  slugifyStatusKey,
+  type WorkflowStatusDefinition,
+} from "../../services/enquiry-workflow.server";
+import {
+  STATUS_EMAIL_PLACEHOLDERS,
+  getStatusEmails,
+  parseStatusEmailForm,
+  saveStatusEmail,
+} from "../../services/status-email.server";
+import styles from "./styles.module.css";
+
+const MAX_LABEL_LENGTH = 60;
+
+const TRANSITION_RULES = [
+  { value: "blocked", label: "Not allowed" },
+  { value: "allowed", label: "Allowed" },
+  { value: "reason", label: "Needs a reason" },
+] as const;
+
+export type LoaderData = {
+  tones: Array<{ value: string; label: string }>;
+  statuses: Array<
+    WorkflowStatusDefinition & {
+      enquiryCount: number;
+      customerEmail: { enabled: boolean; subject: string; body: string };
+    }
+  >;
+  placeholders: Array<{ key: string; description: string }>;
+  // `${fromKey}:${toKey}` to "allowed" or "reason"; missing pairs are blocked.
+  rules: Record<string, string>;
+};
+
+export type ActionData =
+  | { ok: true; message: string }
+  | { ok: false; error: string };
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const workflow = await getWorkflow(session.shop);
+  const counts = await prisma.enquiry.groupBy({
+    by: ["status"],
+    _count: { _all: true },
+    where: { shop: session.shop },
+  });
+  const countByStatus = new Map(
+    counts.map((entry) => [entry.status, entry._count._all]),
+  );
+  const statusEmails = await getStatusEmails(
+    session.shop,
+    workflow.statuses.map((status) => status.key),
+  );
+
+  const payload: LoaderData = {
+    tones: STATUS_TONES.map((tone) => ({ ...tone })),
+    statuses: workflow.statuses.map((status) => ({
+      ...status,
+      enquiryCount: countByStatus.get(status.key) ?? 0,
+      customerEmail: {
+        enabled: statusEmails.get(status.key)?.enabled ?? false,
+        subject: statusEmails.get(status.key)?.subject ?? "",
+        body: statusEmails.get(status.key)?.body ?? "",
+      },
+    })),
+    placeholders: STATUS_EMAIL_PLACEHOLDERS.map((placeholder) => ({
+      ...placeholder,
+    })),
+    rules: Object.fromEntries(
+      workflow.transitions.map((transition) => [
+        `${transition.fromKey}:${transition.toKey}`,
+        transition.requiresReason ? "reason" : "allowed",
+      ]),
+    ),
+  };
+
+  return payload;
+};
+
+const readString = (formData: FormData, name: string) => {
+  const value = formData.get(name);
+  return typeof value === "string" ? value.trim() : "";
+};
+
+const readStatusInput = (formData: FormData) => {
+  const label = readString(formData, "label");
+  const tone = readString(formData, "tone");
+
+  if (!label) {
+    return { error: "Label is required" } as const;
+  }
+
+  if (label.length > MAX_LABEL_LENGTH) {
+    return { error: "Label is too long" } as const;
+  }
+
+  if (!isStatusTone(tone)) {
+    return { error: "Invalid colour" } as const;
+  }
+
+  return { data: { label, tone } } as const;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const shop = session.shop;
+
+  // The default workflow only exists in code until it is first edited.
+  const statuses = await ensureWorkflow(shop);
+
+  if (intent === "create-status") {
+    const input = readStatusInput(formData);
+    if ("error" in input) {
+      return Response.json({ ok: false, error: input.error }, { status: 400 });
+    }
+
+    const existingKeys = new Set(statuses.map((status) => status.key));
+    const base = slugifyStatusKey(input.data.label);
+    let key = base;
+    let suffix = 2;
+    while (existingKeys.has(key)) {
+      key = `${base}_${suffix}`;
+      suffix += 1;
+    }
+
+    const position =
+      statuses.reduce((max, status) => Math.max(max, status.position), -1) + 1;
+
+    // A new stage can be reached from, and left for, every other stage until
+    // the merchant narrows it down.
+    await prisma.$transaction([
+      prisma.workflowStatus.create({
+        data: { ...input.data, shop, key, position },
+      }),
+      prisma.workflowTransition.createMany({
+        data: statuses.flatMap((status) => [
+          { shop, fromKey: status.key, toKey: key },
+          { shop, fromKey: key, toKey: status.key },
+        ]),
+      }),
+    ]);
+
+    return Response.json({ ok: true, message: "Status added" });
+  }
+
+  if (intent === "save-transitions") {
+    const data = statuses.flatMap((from) =>
+      statuses.flatMap((to) => {
+        const rule =
+          from.key === to.key
+            ? "blocked"
+            : readString(formData, `rule:${from.key}:${to.key}`);
+        return rule === "allowed" || rule === "reason"
+          ? [
+              {
+                shop,
+                fromKey: from.key,
+                toKey: to.key,
+                requiresReason: rule === "reason",
+              },
+            ]
+          : [];
+      }),
+    );
+
+    await prisma.$transaction([
+      prisma.workflowTransition.deleteMany({ where: { shop } }),
+      prisma.workflowTransition.createMany({ data }),
+    ]);
+
+    return Response.json({ ok: true, message: "Transitions saved" });
+  }
+
+  const key = readString(formData, "key");
+  const status = statuses.find((entry) => entry.key === key);
+
+  if (!status) {
+    return Response.json(
+      { ok: false, error: "Status not found" },
+      { status: 404 },
+    );
+  }
+
+  if (intent === "update-status") {
+    const input = readStatusInput(formData);
+    if ("error" in input) {
+      return Response.json({ ok: false, error: input.error }, { status: 400 });
+    }
+
+    // The key stays fixed because enquiries and their history refer to it.
+    await prisma.workflowStatus.update({
+      where: { id: status.id },
+      data: input.data,
+    });
+
+    return Response.json({ ok: true, message: "Status saved" });
+  }
+
+  if (intent === "save-status-email") {
+    const input = parseStatusEmailForm(formData);
+    if ("error" in input) {
+      return Response.json({ ok: false, error: input.error }, { status: 400 });
+    }
+
+    await saveStatusEmail(shop, status.key, input.data);
+
+    return Response.json({
+      ok: true,
+      message: input.data.enabled
+        ? `Customers will be emailed when enquiries move to ${status.label}`
+        : "Customer email saved",
+    });
+  }
+
+  if (intent === "delete-status") {
+    if (statuses.length === 1) {
+      return Response.json(
+        { ok: false, error: "The workflow needs at least one status" },
+        { status: 400 },
+      );
+    }
+
+    const inUse = await prisma.enquiry.count({
+      where: { shop, status: status.key },
+    });
+
+    if (inUse) {
+      return Response.json(
+        {
+          ok: false,
+          error: `Move the ${inUse} ${
+            inUse === 1 ? "enquiry" : "enquiries"
+          } in ${status.label} to another status first`,
+        },
+        { status: 400 },
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.workflowTransition.deleteMany({
+        where: {
+          shop,
+          OR: [{ fromKey: status.key }, { toKey: status.key }],
+        },
+      }),
+      prisma.statusEmailTemplate.deleteMany({
+        where: { shop, statusKey: status.key },
+      }),
+      prisma.workflowStatus.delete({ where: { id: status.id } }),
+    ]);
+
+    return Response.json({ ok: true, message: "Status deleted" });
+  }
+
+  if (intent === "move-status") {
+    const direction = readString(formData, "direction");
+    const index = statuses.findIndex((entry) => entry.id === status.id);
+    const targetIndex = direction === "up" ? index - 1 : index + 1;
+
+    if (targetIndex < 0 || targetIndex >= statuses.length) {
+      return Response.json({ ok: true, message: "Status order unchanged" });
+    }
+
+    const reordered = [...statuses];
+    [reordered[index], reordered[targetIndex]] = [
+      reordered[targetIndex],
+      reordered[index],
+    ];
+
+    await prisma.$transaction(
+      reordered.map((entry, position) =>
+        prisma.workflowStatus.update({
+          where: { id: entry.id },
+          data: { position },
+        }),
+      ),
+    );
+
+    return Response.json({ ok: true, message: "Status order updated" });
+  }
+
+  return Response.json(
+    { ok: false, error: "Unsupported action" },
+    { status: 400 },
+  );
+};
+
+const useActionToast = (
+  fetcher: ReturnType<typeof useFetcher<ActionData>>,
+) => {
+  const appBridge = useAppBridge();
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data) {
+      if (fetcher.data.ok) {
+        appBridge.toast.show(fetcher.data.message);
+      } else if (fetcher.data.error) {
+        appBridge.toast.show(fetcher.data.error, { isError: true });
+      }
+    }
+  }, [appBridge, fetcher.data, fetcher.state]);
+};
+
+export default function WorkflowSettings() {
+  const data = useLoaderData() as LoaderData;
+  const fetcher = useFetcher<ActionData>();
+  const createFetcher = useFetcher<ActionData>();
+  const transitionFetcher = useFetcher<ActionData>();
+
+  useActionToast(fetcher);
+  useActionToast(createFetcher);
+  useActionToast(transitionFetcher);
+
+  return (
+    <s-page heading="Status workflow">
+      <s-stack gap="base">
+        <s-section heading="Statuses">
+          <s-stack gap="base">
+            <s-text color="subdued">
+              The stages an enquiry moves through, in the order they appear on
+              the dashboard. Renaming a status keeps its enquiries and history.
+            </s-text>
+            <div className={styles.statusList}>
+              {data.statuses.map((status, index) => (
+                <div key={status.key} className={styles.statusCard}>
+                  <div className={styles.statusHeader}>
+                    <s-stack direction="inline" gap="small-100">
+                      <s-badge tone={status.tone}>{status.label}</s-badge>
+                      <s-text color="subdued">
+                        {status.enquiryCount}{" "}
+                        {status.enquiryCount === 1 ? "enquiry" : "enquiries"}
+                      </s-text>
+                    </s-stack>
+                    <s-stack direction="inline" gap="small-100">
+                      <MoveButton
+                        fetcher={fetcher}
+                        statusKey={status.key}
+                        direction="up"
+                        disabled={index === 0}
+                      />
+                      <MoveButton
+                        fetcher={fetcher}
+                        statusKey={status.key}
+                        direction="down"
+                        disabled={index === data.statuses.length - 1}
+                      />
+                      <fetcher.Form method="post">
+                        <input type="hidden" name="intent" value="delete-status" />
+                        <input type="hidden" name="key" value={status.key} />
+                        <s-button
+                          type="submit"
+                          variant="tertiary"
+                          tone="critical"
+                          {...(status.enquiryCount ? { disabled: true } : {})}
+                        >
+                          Delete
+                        </s-button>
+                      </fetcher.Form>
+                    </s-stack>
+                  </div>
+                  <StatusForm
+                    fetcher={fetcher}
+                    tones={data.tones}
+                    status={status}
+                  />
+                  <CustomerEmailForm fetcher={fetcher} status={status} />
+                </div>
+              ))}
+            </div>
+            <s-text color="subdued">
+              Customer emails can use{" "}
+              {data.placeholders
+                .map((placeholder) => `{{${placeholder.key}}}`)
+                .join(", ")}
+              . Staff see the email and can choose not to send it before a
+              status change is saved.
+            </s-text>
+          </s-stack>
+        </s-section>
+
+        <s-section heading="Add a status">
+          <StatusForm fetcher={createFetcher} tones={data.tones} />
+        </s-section>
+
+        <s-section heading="Allowed transitions">
+          <s-stack gap="base">
+            <s-text color="subdued">
+              Choose where an enquiry can move from each status. Moves that
+              need a reason ask staff to explain the change, and the reason is
+              kept on the enquiry timeline.
+            </s-text>
+            <TransitionMatrix
+              fetcher={transitionFetcher}
+              statuses={data.statuses}
+              rules={data.rules}
+            />
+          </s-stack>
+        </s-section>
+      </s-stack>
+    </s-page>
+  );
+}
+
+function MoveButton({
+  fetcher,
+  statusKey,
+  direction,
+  disabled,
+}: {
+  fetcher: ReturnType<typeof useFetcher<ActionData>>;
+  statusKey: string;
+  direction: "up" | "down";
+  disabled: boolean;
+}) {
+  return (
+    <fetcher.Form method="post">
+      <input type="hidden" name="intent" value="move-status" />
+      <input type="hidden" name="key" value={statusKey} />
+      <input type="hidden" name="direction" value={direction} />
+      <s-button
+        type="submit"
+        variant="tertiary"
+        {...(disabled ? { disabled: true } : {})}
+      >
+        {direction === "up" ? "Move up" : "Move down"}
+      </s-button>
+    </fetcher.Form>
+  );
+}
+
+function StatusForm({
+  fetcher,
+  tones,
+  status,
+}: {
+  fetcher: ReturnType<typeof useFetcher<ActionData>>;
+  tones: LoaderData["tones"];
+  status?: LoaderData["statuses"][number];
+}) {
+  const formRef = useRef<HTMLFormElement>(null);
+  const isSubmitting = fetcher.state !== "idle";
+  const idPrefix = status ? `status-${status.key}` : "new-status";
+
+  useEffect(() => {
+    // Clear the "add" form once the new status has been created.
+    if (!status && fetcher.state === "idle" && fetcher.data?.ok) {
+      formRef.current?.reset();
+    }
+  }, [status, fetcher.data, fetcher.state]);
+
+  return (
+    <fetcher.Form ref={formRef} method="post" className={styles.statusForm}>
+      <input
+        type="hidden"
+        name="intent"
+        value={status ? "update-status" : "create-status"}
+      />
+      {status ? <input type="hidden" name="key" value={status.key} /> : null}
+      <div className={styles.formField}>
+        <label htmlFor={`${idPrefix}-label`}>Label</label>
+        <input
+          id={`${idPrefix}-label`}
+          name="label"
+          defaultValue={status?.label ?? ""}
+          maxLength={MAX_LABEL_LENGTH}
+          required
+        />
+      </div>
+      <div className={styles.formField}>
+        <label htmlFor={`${idPrefix}-tone`}>Colour</label>
+        <select
+          id={`${idPrefix}-tone`}
+          name="tone"
+          defaultValue={status?.tone ?? "info"}
+        >
+          {tones.map((tone) => (
+            <option key={tone.value} value={tone.value}>
+              {tone.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {status ? (
+        <s-text color="subdued">Stored as {status.key}</s-text>
+      ) : null}
+      <div>
+        <s-button
+          type="submit"
+          variant={status ? "secondary" : "primary"}
+          {...(isSubmitting ? { loading: true } : {})}
+        >
+          {status ? "Save status" : "Add status"}
+        </s-button>
+      </div>
+    </fetcher.Form>
+  );
+}
+
+function CustomerEmailForm({
+  fetcher,
+  status,
+}: {
+  fetcher: ReturnType<typeof useFetcher<ActionData>>;
+  status: LoaderData["statuses"][number];
+}) {
+  const isSubmitting = fetcher.state !== "idle";
+  const idPrefix = `status-email-${status.key}`;
+
+  return (
+    <details className={styles.emailDetails}>
+      <summary>
+        Customer email{status.customerEmail.enabled ? " (on)" : " (off)"}
+      </summary>
+      <fetcher.Form method="post" className={styles.emailForm}>
+        <input type="hidden" name="intent" value="save-status-email" />
+        <input type="hidden" name="key" value={status.key} />
+        <label className={styles.checkboxField}>
+          <input
+            type="checkbox"
+            name="enabled"
+            defaultChecked={status.customerEmail.enabled}
+          />
+          Email the customer when an enquiry moves to {status.label}
+        </label>
+        <div className={styles.formField}>
+          <label htmlFor={`${idPrefix}-subject`}>Subject</label>
+          <input
+            id={`${idPrefix}-subject`}
+            name="subject"
+            defaultValue={status.customerEmail.subject}
+            maxLength={200}
+            required
+          />
+        </div>
+        <div className={styles.formField}>
+          <label htmlFor={`${idPrefix}-body`}>Message</label>
+          <textarea
+            id={`${idPrefix}-body`}
+            name="body"
+            defaultValue={status.customerEmail.body}
+            rows={6}
+            maxLength={5000}
+            required
+          />
+        </div>
+        <div>
+          <s-button
+            type="submit"
+            variant="secondary"
+            {...(isSubmitting ? { loading: true } : {})}
+          >
+            Save email
+          </s-button>
+        </div>
+      </fetcher.Form>
+    </details>
+  );
+}
+
+function TransitionMatrix({
+  fetcher,
+  statuses,
+  rules,
+}: {
+  fetcher: ReturnType<typeof useFetcher<ActionData>>;
+  statuses: LoaderData["statuses"];
+  rules: LoaderData["rules"];
+}) {
+  const isSubmitting = fetcher.state !== "idle";
+  // Remount the selects when the statuses or saved rules change.
+  const formKey = JSON.stringify([statuses.map((status) => status.key), rules]);
+
+  return (
+    <fetcher.Form key={formKey} method="post">
+      <input type="hidden" name="intent" value="save-transitions" />
+      <div className={styles.matrixWrap}>
+        <table className={styles.matrix}>
+          <thead>
+            <tr>
+              <th scope="col">From \ To</th>
+              {statuses.map((to) => (
+                <th key={to.key} scope="col">
+                  {to.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {statuses.map((from) => (
+              <tr key={from.key}>
+                <th scope="row">{from.label}</th>
+                {statuses.map((to) => (
+                  <td key={to.key}>
+                    {from.key === to.key ? (
+                      <s-text color="subdued">—</s-text>
+                    ) : (
+                      <select
+                        name={`rule:${from.key}:${to.key}`}
+                        aria-label={`${from.label} to ${to.label}`}
+                        defaultValue={
+                          rules[`${from.key}:${to.key}`] ?? "blocked"
+                        }
+                      >
+                        {TRANSITION_RULES.map((rule) => (
+                          <option key={rule.value} value={rule.value}>
+                            {rule.label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className={styles.matrixActions}>
+        <s-button
+          type="submit"
+          variant="primary"
+          {...(isSubmitting ? { loading: true } : {})}
+        >
+          Save transitions
+        </s-button>
+      </div>
+    </fetcher.Form>
+  );
+}
@@ -0,0 +1,33 @@
+import type { LoaderFunctionArgs } from "react-router";
+
+import { authenticate } from "../shopify.server";
+import {
+  getFormFields,
+  toPublicFormField,
+} from "../services/enquiry-form.server";
+import { toPublicRequestTypes } from "../services/enquiry-request-types.server";
+import { issueFormToken } from "../services/enquiry-spam.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const context = await authenticate.public.appProxy(request);
+  const shop = context.session?.shop;
+
+  const fields = shop ? await getFormFields(shop) : [];
+
+  return new Response(
+    JSON.stringify({
+      ok: true,
+      fields: fields.map(toPublicFormField),
+      requestTypes: toPublicRequestTypes(),
+      formToken: issueFormToken(),
+    }),
+    {
+      headers: {
+        "Content-Type": "application/json",
+        // The form token records when this response was issued, so it must
+        // not be shared between visitors.
+        "Cache-Control": "no-store",
+      },
+    },
+  );
+};
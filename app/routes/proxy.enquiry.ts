@@ -1,43 +1,59 @@
 import type { ActionFunctionArgs } from "react-router";
-import { Prisma } from "@prisma/client";
 import prisma from "../db.server";
 import { authenticate } from "../shopify.server";
+import { storeAttachment } from "../services/attachment-storage.server";
 import {
-  sendEnquiryEmails,
-  type AttachmentPayload,
-  type EnquiryEmailPayload,
-  type EnquiryEmailSendOutcome,
+  buildCustomFieldSchema,
+  collectCustomFieldAnswers,
+  getFormFields,
+} from "../services/enquiry-form.server";
+import {
+  getEnquiryFieldSchema,
+  hasFieldErrors,
+  validateAttachmentFiles,
+  validateFormData,
+  validationErrorResponse,
+} from "../services/enquiry-validation.server";
+import {
+  assessSubmission,
+  checkRateLimit,
+  getClientIp,
+  rateLimitedResponse,
+} from "../services/enquiry-spam.server";
+import { enqueueEnquiryNotifications } from "../services/enquiry-outbox.server";
+import {
+  getRequestType,
+  normalizeRequestType,
+} from "../services/enquiry-request-types.server";
+import { normalizeLocale } from "../services/email-translations.server";
+import { ENQUIRY_EVENT_TYPE } from "../services/enquiry-events.server";
+import {
+  getWorkflow,
+  resolveInitialStatus,
+} from "../services/enquiry-workflow.server";
+import {
+  pickNextAssignee,
+  toAssigneeData,
+} from "../services/enquiry-assignment.server";
+import type {
+  AttachmentPayload,
+  EnquiryEmailPayload,
 } from "../services/enquiry-email.server";
 
-type StoredEnquiry = EnquiryEmailPayload & {
-  id: string;
-  productId: string | null;
-  attachmentFileName: string | null;
-  attachmentMimeType: string | null;
-  attachmentSize: number | null;
-  attachmentData: Buffer | Uint8Array | null;
-};
-
-const getAttachmentFromForm = async (
-  rawValue: FormDataEntryValue | null,
-): Promise<AttachmentPayload> => {
-  if (!rawValue || typeof rawValue === "string") {
-    return null;
-  }
-
-  if (rawValue.size === 0) {
-    return null;
-  }
-
-  const arrayBuffer = await rawValue.arrayBuffer();
+const getUploadedFiles = (rawValues: FormDataEntryValue[]) =>
+  rawValues.filter(
+    (value): value is File => typeof value !== "string" && value.size > 0,
+  );
 
-  return {
-    filename: rawValue.name || "attachment",
-    mimeType: rawValue.type || "application/octet-stream",
-    size: rawValue.size,
-    data: Buffer.from(arrayBuffer),
-  };
-};
+const readAttachments = (files: File[]): Promise<AttachmentPayload[]> =>
+  Promise.all(
+    files.map(async (file) => ({
+      filename: file.name || "attachment",
+      mimeType: file.type || "application/octet-stream",
+      size: file.size,
+      data: Buffer.from(await file.arrayBuffer()),
+    })),
+  );
 
 const parseInteger = (value: FormDataEntryValue | null) => {
   if (!value || typeof value !== "string") {
@@ -101,21 +117,45 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   const context = await authenticate.public.appProxy(request);
   const formData = await request.formData();
+  const shop = context.session?.shop ?? "unknown";
+  const customFormFields = context.session ? await getFormFields(shop) : [];
+
+  const fieldErrors = validateFormData(formData, {
+    ...getEnquiryFieldSchema(formData),
+    ...buildCustomFieldSchema(customFormFields),
+  });
+  const files = getUploadedFiles(formData.getAll("attachment"));
+  const attachmentError = validateAttachmentFiles(files);
+  if (attachmentError) {
+    fieldErrors.attachment = attachmentError;
+  }
+
+  if (hasFieldErrors(fieldErrors)) {
+    console.info("Rejected invalid enquiry submission", {
+      shop,
+      fieldErrors,
+    });
+    return validationErrorResponse(fieldErrors);
+  }
 
+  const firstName = normalizeString(getStringField(formData, "first_name"));
+  const lastName = normalizeString(getStringField(formData, "last_name"));
   const nameValue =
-    normalizeString(getStringField(formData, "name")) ?? "Unknown contact";
+    normalizeString(getStringField(formData, "name")) ??
+    [firstName, lastName].filter(Boolean).join(" ");
   const companyName = normalizeString(getStringField(formData, "company_name"));
   const emailValue = normalizeString(getStringField(formData, "email")) ?? "";
   const phoneNumber = normalizeString(getStringField(formData, "phone_number"));
-  const requestTypeValue =
-    normalizeString(getStringField(formData, "request_type")) ??
-    "visual_enquiry";
+  const requestType = getRequestType(
+    normalizeRequestType(getStringField(formData, "request_type")),
+  );
+  const locale = normalizeLocale(getStringField(formData, "locale"));
   const otherRequirements = normalizeString(
     getStringField(formData, "other_requirements"),
   );
   const messageValue =
     otherRequirements ??
-    "Customer requested a FREE visual via the storefront enquiry form.";
+    `Submitted via the storefront ${requestType.label.toLowerCase()} form.`;
   const blockId = getStringField(formData, "block_id");
   const productReference = normalizeString(
     getStringField(formData, "product_reference"),
@@ -131,23 +171,86 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     getStringField(formData, "worked_with_before"),
   );
   const quantityValue = parseInteger(formData.get("quantity"));
+  const productColour = normalizeString(
+    getStringField(formData, "product_colour"),
+  );
+  const printPosition = normalizeString(
+    getStringField(formData, "print_position"),
+  );
+  const printColours = normalizeString(
+    getStringField(formData, "print_colours"),
+  );
+  const pantoneReference = normalizeString(
+    getStringField(formData, "pantone_reference"),
+  );
+  const artworkNotes = normalizeString(getStringField(formData, "artwork_notes"));
+  const customFields = collectCustomFieldAnswers(formData, customFormFields);
+
+  const rateLimit = await checkRateLimit({
+    shop,
+    ip: getClientIp(request),
+    email: emailValue || null,
+  });
+  if (rateLimit.limited) {
+    console.warn("Rate limited enquiry submission", {
+      shop,
+      kind: rateLimit.kind,
+    });
+    return rateLimitedResponse(rateLimit.retryAfterSeconds);
+  }
+
+  const spamAssessment = assessSubmission({
+    formData,
+    name: nameValue,
+    message: otherRequirements,
+  });
 
   console.info("Received enquiry submission", {
-    shop: context.session?.shop ?? "unknown",
+    shop,
     blockId,
     name: nameValue,
     email: emailValue,
-    requestType: requestTypeValue,
+    requestType: requestType.value,
+    isSpam: spamAssessment.isSpam,
+    spamScore: spamAssessment.score,
   });
 
-  const attachment = await getAttachmentFromForm(formData.get("attachment"));
-  const enquiry = (await prisma.enquiry.create({
+  const attachments = await readAttachments(files);
+  const storedAttachments = [];
+  for (const attachment of attachments) {
+    const stored = await storeAttachment({
+      shop,
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+      data: attachment.data,
+    });
+    storedAttachments.push({
+      fileName: attachment.filename,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      storageKey: stored.storageKey,
+      checksum: stored.checksum,
+    });
+  }
+
+  // Spam stays unassigned so it does not use up a turn in the rotation.
+  const assignee = spamAssessment.isSpam ? null : await pickNextAssignee(shop);
+  const status = resolveInitialStatus(
+    await getWorkflow(shop),
+    requestType.defaultStatus,
+  );
+
+  const enquiry = await prisma.enquiry.create({
     data: {
-      shop: context.session?.shop ?? "unknown",
+      shop,
       blockId,
       name: nameValue,
+      firstName,
+      lastName,
       email: emailValue,
-      requestType: requestTypeValue,
+      requestType: requestType.value,
+      locale,
+      status,
       productReference,
       quantity: quantityValue,
       message: messageValue,
@@ -160,96 +263,60 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       phoneNumber,
       deliveryDeadline,
       workedWithBefore,
-      attachmentFileName: attachment?.filename ?? null,
-      attachmentMimeType: attachment?.mimeType ?? null,
-      attachmentSize: attachment?.size ?? null,
-      attachmentData: attachment?.data
-        ? new Uint8Array(attachment.data)
-        : null,
+      productColour,
+      printPosition,
+      printColours,
+      pantoneReference,
+      artworkNotes,
+      customFields: customFields.length ? customFields : undefined,
+      isSpam: spamAssessment.isSpam,
+      spamScore: spamAssessment.score,
+      spamReasons: spamAssessment.reasons.length
+        ? spamAssessment.reasons
+        : undefined,
+      attachments: storedAttachments.length
+        ? { create: storedAttachments }
+        : undefined,
+      ...toAssigneeData(assignee),
+      events: {
+        create: [
+          {
+            type: ENQUIRY_EVENT_TYPE.CREATED,
+            toStatus: status,
+            ...(spamAssessment.isSpam
+              ? { metadata: { isSpam: true, spamScore: spamAssessment.score } }
+              : {}),
+          },
+          ...(assignee
+            ? [
+                {
+                  type: ENQUIRY_EVENT_TYPE.ASSIGNED,
+                  metadata: {
+                    assigneeId: assignee.id,
+                    assigneeName: assignee.name,
+                    auto: true,
+                  },
+                },
+              ]
+            : []),
+        ],
+      },
     },
-  })) as StoredEnquiry;
+    select: { id: true },
+  });
 
   console.info("Saved enquiry", {
     enquiryId: enquiry.id,
-    hasAttachment: Boolean(attachment),
+    attachmentCount: storedAttachments.length,
   });
 
-  const attemptedAt = new Date();
-  let emailOutcome: EnquiryEmailSendOutcome | null = null;
-  let emailError: unknown = null;
-
-  try {
-    console.info("Sending enquiry notification email", { enquiryId: enquiry.id });
-    emailOutcome = await sendEnquiryEmails({ enquiry, attachment });
-  } catch (error) {
-    emailError = error;
-    console.error("Failed to send enquiry notification email", {
-      enquiryId: enquiry.id,
-      error,
-    });
-  }
-
-  const resolvedOutcome: EnquiryEmailSendOutcome =
-    emailOutcome ??
-    {
-      attempts: [],
-      notificationState: "FAILED",
-      lastError:
-        emailError instanceof Error
-          ? emailError.message
-          : "Unknown error sending enquiry notification email",
-    };
-
-  const updateData = {
-    emailNotificationState: resolvedOutcome.notificationState,
-    lastEmailAttemptAt: attemptedAt,
-    lastEmailError: resolvedOutcome.lastError,
-  };
-
-  const updateOperations: Prisma.PrismaPromise<unknown>[] = [
-    prisma.enquiry.update({
-      where: { id: enquiry.id },
-      data: updateData as Prisma.EnquiryUncheckedUpdateInput,
-    }),
-  ];
-
-  if (resolvedOutcome.attempts.length) {
-    type EnquiryEmailLogDelegate = {
-      createMany: (args: Record<string, unknown>) => Prisma.PrismaPromise<unknown>;
-    };
-
-    const enquiryEmailLogDelegate = (prisma as unknown as {
-      enquiryEmailLog: EnquiryEmailLogDelegate;
-    }).enquiryEmailLog;
-
-    updateOperations.push(
-      enquiryEmailLogDelegate.createMany({
-        data: resolvedOutcome.attempts.map((attempt) => ({
-          enquiryId: enquiry.id,
-          recipient: attempt.recipient,
-          recipientType: attempt.recipientType,
-          status: attempt.status,
-          subject: attempt.subject,
-          errorMessage: attempt.errorMessage,
-          providerId: attempt.providerId,
-          metadata:
-            attempt.metadata !== null
-              ? (attempt.metadata as Prisma.JsonValue)
-              : Prisma.JsonNull,
-        })),
-      }),
-    );
+  // Spam is kept for review on the dashboard but never emailed; releasing it
+  // from the Spam view queues the notifications. Everything else is handed to
+  // the outbox worker so the storefront does not wait on the mail provider.
+  if (!spamAssessment.isSpam) {
+    await enqueueEnquiryNotifications(enquiry.id);
   }
 
-  await prisma.$transaction(updateOperations);
-
-  console.info("Notification email processed", {
-    enquiryId: enquiry.id,
-    totalAttempts: resolvedOutcome.attempts.length,
-    notificationState: resolvedOutcome.notificationState,
-    lastError: resolvedOutcome.lastError,
-  });
-
   return new Response(
     JSON.stringify({ ok: true }),
     {
@@ -0,0 +1,29 @@
+import type { ActionFunctionArgs } from "react-router";
+import { handleDeliveryWebhook } from "../services/email-delivery.server";
+
+// Register this URL in Mailgun for the delivered, permanent_fail,
+// temporary_fail, opened and complained webhooks.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response("Expected a JSON body", { status: 406 });
+  }
+
+  const result = await handleDeliveryWebhook(body);
+
+  if (result.outcome === "rejected") {
+    console.warn("Rejected email delivery event", {
+      status: result.status,
+      error: result.error,
+    });
+    return new Response(result.error, { status: result.status });
+  }
+
+  return Response.json({ ok: true, outcome: result.outcome });
+};
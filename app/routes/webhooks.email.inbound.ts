@@ -0,0 +1,32 @@
+import type { ActionFunctionArgs } from "react-router";
+import { handleInboundEmail } from "../services/inbound-email.server";
+
+// Mailgun receiving route: match_recipient("reply\+.*@<INBOUND_EMAIL_DOMAIN>")
+// with forward("https://<app host>/webhooks/email/inbound").
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return new Response("Expected a multipart or urlencoded body", {
+      status: 406,
+    });
+  }
+
+  const result = await handleInboundEmail(formData);
+
+  if (result.outcome === "rejected") {
+    console.warn("Rejected inbound email", {
+      status: result.status,
+      error: result.error,
+    });
+    return new Response(result.error, { status: result.status });
+  }
+
+  console.info("Received inbound email", result);
+  return Response.json({ ok: true });
+};
@@ -0,0 +1,238 @@
+import { createHash, randomUUID } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { mkdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { Readable } from "node:stream";
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+
+export const ATTACHMENT_STORAGE_DRIVER = {
+  LOCAL: "local",
+  S3: "s3",
+} as const;
+export type AttachmentStorageDriver =
+  (typeof ATTACHMENT_STORAGE_DRIVER)[keyof typeof ATTACHMENT_STORAGE_DRIVER];
+
+export type AttachmentStorage = {
+  driver: AttachmentStorageDriver;
+  put: (
+    key: string,
+    data: Buffer,
+    options: { contentType: string },
+  ) => Promise<void>;
+  read: (key: string) => Promise<Buffer | null>;
+  stream: (key: string) => Promise<ReadableStream<Uint8Array> | null>;
+  remove: (key: string) => Promise<void>;
+};
+
+export type StoredAttachment = {
+  storageKey: string;
+  checksum: string;
+};
+
+const isMissingFileError = (error: unknown) =>
+  Boolean(
+    error &&
+      typeof error === "object" &&
+      "code" in error &&
+      (error as { code?: string }).code === "ENOENT",
+  );
+
+const createLocalStorage = (rootDir: string): AttachmentStorage => {
+  const root = path.resolve(rootDir);
+
+  const resolveKey = (key: string) => {
+    const resolved = path.resolve(root, key);
+    if (!resolved.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`Attachment key escapes storage root: ${key}`);
+    }
+    return resolved;
+  };
+
+  return {
+    driver: ATTACHMENT_STORAGE_DRIVER.LOCAL,
+    put: async (key, data) => {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+    read: async (key) => {
+      try {
+        return await readFile(resolveKey(key));
+      } catch (error) {
+        if (isMissingFileError(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    stream: async (key) => {
+      const filePath = resolveKey(key);
+      try {
+        await stat(filePath);
+      } catch (error) {
+        if (isMissingFileError(error)) {
+          return null;
+        }
+        throw error;
+      }
+      return Readable.toWeb(
+        createReadStream(filePath),
+      ) as ReadableStream<Uint8Array>;
+    },
+    remove: async (key) => {
+      await rm(resolveKey(key), { force: true });
+    },
+  };
+};
+
+const createS3Storage = ({
+  bucket,
+  region,
+  endpoint,
+  accessKeyId,
+  secretAccessKey,
+  forcePathStyle,
+}: {
+  bucket: string;
+  region: string;
+  endpoint: string | undefined;
+  accessKeyId: string | undefined;
+  secretAccessKey: string | undefined;
+  forcePathStyle: boolean;
+}): AttachmentStorage => {
+  const client = new S3Client({
+    region,
+    endpoint,
+    forcePathStyle,
+    ...(accessKeyId && secretAccessKey
+      ? { credentials: { accessKeyId, secretAccessKey } }
+      : {}),
+  });
+
+  const getObject = async (key: string) => {
+    try {
+      return await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  return {
+    driver: ATTACHMENT_STORAGE_DRIVER.S3,
+    put: async (key, data, { contentType }) => {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: data,
+          ContentType: contentType,
+        }),
+      );
+    },
+    read: async (key) => {
+      const object = await getObject(key);
+      if (!object?.Body) {
+        return null;
+      }
+      return Buffer.from(await object.Body.transformToByteArray());
+    },
+    stream: async (key) => {
+      const object = await getObject(key);
+      if (!object?.Body) {
+        return null;
+      }
+      return object.Body.transformToWebStream() as ReadableStream<Uint8Array>;
+    },
+    remove: async (key) => {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+};
+
+const buildStorageFromEnv = (): AttachmentStorage => {
+  const driver = (
+    process.env.ATTACHMENT_STORAGE_DRIVER ?? ATTACHMENT_STORAGE_DRIVER.LOCAL
+  ).toLowerCase();
+
+  if (driver === ATTACHMENT_STORAGE_DRIVER.S3) {
+    const bucket = process.env.ATTACHMENT_S3_BUCKET;
+    if (!bucket) {
+      throw new Error(
+        "ATTACHMENT_S3_BUCKET must be set when ATTACHMENT_STORAGE_DRIVER is s3.",
+      );
+    }
+
+    return createS3Storage({
+      bucket,
+      region: process.env.ATTACHMENT_S3_REGION || "us-east-1",
+      endpoint: process.env.ATTACHMENT_S3_ENDPOINT || undefined,
+      accessKeyId: process.env.ATTACHMENT_S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.ATTACHMENT_S3_SECRET_ACCESS_KEY,
+      // MinIO and most self-hosted S3 stand-ins only support path-style URLs.
+      forcePathStyle: process.env.ATTACHMENT_S3_FORCE_PATH_STYLE === "true",
+    });
+  }
+
+  if (driver !== ATTACHMENT_STORAGE_DRIVER.LOCAL) {
+    throw new Error(`Unknown ATTACHMENT_STORAGE_DRIVER "${driver}".`);
+  }
+
+  return createLocalStorage(
+    process.env.ATTACHMENT_STORAGE_DIR || path.join("storage", "attachments"),
+  );
+};
+
+let storage: AttachmentStorage | null = null;
+
+export const getAttachmentStorage = () => {
+  if (!storage) {
+    storage = buildStorageFromEnv();
+  }
+  return storage;
+};
+
+export const computeChecksum = (data: Buffer) =>
+  createHash("sha256").update(data).digest("hex");
+
+const sanitizeKeySegment = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[^a-zA-Z0-9._-]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80) || "attachment";
+
+export const buildAttachmentKey = (shop: string, filename: string) =>
+  [
+    sanitizeKeySegment(shop),
+    new Date().toISOString().slice(0, 7),
+    `${randomUUID()}-${sanitizeKeySegment(filename)}`,
+  ].join("/");
+
+export const storeAttachment = async ({
+  shop,
+  filename,
+  mimeType,
+  data,
+}: {
+  shop: string;
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+}): Promise<StoredAttachment> => {
+  const storageKey = buildAttachmentKey(shop, filename);
+  await getAttachmentStorage().put(storageKey, data, { contentType: mimeType });
+
+  return {
+    storageKey,
+    checksum: computeChecksum(data),
+  };
+};
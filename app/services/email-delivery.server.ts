@@ -0,0 +1,233 @@
+import prisma from "../db.server";
+import { ENQUIRY_EMAIL_RECIPIENT } from "./enquiry-email.server";
+import {
+  ENQUIRY_EVENT_TYPE,
+  recordEnquiryEvent,
+} from "./enquiry-events.server";
+import {
+  claimWebhookToken,
+  verifyMailgunSignature,
+} from "./inbound-email.server";
+
+export const EMAIL_DELIVERY_STATUS = {
+  DELIVERED: "DELIVERED",
+  OPENED: "OPENED",
+  // Temporary failure; the provider keeps retrying.
+  DEFERRED: "DEFERRED",
+  BOUNCED: "BOUNCED",
+  COMPLAINED: "COMPLAINED",
+} as const;
+export type EmailDeliveryStatus =
+  (typeof EMAIL_DELIVERY_STATUS)[keyof typeof EMAIL_DELIVERY_STATUS];
+
+// Events can arrive out of order, so a message only moves forward: a late
+// "delayed" never replaces "delivered", and nothing replaces a bounce. A
+// status the row already has is not recorded again.
+const DELIVERY_RANK: Record<EmailDeliveryStatus, number> = {
+  DEFERRED: 0,
+  DELIVERED: 1,
+  OPENED: 2,
+  BOUNCED: 3,
+  COMPLAINED: 3,
+};
+
+export type DeliveryEvent = {
+  status: EmailDeliveryStatus;
+  providerId: string;
+  recipient: string | null;
+  detail: string | null;
+  occurredAt: Date;
+};
+
+/**
+ * Message ids without angle brackets. Mailgun's send API returns
+ * `<id@domain>` but its events carry the bare id.
+ */
+export const normalizeMessageId = (value: string) =>
+  value.trim().replace(/^<+|>+$/g, "");
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+
+const asString = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+const toDeliveryStatus = (
+  event: string,
+  severity: string | null,
+): EmailDeliveryStatus | null => {
+  switch (event) {
+    case "delivered":
+      return EMAIL_DELIVERY_STATUS.DELIVERED;
+    case "opened":
+      return EMAIL_DELIVERY_STATUS.OPENED;
+    case "complained":
+      return EMAIL_DELIVERY_STATUS.COMPLAINED;
+    case "permanent_fail":
+      return EMAIL_DELIVERY_STATUS.BOUNCED;
+    case "temporary_fail":
+      return EMAIL_DELIVERY_STATUS.DEFERRED;
+    case "failed":
+      return severity === "temporary"
+        ? EMAIL_DELIVERY_STATUS.DEFERRED
+        : EMAIL_DELIVERY_STATUS.BOUNCED;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Reads the `event-data` of a Mailgun webhook. Returns null for events this
+ * app does not track or payloads without a message id.
+ */
+export const parseMailgunEvent = (eventData: unknown): DeliveryEvent | null => {
+  const data = asRecord(eventData);
+  const headers = asRecord(asRecord(data.message).headers);
+  const deliveryStatus = asRecord(data["delivery-status"]);
+  const status = toDeliveryStatus(
+    asString(data.event) ?? "",
+    asString(data.severity),
+  );
+  const messageId = asString(headers["message-id"]);
+
+  if (!status || !messageId) {
+    return null;
+  }
+
+  const timestamp = Number(data.timestamp);
+
+  return {
+    status,
+    providerId: normalizeMessageId(messageId),
+    recipient: asString(data.recipient)?.toLowerCase() ?? null,
+    detail:
+      asString(deliveryStatus.description) ??
+      asString(deliveryStatus.message) ??
+      asString(data.reason),
+    occurredAt: Number.isFinite(timestamp)
+      ? new Date(timestamp * 1000)
+      : new Date(),
+  };
+};
+
+/**
+ * Records a delivery event on the email log rows sent with its message id.
+ * A hard bounce of a customer email also flags the enquiry and adds a
+ * timeline entry. Returns how many log rows changed.
+ */
+export const recordDeliveryEvent = async (event: DeliveryEvent) => {
+  const candidates = await prisma.enquiryEmailLog.findMany({
+    where: {
+      providerId: { in: [event.providerId, `<${event.providerId}>`] },
+    },
+    select: {
+      id: true,
+      enquiryId: true,
+      recipient: true,
+      recipientType: true,
+      deliveryStatus: true,
+    },
+  });
+  const matches = candidates.filter(
+    (log) =>
+      (!event.recipient || log.recipient.toLowerCase() === event.recipient) &&
+      (!log.deliveryStatus ||
+        DELIVERY_RANK[event.status] >
+          (DELIVERY_RANK[log.deliveryStatus as EmailDeliveryStatus] ?? 0)),
+  );
+
+  if (!matches.length) {
+    return 0;
+  }
+
+  const bounced =
+    event.status === EMAIL_DELIVERY_STATUS.BOUNCED
+      ? matches.filter(
+          (log) => log.recipientType === ENQUIRY_EMAIL_RECIPIENT.CUSTOMER,
+        )
+      : [];
+
+  await prisma.$transaction([
+    prisma.enquiryEmailLog.updateMany({
+      where: { id: { in: matches.map((log) => log.id) } },
+      data: {
+        deliveryStatus: event.status,
+        deliveryDetail: event.detail,
+        deliveryUpdatedAt: event.occurredAt,
+      },
+    }),
+    ...bounced.flatMap((log) => [
+      prisma.enquiry.update({
+        where: { id: log.enquiryId },
+        data: {
+          customerEmailBouncedAt: event.occurredAt,
+          customerEmailBounce: event.detail,
+        },
+      }),
+      recordEnquiryEvent({
+        enquiryId: log.enquiryId,
+        type: ENQUIRY_EVENT_TYPE.EMAIL_BOUNCED,
+        note: event.detail,
+        metadata: { recipient: log.recipient },
+      }),
+    ]),
+  ]);
+
+  return matches.length;
+};
+
+export type DeliveryWebhookResult =
+  | { outcome: "recorded"; updated: number }
+  | { outcome: "ignored" }
+  | { outcome: "rejected"; status: number; error: string };
+
+/**
+ * Verifies a Mailgun event webhook (JSON with `signature` and `event-data`)
+ * and records it. Each signed token is accepted once, so a replayed event is
+ * rejected. Events for messages this app did not send are ignored
+ * rather than rejected so Mailgun does not keep retrying them.
+ */
+export const handleDeliveryWebhook = async (
+  body: unknown,
+  { now }: { now?: number } = {},
+): Promise<DeliveryWebhookResult> => {
+  const signingKey = process.env.MAILGUN_WEBHOOK_SIGNING_KEY;
+  if (!signingKey) {
+    return {
+      outcome: "rejected",
+      status: 503,
+      error: "MAILGUN_WEBHOOK_SIGNING_KEY is not configured",
+    };
+  }
+
+  const payload = asRecord(body);
+  const signature = asRecord(payload.signature);
+  const token = asString(signature.token) ?? "";
+  const signed = verifyMailgunSignature(
+    {
+      timestamp: String(signature.timestamp ?? ""),
+      token,
+      signature: asString(signature.signature) ?? "",
+    },
+    { signingKey, now },
+  );
+  if (!signed) {
+    return { outcome: "rejected", status: 401, error: "Invalid signature" };
+  }
+
+  if (!(await claimWebhookToken(token))) {
+    return {
+      outcome: "rejected",
+      status: 406,
+      error: "Webhook token was already used",
+    };
+  }
+
+  const event = parseMailgunEvent(payload["event-data"]);
+  if (!event) {
+    return { outcome: "ignored" };
+  }
+
+  const updated = await recordDeliveryEvent(event);
+  return updated ? { outcome: "recorded", updated } : { outcome: "ignored" };
+};
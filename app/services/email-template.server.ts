@@ -0,0 +1,185 @@
+import type { EmailTemplate } from "@prisma/client";
+
+import prisma from "../db.server";
+
+export type EmailTemplateSettings = Pick<
+  EmailTemplate,
+  | "brandName"
+  | "logoUrl"
+  | "accentColor"
+  | "backgroundColor"
+  | "panelColor"
+  | "textColor"
+  | "footerText"
+  | "footerUrl"
+  | "subjectPattern"
+  | "staffIntro"
+  | "customerIntro"
+>;
+
+/** Variables available to the subject pattern and intro copy as `{{name}}`. */
+export const TEMPLATE_PLACEHOLDERS = [
+  { key: "name", description: "Customer's full name" },
+  { key: "firstName", description: "Customer's first name" },
+  { key: "lastName", description: "Customer's last name" },
+  { key: "email", description: "Customer's email address" },
+  { key: "companyName", description: "Customer's company" },
+  { key: "productTitle", description: "Product the enquiry is about" },
+  { key: "productReference", description: "Product SKU or reference" },
+  { key: "quantity", description: "Quantity requested" },
+  { key: "deliveryDeadline", description: "Date required" },
+  { key: "requestType", description: "Type of request, such as Free sample" },
+  {
+    key: "subjectPrefix",
+    description: "Subject prefix for the request type, such as Sample Request",
+  },
+  {
+    key: "requestCopy",
+    description: "Staff or customer wording for the request type",
+  },
+  { key: "brandName", description: "Brand name from this template" },
+] as const;
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number]["key"];
+
+export type TemplateVariables = Record<TemplatePlaceholder, string>;
+
+export const DEFAULT_CUSTOMER_INTRO = "Thanks, {{firstName}}. {{requestCopy}}";
+
+const shopDisplayName = (shop: string) =>
+  shop.replace(/\.myshopify\.com$/i, "").replace(/[-_]+/g, " ");
+
+export const getDefaultEmailTemplate = (
+  shop: string,
+): EmailTemplateSettings => ({
+  brandName: shopDisplayName(shop),
+  logoUrl: null,
+  accentColor: "#2c6ecb",
+  backgroundColor: "#f4f6f8",
+  panelColor: "#ffffff",
+  textColor: "#202223",
+  footerText: null,
+  footerUrl: null,
+  subjectPattern: "[{{subjectPrefix}}] {{name}}",
+  staffIntro:
+    "{{requestCopy}} Please review the details below and follow up with the customer.",
+  customerIntro: DEFAULT_CUSTOMER_INTRO,
+});
+
+export const getEmailTemplate = async (
+  shop: string,
+): Promise<EmailTemplateSettings> => {
+  const stored = await prisma.emailTemplate.findUnique({
+    where: { shop },
+    omit: { id: true, shop: true, createdAt: true, updatedAt: true },
+  });
+
+  return stored ?? getDefaultEmailTemplate(shop);
+};
+
+/** Replaces `{{placeholder}}` tokens; unknown tokens are left as typed. */
+export const renderTemplateString = (
+  pattern: string,
+  variables: Partial<Record<string, string>>,
+) =>
+  pattern.replace(
+    /\{\{\s*([a-zA-Z]+)\s*\}\}/g,
+    (match, key: string) => variables[key] ?? match,
+  );
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const TEXT_LIMITS = {
+  brandName: 120,
+  subjectPattern: 200,
+  staffIntro: 2000,
+  customerIntro: 2000,
+  footerText: 500,
+} as const;
+
+const readText = (formData: FormData, name: string) => {
+  const value = formData.get(name);
+  return typeof value === "string" ? value.trim() : "";
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reads the editor form. Returns the settings, or an error per invalid field
+ * keyed by the form field name.
+ */
+export const parseEmailTemplateForm = (
+  formData: FormData,
+):
+  | { settings: EmailTemplateSettings; errors?: undefined }
+  | { settings?: undefined; errors: Record<string, string> } => {
+  const errors: Record<string, string> = {};
+
+  const settings: EmailTemplateSettings = {
+    brandName: readText(formData, "brandName"),
+    logoUrl: readText(formData, "logoUrl") || null,
+    accentColor: readText(formData, "accentColor"),
+    backgroundColor: readText(formData, "backgroundColor"),
+    panelColor: readText(formData, "panelColor"),
+    textColor: readText(formData, "textColor"),
+    footerText: readText(formData, "footerText") || null,
+    footerUrl: readText(formData, "footerUrl") || null,
+    subjectPattern: readText(formData, "subjectPattern"),
+    staffIntro: readText(formData, "staffIntro"),
+    customerIntro: readText(formData, "customerIntro"),
+  };
+
+  for (const field of [
+    "brandName",
+    "subjectPattern",
+    "staffIntro",
+    "customerIntro",
+  ] as const) {
+    if (!settings[field]) {
+      errors[field] = "Required";
+    }
+  }
+
+  for (const [field, limit] of Object.entries(TEXT_LIMITS)) {
+    const value = settings[field as keyof typeof TEXT_LIMITS];
+    if (value && value.length > limit) {
+      errors[field] = `Keep this under ${limit} characters`;
+    }
+  }
+
+  for (const field of [
+    "accentColor",
+    "backgroundColor",
+    "panelColor",
+    "textColor",
+  ] as const) {
+    if (!HEX_COLOR_PATTERN.test(settings[field])) {
+      errors[field] = "Use a hex colour such as #2c6ecb";
+    }
+  }
+
+  for (const field of ["logoUrl", "footerUrl"] as const) {
+    const value = settings[field];
+    if (value && !isHttpUrl(value)) {
+      errors[field] = "Use a full http(s) URL";
+    }
+  }
+
+  return Object.keys(errors).length ? { errors } : { settings };
+};
+
+export const saveEmailTemplate = (
+  shop: string,
+  settings: EmailTemplateSettings,
+) =>
+  prisma.emailTemplate.upsert({
+    where: { shop },
+    create: { shop, ...settings },
+    update: settings,
+  });
@@ -0,0 +1,250 @@
+import {
+  REQUEST_TYPES,
+  type RequestTypeValue,
+} from "./enquiry-request-types.server";
+
+export type EmailStrings = {
+  sections: {
+    product: string;
+    decoration: string;
+    customer: string;
+    additional: string;
+    other: string;
+  };
+  labels: {
+    productName: string;
+    productSku: string;
+    requiredDate: string;
+    quantity: string;
+    productColour: string;
+    printPosition: string;
+    printColours: string;
+    pantoneReference: string;
+    artworkNotes: string;
+    name: string;
+    email: string;
+    phone: string;
+    company: string;
+    source: string;
+    workedWithBefore: string;
+    notes: string;
+    attachments: string;
+  };
+  workedWithBefore: Record<"yes" | "no" | "not_sure", string>;
+  previouslyWorkedWithUs: string;
+  noAttachment: string;
+  // Replaces the template's default customer intro; custom intros are sent
+  // as written.
+  customerIntro: string;
+  requestTypes: Record<
+    RequestTypeValue,
+    { label: string; subjectPrefix: string; customerCopy: string }
+  >;
+};
+
+const en: EmailStrings = {
+  sections: {
+    product: "Product Information",
+    decoration: "Decoration Details",
+    customer: "Customer Information",
+    additional: "Additional Information",
+    other: "Other Information",
+  },
+  labels: {
+    productName: "Product Name",
+    productSku: "Product SKU",
+    requiredDate: "Required Date",
+    quantity: "Quantity for Quote",
+    productColour: "Product Colour",
+    printPosition: "Print Position",
+    printColours: "Print Colours",
+    pantoneReference: "Pantone Reference",
+    artworkNotes: "Artwork Notes",
+    name: "Name",
+    email: "Email",
+    phone: "Phone",
+    company: "Company",
+    source: "Source",
+    workedWithBefore: "Worked with us before",
+    notes: "Notes",
+    attachments: "Attachments",
+  },
+  workedWithBefore: { yes: "Yes", no: "No", not_sure: "I'm not sure" },
+  previouslyWorkedWithUs: "Previously worked with us",
+  noAttachment: "No attachment",
+  customerIntro: "Thanks, {{firstName}}. {{requestCopy}}",
+  requestTypes: Object.fromEntries(
+    REQUEST_TYPES.map((type) => [
+      type.value,
+      {
+        label: type.label,
+        subjectPrefix: type.subjectPrefix,
+        customerCopy: type.customerCopy,
+      },
+    ]),
+  ) as EmailStrings["requestTypes"],
+};
+
+const fr: EmailStrings = {
+  sections: {
+    product: "Informations produit",
+    decoration: "Détails du marquage",
+    customer: "Vos coordonnées",
+    additional: "Informations complémentaires",
+    other: "Autres informations",
+  },
+  labels: {
+    productName: "Produit",
+    productSku: "Référence produit",
+    requiredDate: "Date souhaitée",
+    quantity: "Quantité à chiffrer",
+    productColour: "Couleur du produit",
+    printPosition: "Emplacement du marquage",
+    printColours: "Couleurs d'impression",
+    pantoneReference: "Référence Pantone",
+    artworkNotes: "Remarques sur le visuel",
+    name: "Nom",
+    email: "E-mail",
+    phone: "Téléphone",
+    company: "Société",
+    source: "Type de demande",
+    workedWithBefore: "Déjà client",
+    notes: "Remarques",
+    attachments: "Pièces jointes",
+  },
+  workedWithBefore: { yes: "Oui", no: "Non", not_sure: "Je ne sais pas" },
+  previouslyWorkedWithUs: "Déjà client",
+  noAttachment: "Aucune pièce jointe",
+  customerIntro: "Merci, {{firstName}}. {{requestCopy}}",
+  requestTypes: {
+    visual_enquiry: {
+      label: "Visuel gratuit",
+      subjectPrefix: "Visuel gratuit",
+      customerCopy:
+        "Nous avons bien reçu votre demande de visuel gratuit. Notre équipe graphique vous enverra un visuel très prochainement.",
+    },
+    quote: {
+      label: "Devis",
+      subjectPrefix: "Demande de devis",
+      customerCopy:
+        "Nous avons bien reçu votre demande de devis et vous enverrons une proposition dans les meilleurs délais.",
+    },
+    sample: {
+      label: "Échantillon gratuit",
+      subjectPrefix: "Demande d'échantillon",
+      customerCopy:
+        "Nous avons bien reçu votre demande d'échantillon et vous confirmerons prochainement les détails de livraison.",
+    },
+    buy: {
+      label: "Demande d'achat",
+      subjectPrefix: "Demande d'achat",
+      customerCopy:
+        "Nous avons bien reçu votre demande d'achat et vous contacterons pour confirmer votre commande.",
+    },
+  },
+};
+
+const de: EmailStrings = {
+  sections: {
+    product: "Produktinformationen",
+    decoration: "Veredelungsdetails",
+    customer: "Ihre Angaben",
+    additional: "Weitere Angaben",
+    other: "Sonstige Informationen",
+  },
+  labels: {
+    productName: "Produkt",
+    productSku: "Artikelnummer",
+    requiredDate: "Wunschtermin",
+    quantity: "Menge für das Angebot",
+    productColour: "Produktfarbe",
+    printPosition: "Druckposition",
+    printColours: "Druckfarben",
+    pantoneReference: "Pantone-Referenz",
+    artworkNotes: "Hinweise zum Motiv",
+    name: "Name",
+    email: "E-Mail",
+    phone: "Telefon",
+    company: "Firma",
+    source: "Art der Anfrage",
+    workedWithBefore: "Bereits Kunde",
+    notes: "Anmerkungen",
+    attachments: "Anhänge",
+  },
+  workedWithBefore: { yes: "Ja", no: "Nein", not_sure: "Weiß nicht" },
+  previouslyWorkedWithUs: "Bereits Kunde",
+  noAttachment: "Kein Anhang",
+  customerIntro: "Vielen Dank, {{firstName}}. {{requestCopy}}",
+  requestTypes: {
+    visual_enquiry: {
+      label: "Kostenlose Visualisierung",
+      subjectPrefix: "Kostenlose Visualisierung",
+      customerCopy:
+        "Wir haben Ihre Anfrage für eine kostenlose Visualisierung erhalten. Unser Designteam schickt Ihnen in Kürze einen Entwurf.",
+    },
+    quote: {
+      label: "Angebot",
+      subjectPrefix: "Angebotsanfrage",
+      customerCopy:
+        "Wir haben Ihre Angebotsanfrage erhalten und senden Ihnen so schnell wie möglich ein Angebot.",
+    },
+    sample: {
+      label: "Kostenloses Muster",
+      subjectPrefix: "Musteranfrage",
+      customerCopy:
+        "Wir haben Ihre Musteranfrage erhalten und bestätigen Ihnen in Kürze die Lieferdetails.",
+    },
+    buy: {
+      label: "Kaufanfrage",
+      subjectPrefix: "Kaufanfrage",
+      customerCopy:
+        "Wir haben Ihre Kaufanfrage erhalten und melden uns, um Ihre Bestellung zu bestätigen.",
+    },
+  },
+};
+
+const EMAIL_BUNDLES: Record<string, EmailStrings> = { en, fr, de };
+
+export const DEFAULT_EMAIL_LOCALE = "en-GB";
+
+export type EmailLocalization = {
+  // Used for Intl date and number formatting.
+  locale: string;
+  strings: EmailStrings;
+};
+
+/**
+ * Canonicalises a storefront locale such as `fr` or `pt_BR`. Returns null
+ * for anything that is not a valid BCP 47 tag.
+ */
+export const normalizeLocale = (value: string | null | undefined) => {
+  const candidate = value?.trim().replace(/_/g, "-");
+  if (!candidate || candidate.length > 35) {
+    return null;
+  }
+
+  try {
+    return Intl.getCanonicalLocales(candidate)[0] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Picks the bundle for a locale by its language, falling back to English.
+ * Locales without a bundle are also formatted as English so the email reads
+ * consistently.
+ */
+export const resolveEmailLocalization = (
+  locale: string | null | undefined,
+): EmailLocalization => {
+  const normalized = normalizeLocale(locale);
+  const language = normalized?.split("-")[0].toLowerCase();
+  const strings = language ? EMAIL_BUNDLES[language] : undefined;
+
+  if (!normalized || !strings) {
+    return { locale: DEFAULT_EMAIL_LOCALE, strings: en };
+  }
+
+  return { locale: normalized, strings };
+};
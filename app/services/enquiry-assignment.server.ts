@@ -0,0 +1,65 @@
+import prisma from "../db.server";
+import { getStaffDirectory, type StaffMember } from "./staff-directory.server";
+
+export type AssignmentSettings = {
+  autoAssign: boolean;
+  lastAssigneeId: string | null;
+};
+
+export const getAssignmentSettings = async (
+  shop: string,
+): Promise<AssignmentSettings> => {
+  const settings = await prisma.shopSettings.findUnique({
+    where: { shop },
+    select: { autoAssign: true, lastAssigneeId: true },
+  });
+
+  return settings ?? { autoAssign: false, lastAssigneeId: null };
+};
+
+export const saveAutoAssign = (shop: string, autoAssign: boolean) =>
+  prisma.shopSettings.upsert({
+    where: { shop },
+    create: { shop, autoAssign },
+    update: { autoAssign },
+  });
+
+/** Enquiry columns for an assignee; null clears the assignment. */
+export const toAssigneeData = (member: StaffMember | null) => ({
+  assigneeId: member?.id ?? null,
+  assigneeName: member?.name ?? null,
+  assigneeEmail: member?.email ?? null,
+  assignedAt: member ? new Date() : null,
+});
+
+/**
+ * Picks the next staff member for a new enquiry when auto-assignment is on,
+ * cycling through the staff directory in name order. Staff without an email
+ * are skipped because they could not be notified. Returns null when
+ * auto-assignment is off or nobody is eligible.
+ */
+export const pickNextAssignee = async (shop: string) => {
+  const settings = await getAssignmentSettings(shop);
+  if (!settings.autoAssign) {
+    return null;
+  }
+
+  const candidates = (await getStaffDirectory(shop)).filter(
+    (member) => member.email,
+  );
+  if (!candidates.length) {
+    return null;
+  }
+
+  const lastIndex = candidates.findIndex(
+    (member) => member.id === settings.lastAssigneeId,
+  );
+  const next = candidates[(lastIndex + 1) % candidates.length];
+
+  await prisma.shopSettings.update({
+    where: { shop },
+    data: { lastAssigneeId: next.id },
+  });
+
+  return next;
+};
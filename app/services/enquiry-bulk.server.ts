@@ -0,0 +1,435 @@
+import type { Prisma } from "@prisma/client";
+
+import prisma from "../db.server";
+import { getAttachmentStorage } from "./attachment-storage.server";
+import { toAssigneeData } from "./enquiry-assignment.server";
+import {
+  ENQUIRY_EMAIL_RECIPIENT,
+  resolveEnquiryRecipients,
+} from "./enquiry-email.server";
+import {
+  ENQUIRY_EVENT_TYPE,
+  recordEnquiryEvent,
+  type EventActor,
+} from "./enquiry-events.server";
+import {
+  buildEnquiryWhere,
+  parseEnquiryFilters,
+} from "./enquiry-filters.server";
+import {
+  afterOutboxQueued,
+  markNoRecipients,
+  prepareOutboxMessages,
+} from "./enquiry-outbox.server";
+import { SEARCH_RESULT_LIMIT } from "./enquiry-search.server";
+import { checkTransition, type Workflow } from "./enquiry-workflow.server";
+import type { StaffMember } from "./staff-directory.server";
+
+// Keeps each bulk transaction to a size SQLite handles comfortably.
+export const BULK_SELECTION_LIMIT = 500;
+
+export type BulkFailure = { id: string; name: string; error: string };
+
+// `unchanged` counts targets that already matched, so nothing was written;
+// `emailed` the customer status emails queued.
+export type BulkOutcome = {
+  succeeded: number;
+  unchanged?: number;
+  emailed?: number;
+  failures: BulkFailure[];
+};
+
+const targetSelect = {
+  id: true,
+  name: true,
+  status: true,
+  statusNotes: true,
+  isSpam: true,
+  email: true,
+  customerEmailBouncedAt: true,
+  assigneeId: true,
+  assigneeEmail: true,
+} satisfies Prisma.EnquirySelect;
+
+type BulkTarget = Prisma.EnquiryGetPayload<{ select: typeof targetSelect }>;
+
+const readSelectedIds = (formData: FormData) =>
+  Array.from(
+    new Set(
+      formData
+        .getAll("enquiryId")
+        .flatMap((value) =>
+          typeof value === "string" && value.trim() ? [value.trim()] : [],
+        ),
+    ),
+  );
+
+/**
+ * The enquiries a bulk action applies to: the ticked `enquiryId` values, or
+ * with `selection=all`, everything matching the dashboard filters passed in
+ * `filters` as a query string. A search with more matches than the index
+ * returns is refused, since the action would only reach some of them.
+ */
+export const readBulkWhere = async (
+  shop: string,
+  formData: FormData,
+  { workflow, actor }: { workflow: Workflow; actor: EventActor },
+): Promise<{ where: Prisma.EnquiryWhereInput } | { error: string }> => {
+  if (formData.get("selection") === "all") {
+    const rawFilters = formData.get("filters");
+    const filters = parseEnquiryFilters(
+      new URLSearchParams(typeof rawFilters === "string" ? rawFilters : ""),
+      { workflow, actor },
+    );
+    const { where, searchTruncated } = await buildEnquiryWhere(
+      shop,
+      filters,
+      actor,
+    );
+    if (searchTruncated) {
+      return {
+        error: `The search matches more than ${SEARCH_RESULT_LIMIT} enquiries; narrow it first`,
+      } as const;
+    }
+    return { where } as const;
+  }
+
+  const ids = readSelectedIds(formData);
+  if (!ids.length) {
+    return { error: "Select at least one enquiry" } as const;
+  }
+  return { where: { shop, id: { in: ids } } } as const;
+};
+
+/**
+ * Loads the selected enquiries. Ticked enquiries that no longer exist are
+ * reported as failures rather than silently dropped.
+ */
+export const resolveBulkSelection = async (
+  shop: string,
+  formData: FormData,
+  context: { workflow: Workflow; actor: EventActor },
+) => {
+  const bulkWhere = await readBulkWhere(shop, formData, context);
+  if ("error" in bulkWhere) {
+    return bulkWhere;
+  }
+
+  const targets = await prisma.enquiry.findMany({
+    where: bulkWhere.where,
+    select: targetSelect,
+    orderBy: { createdAt: "desc" },
+    take: BULK_SELECTION_LIMIT + 1,
+  });
+
+  if (targets.length > BULK_SELECTION_LIMIT) {
+    return {
+      error: `Bulk actions work on up to ${BULK_SELECTION_LIMIT} enquiries at a time; narrow the filters first`,
+    } as const;
+  }
+
+  const found = new Set(targets.map((target) => target.id));
+  const missing: BulkFailure[] =
+    formData.get("selection") === "all"
+      ? []
+      : readSelectedIds(formData)
+          .filter((id) => !found.has(id))
+          .map((id) => ({ id, name: id, error: "Enquiry not found" }));
+
+  return { targets, missing } as const;
+};
+
+/**
+ * Moves every target to `status`, checking each move against the workflow.
+ * A shared `note` replaces the status notes; without one, notes are kept.
+ * With `emailCustomers`, the status email is queued in the same transaction
+ * for each enquiry that moved, as the single-enquiry change does once staff
+ * confirm it. Spam and bounced addresses are skipped.
+ */
+export const bulkChangeStatus = async ({
+  targets,
+  workflow,
+  status,
+  note,
+  reason,
+  emailCustomers,
+  actor,
+}: {
+  targets: BulkTarget[];
+  workflow: Workflow;
+  status: string;
+  note: string | null;
+  reason: string | null;
+  emailCustomers: boolean;
+  actor: EventActor;
+}): Promise<BulkOutcome> => {
+  const failures: BulkFailure[] = [];
+  const changes: BulkTarget[] = [];
+
+  for (const target of targets) {
+    const error = checkTransition(workflow, target.status, status, reason);
+    if (error) {
+      failures.push({ id: target.id, name: target.name, error });
+    } else if (
+      target.status !== status ||
+      (note !== null && note !== target.statusNotes)
+    ) {
+      changes.push(target);
+    }
+  }
+
+  const emailed = emailCustomers
+    ? changes.filter(
+        (target) =>
+          target.status !== status &&
+          !target.isSpam &&
+          !target.customerEmailBouncedAt,
+      )
+    : [];
+  const outbox: Prisma.PrismaPromise<unknown>[] = [];
+  for (const target of emailed) {
+    const { operations } = await prepareOutboxMessages(
+      target.id,
+      [
+        {
+          email: target.email,
+          recipientType: ENQUIRY_EMAIL_RECIPIENT.CUSTOMER,
+        },
+      ],
+      { statusKey: status },
+    );
+    outbox.push(...operations);
+  }
+
+  const now = new Date();
+
+  await prisma.$transaction([
+    ...changes.flatMap((target) => {
+      const statusChanged = target.status !== status;
+      return [
+        prisma.enquiry.update({
+          where: { id: target.id },
+          data: {
+            status,
+            ...(note !== null ? { statusNotes: note } : {}),
+            ...(statusChanged ? { statusUpdatedAt: now } : {}),
+          },
+        }),
+        recordEnquiryEvent({
+          enquiryId: target.id,
+          type: statusChanged
+            ? ENQUIRY_EVENT_TYPE.STATUS_CHANGED
+            : ENQUIRY_EVENT_TYPE.NOTE_UPDATED,
+          actor,
+          fromStatus: target.status,
+          toStatus: status,
+          note: note ?? target.statusNotes,
+          metadata: {
+            bulk: true,
+            ...(statusChanged && reason ? { reason } : {}),
+          },
+        }),
+      ];
+    }),
+    ...outbox,
+  ]);
+
+  if (emailed.length) {
+    await afterOutboxQueued(emailed.map((target) => target.id));
+  }
+
+  return {
+    succeeded: changes.length,
+    unchanged: targets.length - failures.length - changes.length,
+    emailed: emailed.length,
+    failures,
+  };
+};
+
+/**
+ * Assigns every target to `assignee`, or unassigns them when it is null.
+ * The assignee is sent the staff notification for each enquiry that is not
+ * spam, unless they assigned the enquiries to themselves. The notifications
+ * are queued in the same transaction as the assignments.
+ */
+export const bulkAssign = async ({
+  targets,
+  assignee,
+  actor,
+}: {
+  targets: BulkTarget[];
+  assignee: StaffMember | null;
+  actor: EventActor;
+}): Promise<BulkOutcome> => {
+  const changes = targets.filter(
+    (target) => target.assigneeId !== (assignee?.id ?? null),
+  );
+
+  const notifyEmail =
+    assignee && assignee.id !== actor?.id ? assignee.email : null;
+  const notified = notifyEmail
+    ? changes.filter((target) => !target.isSpam)
+    : [];
+  const outbox: Prisma.PrismaPromise<unknown>[] = [];
+  for (const target of notified) {
+    const { operations } = await prepareOutboxMessages(target.id, [
+      {
+        email: notifyEmail as string,
+        recipientType: ENQUIRY_EMAIL_RECIPIENT.STAFF,
+      },
+    ]);
+    outbox.push(...operations);
+  }
+
+  await prisma.$transaction([
+    ...changes.flatMap((target) => [
+      prisma.enquiry.update({
+        where: { id: target.id },
+        data: toAssigneeData(assignee),
+      }),
+      recordEnquiryEvent({
+        enquiryId: target.id,
+        type: ENQUIRY_EVENT_TYPE.ASSIGNED,
+        actor,
+        metadata: assignee
+          ? { assigneeId: assignee.id, assigneeName: assignee.name, bulk: true }
+          : { bulk: true },
+      }),
+    ]),
+    ...outbox,
+  ]);
+
+  if (notified.length) {
+    await afterOutboxQueued(notified.map((target) => target.id));
+  }
+
+  return {
+    succeeded: changes.length,
+    unchanged: targets.length - changes.length,
+    failures: [],
+  };
+};
+
+/**
+ * Queues the enquiry notification again for every recipient of each target,
+ * with the RESEND_REQUESTED events, in one transaction. Spam is skipped. The
+ * outbox worker sends the messages in the background.
+ */
+export const bulkResend = async ({
+  targets,
+  actor,
+}: {
+  targets: BulkTarget[];
+  actor: EventActor;
+}): Promise<BulkOutcome> => {
+  const failures: BulkFailure[] = [];
+  const queued: string[] = [];
+  const operations: Prisma.PrismaPromise<unknown>[] = [];
+
+  for (const target of targets) {
+    if (target.isSpam) {
+      failures.push({
+        id: target.id,
+        name: target.name,
+        error: "Release the enquiry from spam before emailing it",
+      });
+      continue;
+    }
+
+    const recipients = resolveEnquiryRecipients(target);
+    if (!recipients.length) {
+      operations.push(markNoRecipients(target.id));
+      failures.push({
+        id: target.id,
+        name: target.name,
+        error: "No email recipients are configured",
+      });
+      continue;
+    }
+
+    const outbox = await prepareOutboxMessages(target.id, recipients);
+    operations.push(
+      ...outbox.operations,
+      recordEnquiryEvent({
+        enquiryId: target.id,
+        type: ENQUIRY_EVENT_TYPE.RESEND_REQUESTED,
+        actor,
+        metadata: { scope: "all", bulk: true },
+      }),
+    );
+    queued.push(target.id);
+  }
+
+  await prisma.$transaction(operations);
+
+  if (queued.length) {
+    await afterOutboxQueued(queued);
+  }
+
+  return { succeeded: queued.length, failures };
+};
+
+/**
+ * Deletes the targets with their comments, events and email history, then
+ * removes their files from attachment storage. Files that cannot be removed
+ * are logged; the enquiries are gone either way.
+ */
+export const bulkDelete = async ({
+  targets,
+}: {
+  targets: BulkTarget[];
+}): Promise<BulkOutcome> => {
+  const ids = targets.map((target) => target.id);
+  const attachments = await prisma.enquiryAttachment.findMany({
+    where: { enquiryId: { in: ids } },
+    select: { storageKey: true },
+  });
+
+  await prisma.$transaction([
+    prisma.enquiry.deleteMany({ where: { id: { in: ids } } }),
+  ]);
+
+  const storage = getAttachmentStorage();
+  for (const attachment of attachments) {
+    try {
+      await storage.remove(attachment.storageKey);
+    } catch (error) {
+      console.error("Failed to remove attachment of deleted enquiry", {
+        storageKey: attachment.storageKey,
+        error,
+      });
+    }
+  }
+
+  return { succeeded: ids.length, failures: [] };
+};
+
+const MAX_LISTED_FAILURES = 3;
+
+/**
+ * Toast text for a bulk action, with how many targets needed no change and
+ * the first few rows that failed.
+ */
+export const describeBulkOutcome = (
+  { succeeded, unchanged = 0, failures }: BulkOutcome,
+  done: (count: number) => string,
+) => {
+  const summary = [
+    ...(succeeded || !unchanged ? [done(succeeded)] : []),
+    ...(unchanged ? [`${unchanged} already up to date`] : []),
+  ].join("; ");
+  if (!failures.length) {
+    return summary;
+  }
+
+  const listed = failures
+    .slice(0, MAX_LISTED_FAILURES)
+    .map((failure) => `${failure.name}: ${failure.error}`)
+    .join("; ");
+  const more =
+    failures.length > MAX_LISTED_FAILURES
+      ? ` and ${failures.length - MAX_LISTED_FAILURES} more`
+      : "";
+
+  return `${summary}. ${failures.length} failed (${listed}${more})`;
+};
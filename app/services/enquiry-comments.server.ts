@@ -0,0 +1,129 @@
+import prisma from "../db.server";
+import { getAttachmentStorage } from "./attachment-storage.server";
+import {
+  ENQUIRY_EMAIL_RECIPIENT,
+  escapeHtml,
+  getDashboardUrl,
+  type EnquiryEmailRecipient,
+} from "./enquiry-email.server";
+import type { EventActor } from "./enquiry-events.server";
+import type { StaffMember } from "./staff-directory.server";
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+export const COMMENT_SOURCE = {
+  STAFF: "STAFF",
+  CUSTOMER_EMAIL: "CUSTOMER_EMAIL",
+} as const;
+export type CommentSource = (typeof COMMENT_SOURCE)[keyof typeof COMMENT_SOURCE];
+
+// `@jane.doe` at the start of the text or after a space or punctuation, but
+// not inside an email address. Trailing dots are sentence punctuation.
+const MENTION_PATTERN = /(^|[^\w.@])@([a-z0-9](?:[a-z0-9.]*[a-z0-9])?)/gi;
+
+/** Staff mentioned in a comment, in the order they first appear. */
+export const findMentions = (body: string, directory: StaffMember[]) => {
+  const byHandle = new Map(directory.map((member) => [member.handle, member]));
+  const mentioned = new Map<string, StaffMember>();
+
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const member = byHandle.get(match[2].toLowerCase());
+    if (member) {
+      mentioned.set(member.id, member);
+    }
+  }
+
+  return Array.from(mentioned.values());
+};
+
+export const parseMentionIds = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === "string")
+    : [];
+
+/**
+ * The mentioned staff members to email about a comment: everyone with an
+ * email address except the author.
+ */
+export const getMentionRecipients = (
+  mentioned: StaffMember[],
+  author: EventActor,
+): EnquiryEmailRecipient[] =>
+  mentioned.flatMap((member) =>
+    member.email && member.id !== author?.id
+      ? [{ email: member.email, recipientType: ENQUIRY_EMAIL_RECIPIENT.STAFF }]
+      : [],
+  );
+
+/**
+ * The email telling a staff member they were mentioned in a comment. The
+ * outbox worker renders it when sending, so an edited comment goes out as
+ * it reads then.
+ */
+export const renderMentionEmail = ({
+  shop,
+  enquiryName,
+  authorName: rawAuthorName,
+  body,
+}: {
+  shop: string;
+  enquiryName: string;
+  authorName: string | null;
+  body: string;
+}) => {
+  const authorName = rawAuthorName ?? "A colleague";
+  const dashboardUrl = getDashboardUrl(shop);
+  const subject = `${authorName} mentioned you on ${enquiryName}'s enquiry`;
+  const text = [
+    `${authorName} mentioned you in a comment on ${enquiryName}'s enquiry:`,
+    "",
+    body,
+    ...(dashboardUrl ? ["", `Open the enquiries dashboard: ${dashboardUrl}`] : []),
+  ].join("\n");
+  const html = [
+    `<p>${escapeHtml(authorName)} mentioned you in a comment on ${escapeHtml(
+      enquiryName,
+    )}'s enquiry:</p>`,
+    `<blockquote style="margin:0 0 16px;padding:8px 12px;border-left:3px solid #cccccc;">${escapeHtml(
+      body,
+    ).replace(/\r?\n/g, "<br />")}</blockquote>`,
+    ...(dashboardUrl
+      ? [
+          `<p><a href="${escapeHtml(dashboardUrl)}">Open the enquiries dashboard</a></p>`,
+        ]
+      : []),
+  ].join("\n");
+
+  return { subject, text, html };
+};
+
+/**
+ * Deletes a comment with the files that came with it, then removes those
+ * files from attachment storage. Without this they would outlive the comment
+ * as files on the enquiry itself. Files that cannot be removed are logged;
+ * the comment is gone either way.
+ */
+export const deleteComment = async (commentId: string) => {
+  const attachments = await prisma.enquiryAttachment.findMany({
+    where: { commentId },
+    select: { storageKey: true },
+  });
+
+  await prisma.$transaction([
+    prisma.enquiryAttachment.deleteMany({ where: { commentId } }),
+    prisma.enquiryComment.delete({ where: { id: commentId } }),
+  ]);
+
+  const storage = getAttachmentStorage();
+  for (const attachment of attachments) {
+    try {
+      await storage.remove(attachment.storageKey);
+    } catch (error) {
+      console.error("Failed to remove attachment of deleted comment", {
+        commentId,
+        storageKey: attachment.storageKey,
+        error,
+      });
+    }
+  }
+};
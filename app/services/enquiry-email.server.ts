@@ -1,21 +1,46 @@
-import Mailgun from "mailgun.js";
-import formData from "form-data";
+import { describeMailerProblem, getMailer } from "./mailer.server";
+import type { CustomFieldAnswer } from "./enquiry-form.server";
+import {
+  DEFAULT_CUSTOMER_INTRO,
+  renderTemplateString,
+  type EmailTemplateSettings,
+  type TemplateVariables,
+} from "./email-template.server";
+import {
+  getRequestType,
+  isRequestType,
+} from "./enquiry-request-types.server";
+import {
+  DEFAULT_EMAIL_LOCALE,
+  resolveEmailLocalization,
+  type EmailLocalization,
+} from "./email-translations.server";
 
 export type AttachmentPayload = {
   filename: string;
   mimeType: string;
   size: number;
   data: Buffer;
-} | null;
+  // Download link in the dashboard, given instead when the file is too large
+  // to attach.
+  url?: string | null;
+};
 
 export type EnquiryEmailPayload = {
   name: string;
+  firstName: string | null;
+  lastName: string | null;
   email: string;
   companyName: string | null;
   phoneNumber: string | null;
   requestType: string;
   productReference: string | null;
   quantity: number | null;
+  productColour: string | null;
+  printPosition: string | null;
+  printColours: string | null;
+  pantoneReference: string | null;
+  artworkNotes: string | null;
   deliveryDeadline: string | null;
   workedWithBefore: "yes" | "no" | "not_sure" | null;
   message: string;
@@ -23,7 +48,9 @@ export type EnquiryEmailPayload = {
   productTitle: string | null;
   productHandle: string | null;
   productUrl: string | null;
-  attachmentFileName?: string | null;
+  attachmentFileNames?: string[];
+  customFields?: CustomFieldAnswer[];
+  locale?: string | null;
 };
 
 export const ENQUIRY_EMAIL_RECIPIENT = {
@@ -50,6 +77,11 @@ export const ENQUIRY_NOTIFICATION_STATE = {
 export type EnquiryNotificationState =
   (typeof ENQUIRY_NOTIFICATION_STATE)[keyof typeof ENQUIRY_NOTIFICATION_STATE];
 
+export type EnquiryEmailRecipient = {
+  email: string;
+  recipientType: EnquiryEmailRecipientType;
+};
+
 export type EnquiryEmailSendAttempt = {
   recipient: string;
   recipientType: EnquiryEmailRecipientType;
@@ -66,7 +98,11 @@ export type EnquiryEmailSendOutcome = {
   lastError: string | null;
 };
 
-const escapeHtml = (value: string) =>
+// Providers commonly reject messages over 25MB; larger uploads stay in the
+// dashboard only.
+const EMAIL_ATTACHMENT_BUDGET_BYTES = 20 * 1024 * 1024;
+
+export const escapeHtml = (value: string) =>
   value
     .replace(/&/g, "&amp;")
     .replace(/</g, "&lt;")
@@ -74,173 +110,163 @@ const escapeHtml = (value: string) =>
     .replace(/"/g, "&quot;")
     .replace(/'/g, "&#39;");
 
-const getMailer = () => {
-  const apiKey = process.env.MAILGUN_API_KEY;
-  const domain = process.env.MAILGUN_DOMAIN;
-  const fromEmail = process.env.MAILGUN_FROM_EMAIL;
+const formatWorkedWithBefore = (
+  value: EnquiryEmailPayload["workedWithBefore"],
+  l10n: EmailLocalization,
+) => (value ? l10n.strings.workedWithBefore[value] ?? null : null);
 
-  if (!apiKey || !domain || !fromEmail) {
-    return null;
+// Date inputs submit `YYYY-MM-DD`; anything else is shown as typed.
+const formatDeadline = (value: string | null, l10n: EmailLocalization) => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    return value;
   }
 
-  const mailgun = new Mailgun(formData);
-  const client = mailgun.client({
-    username: "api",
-    key: apiKey,
-    url: process.env.MAILGUN_API_BASE_URL,
-  });
+  const date = new Date(`${value.trim()}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
 
-  return {
-    client,
-    domain,
-    fromEmail,
-  };
+  return new Intl.DateTimeFormat(l10n.locale, {
+    dateStyle: "long",
+    timeZone: "UTC",
+  }).format(date);
 };
 
-const formatWorkedWithBefore = (value: EnquiryEmailPayload["workedWithBefore"]) => {
-  switch (value) {
-    case "yes":
-      return "Yes";
-    case "no":
-      return "No";
-    case "not_sure":
-      return "I'm not sure";
-    default:
-      return null;
-  }
-};
+const formatQuantity = (value: number | null, l10n: EmailLocalization) =>
+  value !== null ? new Intl.NumberFormat(l10n.locale).format(value) : null;
+
+const hasDecorationDetails = (payload: EnquiryEmailPayload) =>
+  [
+    payload.productColour,
+    payload.printPosition,
+    payload.printColours,
+    payload.pantoneReference,
+    payload.artworkNotes,
+  ].some((value) => value && value.trim().length > 0);
+
+const getLocalizedRequestType = (value: string, l10n: EmailLocalization) => ({
+  ...getRequestType(value),
+  ...(isRequestType(value) ? l10n.strings.requestTypes[value] : {}),
+});
+
+const formatRequestType = (requestType: string, l10n: EmailLocalization) =>
+  getLocalizedRequestType(requestType, l10n).label;
 
 const buildTextEmailBody = (
   payload: EnquiryEmailPayload,
-  confirmationCopy: string,
+  heading: string,
+  introCopy: string,
+  template: EmailTemplateSettings,
+  l10n: EmailLocalization,
 ) => {
+  const { sections, labels } = l10n.strings;
   const safe = (value: string | null | undefined) =>
     value && value.trim().length > 0 ? value.trim() : "—";
-  const worked = formatWorkedWithBefore(payload.workedWithBefore) ?? "—";
+  const worked = formatWorkedWithBefore(payload.workedWithBefore, l10n) ?? "—";
 
   const lines: string[] = [
-    "New FREE visual enquiry received.",
+    heading,
     "",
-    confirmationCopy,
+    introCopy,
     "",
-    "Product Information",
-    `  Product Name: ${safe(payload.productTitle)}`,
-    `  Product SKU: ${safe(payload.productReference)}`,
-    `  Required Date: ${safe(payload.deliveryDeadline)}`,
-    `  Quantity for Quote: ${safe(
-      payload.quantity !== null ? String(payload.quantity) : null,
+    sections.product,
+    `  ${labels.productName}: ${safe(payload.productTitle)}`,
+    `  ${labels.productSku}: ${safe(payload.productReference)}`,
+    `  ${labels.requiredDate}: ${safe(
+      formatDeadline(payload.deliveryDeadline, l10n),
     )}`,
+    `  ${labels.quantity}: ${safe(formatQuantity(payload.quantity, l10n))}`,
     "",
-    "Customer Information",
-    `  Name: ${safe(payload.name)}`,
-    `  Email: ${safe(payload.email)}`,
-    `  Phone: ${safe(payload.phoneNumber)}`,
-    `  Company: ${safe(payload.companyName)}`,
+    ...(hasDecorationDetails(payload)
+      ? [
+          sections.decoration,
+          `  ${labels.productColour}: ${safe(payload.productColour)}`,
+          `  ${labels.printPosition}: ${safe(payload.printPosition)}`,
+          `  ${labels.printColours}: ${safe(payload.printColours)}`,
+          `  ${labels.pantoneReference}: ${safe(payload.pantoneReference)}`,
+          `  ${labels.artworkNotes}: ${safe(payload.artworkNotes)}`,
+          "",
+        ]
+      : []),
+    sections.customer,
+    `  ${labels.name}: ${safe(payload.name)}`,
+    `  ${labels.email}: ${safe(payload.email)}`,
+    `  ${labels.phone}: ${safe(payload.phoneNumber)}`,
+    `  ${labels.company}: ${safe(payload.companyName)}`,
     "",
-    "Other Information",
-    `  Source: ${safe(
-      payload.requestType === "visual_enquiry"
-        ? "Free visual enquiry"
-        : payload.requestType,
-    )}`,
-    `  Worked with us before: ${worked}`,
-    `  Notes: ${safe(payload.extraInformation ?? payload.message)}`,
-    `  Attachment: ${safe(payload.attachmentFileName)}`,
+    ...(payload.customFields?.length
+      ? [
+          sections.additional,
+          ...payload.customFields.map(
+            (answer) => `  ${answer.label}: ${safe(answer.value)}`,
+          ),
+          "",
+        ]
+      : []),
+    sections.other,
+    `  ${labels.source}: ${safe(formatRequestType(payload.requestType, l10n))}`,
+    `  ${labels.workedWithBefore}: ${worked}`,
+    `  ${labels.notes}: ${safe(payload.extraInformation ?? payload.message)}`,
+    `  ${labels.attachments}: ${safe(payload.attachmentFileNames?.join(", "))}`,
+    ...(template.footerText || template.footerUrl
+      ? [
+          "",
+          "--",
+          ...[template.footerText, template.footerUrl].filter(
+            (line): line is string => Boolean(line),
+          ),
+        ]
+      : []),
   ];
 
   return lines.join("\n");
 };
 
-const buildHtmlEmailBody = (
-  payload: EnquiryEmailPayload,
-  confirmationCopy: string,
-) => {
-  const logoUrl =
-    "https://cdn.shopify.com/s/files/1/1017/8425/6851/files/WhatsApp_Image_2025-12-04_at_6.15.10_PM.jpg?v=1765388437";
-
-  const safeHtml = (value: string | null | undefined) =>
-    value && value.trim().length > 0
-      ? escapeHtml(value.trim()).replace(/\r?\n/g, "<br />")
-      : '<span style="color:#777777;">&mdash;</span>';
-
-  const productLink =
-    payload.productUrl && payload.productTitle
-      ? `<a href="${escapeHtml(
-          payload.productUrl,
-        )}" style="color:#8aa2ff;text-decoration:none;">${escapeHtml(
-          payload.productTitle,
-        )}</a>`
-      : safeHtml(payload.productTitle);
-
-  const emailLink = payload.email
-    ? `<a href="mailto:${escapeHtml(
-        payload.email,
-      )}" style="color:#8aa2ff;text-decoration:none;">${escapeHtml(
-        payload.email,
-      )}</a>`
-    : '<span style="color:#777777;">&mdash;</span>';
-
-  const phoneLink =
-    payload.phoneNumber && payload.phoneNumber.trim().length > 0
-      ? `<a href="tel:${escapeHtml(
-          payload.phoneNumber.trim(),
-        )}" style="color:#8aa2ff;text-decoration:none;">${escapeHtml(
-          payload.phoneNumber.trim(),
-        )}</a>`
-      : '<span style="color:#777777;">&mdash;</span>';
-
-  const quantity =
-    payload.quantity !== null
-      ? escapeHtml(String(payload.quantity))
-      : '<span style="color:#777777;">&mdash;</span>';
-
-  const workedWith = formatWorkedWithBefore(payload.workedWithBefore);
-  const sourceBase =
-    payload.requestType === "visual_enquiry"
-      ? "Free visual enquiry"
-      : payload.requestType;
-  const sourceCombined =
-    workedWith !== null
-      ? `${sourceBase} - Previously worked with us: ${workedWith}`
-      : sourceBase;
+// Picks black or white text for the header and footer bands so any accent
+// colour stays readable.
+const getContrastColor = (hex: string) => {
+  const value = Number.parseInt(hex.replace("#", ""), 16);
+  const red = (value >> 16) & 0xff;
+  const green = (value >> 8) & 0xff;
+  const blue = value & 0xff;
+  const luminance = (0.299 * red + 0.587 * green + 0.114 * blue) / 255;
+  return luminance > 0.6 ? "#000000" : "#ffffff";
+};
 
-  const notes = payload.extraInformation ?? payload.message;
+type HtmlTheme = {
+  accent: string;
+  onAccent: string;
+  background: string;
+  panel: string;
+  text: string;
+};
 
-  const attachment =
-    payload.attachmentFileName && payload.attachmentFileName.trim().length > 0
-      ? escapeHtml(payload.attachmentFileName.trim())
-      : '<span style="color:#777777;">No attachment</span>';
+const buildHtmlSection = (
+  theme: HtmlTheme,
+  title: string,
+  rows: Array<[label: string, valueHtml: string]>,
+  bottomPadding = 24,
+) => {
+  const rowsHtml = rows
+    .map(([label, valueHtml], index) => {
+      const isFirst = index === 0;
+      const isLast = index === rows.length - 1;
+      const labelPadding = isLast ? "6px 12px 0 0" : "6px 12px 6px 0";
+      const valuePadding = isLast ? "6px 0 0" : "6px 0";
+      const sizing = isFirst ? ' width="45%" valign="top"' : "";
+      const valueSizing = isFirst ? ' width="55%" valign="top"' : "";
+      return `
+                    <tr>
+                      <td${sizing} style="padding:${labelPadding};font-size:13px;color:${theme.text};opacity:0.8;">${label}</td>
+                      <td${valueSizing} style="padding:${valuePadding};font-size:13px;color:${theme.text};">${valueHtml}</td>
+                    </tr>`;
+    })
+    .join("");
 
   return `
-<table width="100%" cellspacing="0" cellpadding="0" border="0" align="center" bgcolor="#0b0b0b" style="margin:0;padding:24px 0;background-color:#0b0b0b;">
-  <tr>
-    <td align="center">
-      <table width="600" cellspacing="0" cellpadding="0" border="0" style="border:4px solid #E68906;border-collapse:collapse;background-color:#0f0f0f;font-family:Arial,Helvetica,sans-serif;color:#ffffff;">
         <tr>
-          <td align="center" bgcolor="#E68906" style="padding:18px;">
-            <table width="100%" cellspacing="0" cellpadding="0" border="0" style="border-collapse:collapse;">
-              <tr>
-                <td align="left" valign="middle" style="font-size:0;line-height:0;">
-                  <img src="${logoUrl}" alt="Branding HQ" width="140" style="display:block;border:0;outline:none;text-decoration:none;width:140px;height:auto;">
-                </td>
-              </tr>
-            </table>
-          </td>
-        </tr>
-        <tr>
-          <td style="padding:24px 28px;">
-            <table width="100%" cellspacing="0" cellpadding="0" border="0" style="background-color:#171717;border:1px solid #E68906;color:#e0e0e0;border-collapse:collapse;">
-              <tr>
-                <td style="padding:18px;font-size:14px;line-height:20px;">
-                  ${escapeHtml(confirmationCopy)}
-                </td>
-              </tr>
-            </table>
-          </td>
-        </tr>
-        <tr>
-          <td style="padding:0 28px 24px;">
-            <table width="100%" cellspacing="0" cellpadding="0" border="0" style="background-color:#141414;border:1px solid #1f1f1f;border-collapse:collapse;">
+          <td style="padding:0 28px ${bottomPadding}px;">
+            <table width="100%" cellspacing="0" cellpadding="0" border="0" style="background-color:${theme.panel};border:1px solid ${theme.background};border-collapse:collapse;">
               <tr>
                 <td style="padding:22px 24px;">
                   <table width="100%" cellspacing="0" cellpadding="0" border="0" style="border-collapse:collapse;">
@@ -248,155 +274,376 @@ const buildHtmlEmailBody = (
                       <td align="center" style="padding-bottom:18px;">
                         <table width="100%" cellspacing="0" cellpadding="0" border="0" style="border-collapse:collapse;">
                           <tr>
-                            <td style="border-top:1px solid #E68906;height:1px;font-size:0;line-height:0;">&nbsp;</td>
+                            <td style="border-top:1px solid ${theme.accent};height:1px;font-size:0;line-height:0;">&nbsp;</td>
                           </tr>
                           <tr>
-                            <td style="padding:10px 0;font-size:16px;font-weight:bold;text-transform:uppercase;letter-spacing:1px;color:#ffffff;text-align:center;">Product Information</td>
+                            <td style="padding:10px 0;font-size:16px;font-weight:bold;text-transform:uppercase;letter-spacing:1px;color:${theme.text};text-align:center;">${escapeHtml(
+                              title,
+                            )}</td>
                           </tr>
                           <tr>
-                            <td style="border-bottom:1px solid #E68906;height:1px;font-size:0;line-height:0;">&nbsp;</td>
+                            <td style="border-bottom:1px solid ${theme.accent};height:1px;font-size:0;line-height:0;">&nbsp;</td>
                           </tr>
                         </table>
                       </td>
                     </tr>
                   </table>
-                  <table width="100%" cellspacing="0" cellpadding="0" border="0" style="border-collapse:collapse;">
-                    <tr>
-                      <td width="45%" valign="top" style="padding:6px 12px 6px 0;font-size:13px;color:#cccccc;">Product Name</td>
-                      <td width="55%" valign="top" style="padding:6px 0;font-size:13px;color:#ffffff;">${productLink}</td>
-                    </tr>
-                    <tr>
-                      <td style="padding:6px 12px 6px 0;font-size:13px;color:#cccccc;">Product SKU</td>
-                      <td style="padding:6px 0;font-size:13px;color:#ffffff;">${safeHtml(
-                        payload.productReference,
-                      )}</td>
-                    </tr>
-                    <tr>
-                      <td style="padding:6px 12px 6px 0;font-size:13px;color:#cccccc;">Required Date</td>
-                      <td style="padding:6px 0;font-size:13px;color:#ffffff;">${safeHtml(
-                        payload.deliveryDeadline,
-                      )}</td>
-                    </tr>
-                    <tr>
-                      <td style="padding:6px 12px 0 0;font-size:13px;color:#cccccc;">Quantity for Quote</td>
-                      <td style="padding:6px 0 0;font-size:13px;color:#ffffff;">${quantity}</td>
-                    </tr>
+                  <table width="100%" cellspacing="0" cellpadding="0" border="0" style="border-collapse:collapse;">${rowsHtml}
                   </table>
                 </td>
               </tr>
             </table>
           </td>
-        </tr>
+        </tr>`;
+};
+
+const getHtmlTheme = (template: EmailTemplateSettings): HtmlTheme => ({
+  accent: template.accentColor,
+  onAccent: getContrastColor(template.accentColor),
+  background: template.backgroundColor,
+  panel: template.panelColor,
+  text: template.textColor,
+});
+
+/**
+ * Branded frame shared by every email: logo or brand name, the intro panel,
+ * the given section rows and the footer.
+ */
+const buildHtmlDocument = (
+  theme: HtmlTheme,
+  template: EmailTemplateSettings,
+  locale: string,
+  introCopy: string,
+  sectionsHtml: string,
+) => {
+  const header = template.logoUrl
+    ? `<img src="${escapeHtml(template.logoUrl)}" alt="${escapeHtml(
+        template.brandName,
+      )}" width="140" style="display:block;border:0;outline:none;text-decoration:none;width:140px;height:auto;">`
+    : `<span style="font-size:20px;line-height:24px;font-weight:bold;color:${theme.onAccent};">${escapeHtml(
+        template.brandName,
+      )}</span>`;
+
+  const footerParts = [
+    template.footerText
+      ? escapeHtml(template.footerText).replace(/\r?\n/g, " &bull; ")
+      : null,
+    template.footerUrl
+      ? `<a href="${escapeHtml(template.footerUrl)}" style="color:${theme.onAccent};text-decoration:none;">${escapeHtml(
+          template.footerUrl.replace(/^https?:\/\//, "").replace(/\/$/, ""),
+        )}</a>`
+      : null,
+  ].filter(Boolean);
+  const footer = footerParts.length
+    ? `
         <tr>
-          <td style="padding:0 28px 24px;">
-            <table width="100%" cellspacing="0" cellpadding="0" border="0" style="background-color:#141414;border:1px solid #1f1f1f;border-collapse:collapse;">
+          <td align="center" bgcolor="${theme.accent}" style="padding:18px 24px;">
+            <span style="font-size:12px;color:${theme.onAccent};line-height:18px;">
+              ${footerParts.join(" &bull;\n              ")}
+            </span>
+          </td>
+        </tr>`
+    : "";
+
+  return `
+<table lang="${escapeHtml(locale)}" width="100%" cellspacing="0" cellpadding="0" border="0" align="center" bgcolor="${theme.background}" style="margin:0;padding:24px 0;background-color:${theme.background};">
+  <tr>
+    <td align="center">
+      <table width="600" cellspacing="0" cellpadding="0" border="0" style="border:4px solid ${theme.accent};border-collapse:collapse;background-color:${theme.background};font-family:Arial,Helvetica,sans-serif;color:${theme.text};">
+        <tr>
+          <td align="center" bgcolor="${theme.accent}" style="padding:18px;">
+            <table width="100%" cellspacing="0" cellpadding="0" border="0" style="border-collapse:collapse;">
               <tr>
-                <td style="padding:22px 24px;">
-                  <table width="100%" cellspacing="0" cellpadding="0" border="0" style="border-collapse:collapse;">
-                    <tr>
-                      <td align="center" style="padding-bottom:18px;">
-                        <table width="100%" cellspacing="0" cellpadding="0" border="0" style="border-collapse:collapse;">
-                          <tr>
-                            <td style="border-top:1px solid #E68906;height:1px;font-size:0;line-height:0;">&nbsp;</td>
-                          </tr>
-                          <tr>
-                            <td style="padding:10px 0;font-size:16px;font-weight:bold;text-transform:uppercase;letter-spacing:1px;color:#ffffff;text-align:center;">Customer Information</td>
-                          </tr>
-                          <tr>
-                            <td style="border-bottom:1px solid #E68906;height:1px;font-size:0;line-height:0;">&nbsp;</td>
-                          </tr>
-                        </table>
-                      </td>
-                    </tr>
-                  </table>
-                  <table width="100%" cellspacing="0" cellpadding="0" border="0" style="border-collapse:collapse;">
-                    <tr>
-                      <td width="45%" valign="top" style="padding:6px 12px 6px 0;font-size:13px;color:#cccccc;">Name</td>
-                      <td width="55%" valign="top" style="padding:6px 0;font-size:13px;color:#ffffff;">${safeHtml(
-                        payload.name,
-                      )}</td>
-                    </tr>
-                    <tr>
-                      <td style="padding:6px 12px 6px 0;font-size:13px;color:#cccccc;">Email</td>
-                      <td style="padding:6px 0;font-size:13px;">${emailLink}</td>
-                    </tr>
-                    <tr>
-                      <td style="padding:6px 12px 6px 0;font-size:13px;color:#cccccc;">Phone</td>
-                      <td style="padding:6px 0;font-size:13px;">${phoneLink}</td>
-                    </tr>
-                    <tr>
-                      <td style="padding:6px 12px 0 0;font-size:13px;color:#cccccc;">Company</td>
-                      <td style="padding:6px 0 0;font-size:13px;color:#ffffff;">${safeHtml(
-                        payload.companyName,
-                      )}</td>
-                    </tr>
-                  </table>
+                <td align="left" valign="middle" style="font-size:0;line-height:0;">
+                  ${header}
                 </td>
               </tr>
             </table>
           </td>
         </tr>
         <tr>
-          <td style="padding:0 28px 32px;">
-            <table width="100%" cellspacing="0" cellpadding="0" border="0" style="background-color:#141414;border:1px solid #1f1f1f;border-collapse:collapse;">
+          <td style="padding:24px 28px;">
+            <table width="100%" cellspacing="0" cellpadding="0" border="0" style="background-color:${theme.panel};border:1px solid ${theme.accent};color:${theme.text};border-collapse:collapse;">
               <tr>
-                <td style="padding:22px 24px;">
-                  <table width="100%" cellspacing="0" cellpadding="0" border="0" style="border-collapse:collapse;">
-                    <tr>
-                      <td align="center" style="padding-bottom:18px;">
-                        <table width="100%" cellspacing="0" cellpadding="0" border="0" style="border-collapse:collapse;">
-                          <tr>
-                            <td style="border-top:1px solid #E68906;height:1px;font-size:0;line-height:0;">&nbsp;</td>
-                          </tr>
-                          <tr>
-                            <td style="padding:10px 0;font-size:16px;font-weight:bold;text-transform:uppercase;letter-spacing:1px;color:#ffffff;text-align:center;">Other Information</td>
-                          </tr>
-                          <tr>
-                            <td style="border-bottom:1px solid #E68906;height:1px;font-size:0;line-height:0;">&nbsp;</td>
-                          </tr>
-                        </table>
-                      </td>
-                    </tr>
-                  </table>
-                  <table width="100%" cellspacing="0" cellpadding="0" border="0" style="border-collapse:collapse;">
-                    <tr>
-                      <td width="45%" valign="top" style="padding:6px 12px 6px 0;font-size:13px;color:#cccccc;">Source</td>
-                      <td width="55%" valign="top" style="padding:6px 0;font-size:13px;color:#ffffff;">${safeHtml(
-                        sourceCombined,
-                      )}</td>
-                    </tr>
-                    <tr>
-                      <td style="padding:6px 12px 6px 0;font-size:13px;color:#cccccc;">Notes</td>
-                      <td style="padding:6px 0;font-size:13px;color:#ffffff;">${safeHtml(
-                        notes,
-                      )}</td>
-                    </tr>
-                    <tr>
-                      <td style="padding:6px 12px 0 0;font-size:13px;color:#cccccc;">Attachment</td>
-                      <td style="padding:6px 0 0;font-size:13px;color:#ffffff;">${attachment}</td>
-                    </tr>
-                  </table>
+                <td style="padding:18px;font-size:14px;line-height:20px;">
+                  ${escapeHtml(introCopy).replace(/\r?\n/g, "<br />")}
                 </td>
               </tr>
             </table>
           </td>
-        </tr>
-        <tr>
-          <td align="center" bgcolor="#E68906" style="padding:18px 24px;">
-            <span style="font-size:12px;color:#ffffff;line-height:18px;">
-              Branding HQ &bull; 15 Warren Park Way, Enderby, Leicester, LE19 4SA &bull;
-              <a href="https://www.brandinghq.co.uk" style="color:#ffffff;text-decoration:none;">www.brandinghq.co.uk</a>
-            </span>
-          </td>
-        </tr>
+        </tr>${sectionsHtml}${footer}
       </table>
     </td>
   </tr>
 </table>`;
 };
 
-const buildSubject = (payload: EnquiryEmailPayload) =>
-  `[Free Visual] ${payload.name}`;
+const buildHtmlEmailBody = (
+  payload: EnquiryEmailPayload,
+  introCopy: string,
+  template: EmailTemplateSettings,
+  l10n: EmailLocalization,
+) => {
+  const { sections, labels } = l10n.strings;
+  const theme = getHtmlTheme(template);
+  const emptyValue = `<span style="color:${theme.text};opacity:0.5;">&mdash;</span>`;
+
+  const safeHtml = (value: string | null | undefined) =>
+    value && value.trim().length > 0
+      ? escapeHtml(value.trim()).replace(/\r?\n/g, "<br />")
+      : emptyValue;
+
+  const link = (href: string, label: string) =>
+    `<a href="${escapeHtml(href)}" style="color:${theme.accent};text-decoration:none;">${escapeHtml(
+      label,
+    )}</a>`;
+
+  const productLink =
+    payload.productUrl && payload.productTitle
+      ? link(payload.productUrl, payload.productTitle)
+      : safeHtml(payload.productTitle);
+
+  const emailLink = payload.email
+    ? link(`mailto:${payload.email}`, payload.email)
+    : emptyValue;
+
+  const phoneLink =
+    payload.phoneNumber && payload.phoneNumber.trim().length > 0
+      ? link(`tel:${payload.phoneNumber.trim()}`, payload.phoneNumber.trim())
+      : emptyValue;
+
+  const workedWith = formatWorkedWithBefore(payload.workedWithBefore, l10n);
+  const sourceBase = formatRequestType(payload.requestType, l10n);
+  const sourceCombined =
+    workedWith !== null
+      ? `${sourceBase} - ${l10n.strings.previouslyWorkedWithUs}: ${workedWith}`
+      : sourceBase;
+
+  const notes = payload.extraInformation ?? payload.message;
+
+  const decorationSection = hasDecorationDetails(payload)
+    ? buildHtmlSection(theme, sections.decoration, [
+        [escapeHtml(labels.productColour), safeHtml(payload.productColour)],
+        [escapeHtml(labels.printPosition), safeHtml(payload.printPosition)],
+        [escapeHtml(labels.printColours), safeHtml(payload.printColours)],
+        [escapeHtml(labels.pantoneReference), safeHtml(payload.pantoneReference)],
+        [escapeHtml(labels.artworkNotes), safeHtml(payload.artworkNotes)],
+      ])
+    : "";
+
+  const customFieldsSection = payload.customFields?.length
+    ? buildHtmlSection(
+        theme,
+        sections.additional,
+        payload.customFields.map((answer) => [
+          escapeHtml(answer.label),
+          safeHtml(answer.value),
+        ]),
+      )
+    : "";
+
+  const attachmentNames = (payload.attachmentFileNames ?? [])
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const attachment =
+    attachmentNames.length > 0
+      ? attachmentNames.map((name) => escapeHtml(name)).join("<br />")
+      : `<span style="color:${theme.text};opacity:0.5;">${escapeHtml(
+          l10n.strings.noAttachment,
+        )}</span>`;
+
+  const sectionsHtml = [
+    buildHtmlSection(theme, sections.product, [
+      [escapeHtml(labels.productName), productLink],
+      [escapeHtml(labels.productSku), safeHtml(payload.productReference)],
+      [
+        escapeHtml(labels.requiredDate),
+        safeHtml(formatDeadline(payload.deliveryDeadline, l10n)),
+      ],
+      [
+        escapeHtml(labels.quantity),
+        safeHtml(formatQuantity(payload.quantity, l10n)),
+      ],
+    ]),
+    decorationSection,
+    buildHtmlSection(theme, sections.customer, [
+      [escapeHtml(labels.name), safeHtml(payload.name)],
+      [escapeHtml(labels.email), emailLink],
+      [escapeHtml(labels.phone), phoneLink],
+      [escapeHtml(labels.company), safeHtml(payload.companyName)],
+    ]),
+    customFieldsSection,
+    buildHtmlSection(
+      theme,
+      sections.other,
+      [
+        [escapeHtml(labels.source), safeHtml(sourceCombined)],
+        [escapeHtml(labels.notes), safeHtml(notes)],
+        [escapeHtml(labels.attachments), attachment],
+      ],
+      32,
+    ),
+  ].join("");
+
+  return buildHtmlDocument(
+    theme,
+    template,
+    l10n.locale,
+    introCopy,
+    sectionsHtml,
+  );
+};
+
+const buildTemplateVariables = (
+  payload: EnquiryEmailPayload,
+  template: EmailTemplateSettings,
+  recipientType: EnquiryEmailRecipientType,
+  l10n: EmailLocalization,
+): TemplateVariables => {
+  const requestType = getLocalizedRequestType(payload.requestType, l10n);
+
+  return {
+    name: payload.name,
+    firstName: payload.firstName ?? payload.name,
+    lastName: payload.lastName ?? "",
+    email: payload.email,
+    companyName: payload.companyName ?? "",
+    productTitle: payload.productTitle ?? "",
+    productReference: payload.productReference ?? "",
+    quantity: formatQuantity(payload.quantity, l10n) ?? "",
+    deliveryDeadline: formatDeadline(payload.deliveryDeadline, l10n) ?? "",
+    requestType: requestType.label,
+    subjectPrefix: requestType.subjectPrefix,
+    requestCopy:
+      recipientType === ENQUIRY_EMAIL_RECIPIENT.CUSTOMER
+        ? requestType.customerCopy
+        : requestType.staffCopy,
+    brandName: template.brandName,
+  };
+};
+
+export type RenderedEnquiryEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+/**
+ * Renders the staff or customer version of the enquiry email with the shop's
+ * template. The customer version uses the enquiry's storefront locale; staff
+ * always get English. `note` is appended to the intro copy.
+ */
+export const renderEnquiryEmail = ({
+  enquiry,
+  template,
+  recipientType,
+  note = "",
+}: {
+  enquiry: EnquiryEmailPayload;
+  template: EmailTemplateSettings;
+  recipientType: EnquiryEmailRecipientType;
+  note?: string;
+}): RenderedEnquiryEmail => {
+  const isCustomer = recipientType === ENQUIRY_EMAIL_RECIPIENT.CUSTOMER;
+  const l10n = resolveEmailLocalization(
+    isCustomer ? enquiry.locale : DEFAULT_EMAIL_LOCALE,
+  );
+  const variables = buildTemplateVariables(
+    enquiry,
+    template,
+    recipientType,
+    l10n,
+  );
+  const subject = renderTemplateString(template.subjectPattern, variables);
+  const introPattern = isCustomer
+    ? template.customerIntro === DEFAULT_CUSTOMER_INTRO
+      ? l10n.strings.customerIntro
+      : template.customerIntro
+    : template.staffIntro;
+  const intro = `${renderTemplateString(introPattern, variables)}${note}`;
+
+  return {
+    subject,
+    text: buildTextEmailBody(enquiry, subject, intro, template, l10n),
+    html: buildHtmlEmailBody(enquiry, intro, template, l10n),
+  };
+};
+
+/**
+ * Renders a customer status update: the merchant's copy inside the shop's
+ * branding, followed by the product the enquiry is about. `{{status}}` is
+ * available alongside the usual placeholders.
+ */
+export const renderStatusUpdateEmail = ({
+  enquiry,
+  template,
+  subjectPattern,
+  bodyPattern,
+  statusLabel,
+}: {
+  enquiry: EnquiryEmailPayload;
+  template: EmailTemplateSettings;
+  subjectPattern: string;
+  bodyPattern: string;
+  statusLabel: string;
+}): RenderedEnquiryEmail => {
+  const l10n = resolveEmailLocalization(enquiry.locale);
+  const variables = {
+    ...buildTemplateVariables(
+      enquiry,
+      template,
+      ENQUIRY_EMAIL_RECIPIENT.CUSTOMER,
+      l10n,
+    ),
+    status: statusLabel,
+  };
+  const subject = renderTemplateString(subjectPattern, variables);
+  const body = renderTemplateString(bodyPattern, variables);
+  const { sections, labels } = l10n.strings;
+  const productRows: Array<[string, string | null]> = [
+    [labels.productName, enquiry.productTitle],
+    [labels.productSku, enquiry.productReference],
+  ];
+  const shownRows = productRows.filter(
+    (row): row is [string, string] => Boolean(row[1]?.trim()),
+  );
+  const footer = [template.footerText, template.footerUrl].filter(
+    (line): line is string => Boolean(line),
+  );
+
+  const text = [
+    body,
+    ...(shownRows.length
+      ? [
+          "",
+          sections.product,
+          ...shownRows.map(([label, value]) => `  ${label}: ${value}`),
+        ]
+      : []),
+    ...(footer.length ? ["", "--", ...footer] : []),
+  ].join("\n");
+
+  const theme = getHtmlTheme(template);
+  const html = buildHtmlDocument(
+    theme,
+    template,
+    l10n.locale,
+    body,
+    shownRows.length
+      ? buildHtmlSection(
+          theme,
+          sections.product,
+          shownRows.map(([label, value]) => [
+            escapeHtml(label),
+            escapeHtml(value.trim()),
+          ]),
+          32,
+        )
+      : "",
+  );
+
+  return { subject, text, html };
+};
 
 const getStaffRecipients = () => {
   if (!process.env.ENQUIRY_STAFF_EMAIL) {
@@ -408,6 +655,33 @@ const getStaffRecipients = () => {
     .filter(Boolean);
 };
 
+/**
+ * The assignee, or the staff inboxes from `ENQUIRY_STAFF_EMAIL` for
+ * unassigned enquiries, followed by the customer unless the mail provider
+ * reported their address as permanently failing.
+ */
+export const resolveEnquiryRecipients = (
+  enquiry: Pick<EnquiryEmailPayload, "email"> & {
+    assigneeEmail?: string | null;
+    customerEmailBouncedAt?: Date | null;
+  },
+): EnquiryEmailRecipient[] => {
+  const assigneeEmail = enquiry.assigneeEmail?.trim();
+  const recipients: EnquiryEmailRecipient[] = (
+    assigneeEmail ? [assigneeEmail] : getStaffRecipients()
+  ).map((email) => ({ email, recipientType: ENQUIRY_EMAIL_RECIPIENT.STAFF }));
+
+  const customerRecipient = enquiry.email?.trim();
+  if (customerRecipient && !enquiry.customerEmailBouncedAt) {
+    recipients.push({
+      email: customerRecipient,
+      recipientType: ENQUIRY_EMAIL_RECIPIENT.CUSTOMER,
+    });
+  }
+
+  return recipients;
+};
+
 const summarizeAttempts = (
   attempts: EnquiryEmailSendAttempt[],
 ): {
@@ -456,13 +730,16 @@ const buildErrorMetadata = (error: unknown): Record<string, unknown> | null => {
       message?: string;
       status?: number;
       statusCode?: number;
+      responseCode?: number;
       code?: string;
       details?: unknown;
     };
 
     return {
+      transport: getMailer()?.transport ?? null,
       name: candidate.name ?? "Error",
-      status: candidate.status ?? candidate.statusCode ?? null,
+      status:
+        candidate.status ?? candidate.statusCode ?? candidate.responseCode ?? null,
       code: candidate.code ?? null,
       details: candidate.details ?? null,
     };
@@ -471,17 +748,6 @@ const buildErrorMetadata = (error: unknown): Record<string, unknown> | null => {
   return null;
 };
 
-const buildSuccessMetadata = (result: unknown): Record<string, unknown> | null => {
-  if (result && typeof result === "object") {
-    const candidate = result as { id?: string; message?: string };
-    return {
-      message: candidate.message ?? null,
-    };
-  }
-
-  return null;
-};
-
 const normalizeErrorMessage = (error: unknown) => {
   if (error instanceof Error) {
     return error.message;
@@ -494,75 +760,101 @@ const normalizeErrorMessage = (error: unknown) => {
   return "Unknown error sending email";
 };
 
+/**
+ * Link to a page of the app inside the Shopify admin, or null when
+ * `SHOPIFY_API_KEY` is not set.
+ */
+export const getDashboardUrl = (shop: string, path = "/app/enquiries") => {
+  const apiKey = process.env.SHOPIFY_API_KEY;
+  return apiKey ? `https://${shop}/admin/apps/${apiKey}${path}` : null;
+};
+
+const selectEmailAttachments = (attachments: AttachmentPayload[]) => {
+  const selected: AttachmentPayload[] = [];
+  const omitted: AttachmentPayload[] = [];
+  let total = 0;
+
+  for (const attachment of attachments) {
+    if (total + attachment.size > EMAIL_ATTACHMENT_BUDGET_BYTES) {
+      omitted.push(attachment);
+      continue;
+    }
+    total += attachment.size;
+    selected.push(attachment);
+  }
+
+  return { selected, omitted };
+};
+
+/**
+ * Sends the enquiry to each recipient, defaulting to the configured staff
+ * inboxes and the customer. Staff and other internal recipients get the
+ * template's staff intro; the customer gets the customer intro.
+ */
 export const sendEnquiryEmails = async ({
   enquiry,
-  attachment,
+  attachments: attachmentPayloads,
+  recipients = resolveEnquiryRecipients(enquiry),
+  template,
+  replyTo = null,
 }: {
   enquiry: EnquiryEmailPayload;
-  attachment: AttachmentPayload;
+  attachments: AttachmentPayload[];
+  template: EmailTemplateSettings;
+  recipients?: EnquiryEmailRecipient[];
+  // Reply-to for the customer's copy, so their reply reaches the enquiry.
+  replyTo?: string | null;
 }): Promise<EnquiryEmailSendOutcome> => {
   const mailer = getMailer();
-  const fromAddress = mailer?.fromEmail ?? null;
-  const staffRecipients = getStaffRecipients();
-  const customerRecipient = enquiry.email?.trim() || null;
-  const subject = buildSubject(enquiry);
-
-  const staffMessage =
-    "A new FREE visual enquiry has been submitted. Please review the details below and follow up with the customer.";
-  const customerMessage =
-    "This enquiry has been sent to our sales team. We will get back to you with a quotation asap.";
-
-  const attachments =
-    attachment && attachment.data
-      ? [
-          {
-            data: attachment.data,
-            filename: attachment.filename ?? "attachment",
-            contentType: attachment.mimeType,
-          },
-        ]
-      : undefined;
-
-  const staffBodies =
-    staffRecipients.length > 0
-      ? {
-          text: buildTextEmailBody(enquiry, staffMessage),
-          html: buildHtmlEmailBody(enquiry, staffMessage),
-        }
-      : null;
-  const customerBodies = customerRecipient
-    ? {
-        text: buildTextEmailBody(enquiry, customerMessage),
-        html: buildHtmlEmailBody(enquiry, customerMessage),
-      }
-    : null;
-
-  const intendedRecipients: Array<{
-    email: string;
-    recipientType: EnquiryEmailRecipientType;
-    textBody: string;
-    htmlBody: string;
-  }> = [];
-
-  if (staffBodies) {
-    for (const email of staffRecipients) {
-      intendedRecipients.push({
-        email,
-        recipientType: ENQUIRY_EMAIL_RECIPIENT.STAFF,
-        textBody: staffBodies.text,
-        htmlBody: staffBodies.html,
-      });
-    }
-  }
 
-  if (customerRecipient && customerBodies) {
-    intendedRecipients.push({
-      email: customerRecipient,
-      recipientType: ENQUIRY_EMAIL_RECIPIENT.CUSTOMER,
-      textBody: customerBodies.text,
-      htmlBody: customerBodies.html,
+  const { selected, omitted } = selectEmailAttachments(attachmentPayloads);
+  const attachments = selected.length
+    ? selected.map((attachment) => ({
+        data: attachment.data,
+        filename: attachment.filename,
+        contentType: attachment.mimeType,
+      }))
+    : undefined;
+  // Staff get a download link for each file left out, where one is known.
+  const omittedNote = omitted.length
+    ? [
+        " Some files were too large to attach; download them from the enquiries dashboard:",
+        ...omitted.map((attachment) =>
+          attachment.url
+            ? `${attachment.filename}: ${attachment.url}`
+            : attachment.filename,
+        ),
+      ].join("\n")
+    : "";
+
+  const renderCache = new Map<string, RenderedEnquiryEmail>();
+  const render = (recipientType: EnquiryEmailRecipientType) => {
+    const audience =
+      recipientType === ENQUIRY_EMAIL_RECIPIENT.CUSTOMER
+        ? ENQUIRY_EMAIL_RECIPIENT.CUSTOMER
+        : ENQUIRY_EMAIL_RECIPIENT.STAFF;
+    const cached = renderCache.get(audience);
+    if (cached) {
+      return cached;
+    }
+    const rendered = renderEnquiryEmail({
+      enquiry,
+      template,
+      recipientType: audience,
+      note: audience === ENQUIRY_EMAIL_RECIPIENT.STAFF ? omittedNote : "",
     });
-  }
+    renderCache.set(audience, rendered);
+    return rendered;
+  };
+  const intendedRecipients = recipients.map((recipient) => {
+    const rendered = render(recipient.recipientType);
+    return {
+      ...recipient,
+      subject: rendered.subject,
+      textBody: rendered.text,
+      htmlBody: rendered.html,
+    };
+  });
 
   if (!intendedRecipients.length) {
     const attempts: EnquiryEmailSendAttempt[] = [
@@ -570,7 +862,7 @@ export const sendEnquiryEmails = async ({
         recipient: "n/a",
         recipientType: ENQUIRY_EMAIL_RECIPIENT.OTHER,
         status: ENQUIRY_EMAIL_STATUS.FAILURE,
-        subject,
+        subject: render(ENQUIRY_EMAIL_RECIPIENT.STAFF).subject,
         errorMessage: "No email recipients configured for enquiry notifications",
         providerId: null,
         metadata: null,
@@ -586,21 +878,19 @@ export const sendEnquiryEmails = async ({
     };
   }
 
-  const misconfigurationError = !mailer
-    ? "Mailgun client is not configured."
-    : !fromAddress
-      ? "Missing Mailgun sender address."
-      : null;
+  const misconfigurationError = mailer ? null : describeMailerProblem();
 
   const attempts: EnquiryEmailSendAttempt[] = [];
 
   const sendToRecipient = async (recipient: {
     email: string;
     recipientType: EnquiryEmailRecipientType;
+    subject: string;
     textBody: string;
     htmlBody: string;
   }) => {
-    if (misconfigurationError || !mailer || !fromAddress) {
+    const { subject } = recipient;
+    if (!mailer) {
       attempts.push({
         recipient: recipient.email,
         recipientType: recipient.recipientType,
@@ -614,28 +904,26 @@ export const sendEnquiryEmails = async ({
     }
 
     try {
-      const response = await mailer.client.messages.create(mailer.domain, {
+      const result = await mailer.send({
         to: recipient.email,
-        from: fromAddress,
         subject,
         text: recipient.textBody,
         html: recipient.htmlBody,
-        ...(attachments ? { attachment: attachments } : {}),
+        ...(recipient.recipientType === ENQUIRY_EMAIL_RECIPIENT.CUSTOMER &&
+        replyTo
+          ? { replyTo }
+          : {}),
+        attachments,
       });
 
-      const providerId =
-        response && typeof response === "object" && "id" in response
-          ? (response.id as string)
-          : null;
-
       attempts.push({
         recipient: recipient.email,
         recipientType: recipient.recipientType,
         status: ENQUIRY_EMAIL_STATUS.SUCCESS,
         subject,
         errorMessage: null,
-        providerId,
-        metadata: buildSuccessMetadata(response),
+        providerId: result.providerId,
+        metadata: result.metadata,
       });
     } catch (error) {
       attempts.push({
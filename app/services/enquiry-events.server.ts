@@ -0,0 +1,153 @@
+import type { EnquiryEvent, Prisma } from "@prisma/client";
+import type { Session } from "@shopify/shopify-app-react-router/server";
+
+import prisma from "../db.server";
+
+export const ENQUIRY_EVENT_TYPE = {
+  CREATED: "CREATED",
+  STATUS_CHANGED: "STATUS_CHANGED",
+  NOTE_UPDATED: "NOTE_UPDATED",
+  SPAM_RELEASED: "SPAM_RELEASED",
+  RESEND_REQUESTED: "RESEND_REQUESTED",
+  EMAIL_SENT: "EMAIL_SENT",
+  EMAIL_FAILED: "EMAIL_FAILED",
+  EMAIL_BOUNCED: "EMAIL_BOUNCED",
+  ASSIGNED: "ASSIGNED",
+  CUSTOMER_REPLIED: "CUSTOMER_REPLIED",
+} as const;
+export type EnquiryEventType =
+  (typeof ENQUIRY_EVENT_TYPE)[keyof typeof ENQUIRY_EVENT_TYPE];
+
+/** Staff member who performed an action; null for the customer or the system. */
+export type EventActor = {
+  id: string;
+  name: string | null;
+  email: string | null;
+} | null;
+
+/**
+ * Reads the staff user from an online admin session. Offline sessions carry
+ * no user, so events recorded with them have no actor.
+ */
+export const getSessionActor = (
+  session: Pick<Session, "onlineAccessInfo">,
+): EventActor => {
+  const user = session.onlineAccessInfo?.associated_user;
+  if (!user) {
+    return null;
+  }
+
+  const name = [user.first_name, user.last_name].filter(Boolean).join(" ");
+
+  return {
+    id: String(user.id),
+    name: name || null,
+    email: user.email || null,
+  };
+};
+
+export type EnquiryEventInput = {
+  enquiryId: string;
+  type: EnquiryEventType;
+  actor?: EventActor;
+  fromStatus?: string | null;
+  toStatus?: string | null;
+  note?: string | null;
+  metadata?: Prisma.InputJsonObject;
+};
+
+const toEventData = ({
+  enquiryId,
+  type,
+  actor = null,
+  fromStatus = null,
+  toStatus = null,
+  note = null,
+  metadata,
+}: EnquiryEventInput): Prisma.EnquiryEventUncheckedCreateInput => ({
+  enquiryId,
+  type,
+  actorId: actor?.id ?? null,
+  actorName: actor?.name ?? null,
+  actorEmail: actor?.email ?? null,
+  fromStatus,
+  toStatus,
+  note,
+  ...(metadata ? { metadata } : {}),
+});
+
+/**
+ * Returns the create query without awaiting it so callers can run it in the
+ * same transaction as the change it records.
+ */
+export const recordEnquiryEvent = (input: EnquiryEventInput) =>
+  prisma.enquiryEvent.create({ data: toEventData(input) });
+
+export const recordEnquiryEvents = (inputs: EnquiryEventInput[]) =>
+  prisma.enquiryEvent.createMany({ data: inputs.map(toEventData) });
+
+const readMetadata = (event: Pick<EnquiryEvent, "metadata">) =>
+  event.metadata && typeof event.metadata === "object"
+    ? (event.metadata as Record<string, unknown>)
+    : {};
+
+/** One-line description of an event for the dashboard timeline. */
+export const describeEnquiryEvent = (
+  event: Pick<EnquiryEvent, "type" | "fromStatus" | "toStatus" | "metadata">,
+  statusLabels: Map<string, string>,
+) => {
+  const metadata = readMetadata(event);
+  const statusLabel = (status: string | null) =>
+    status ? statusLabels.get(status) ?? status : "—";
+
+  switch (event.type) {
+    case ENQUIRY_EVENT_TYPE.CREATED:
+      return metadata.isSpam
+        ? "Enquiry received from the storefront and flagged as spam"
+        : "Enquiry received from the storefront";
+    case ENQUIRY_EVENT_TYPE.STATUS_CHANGED: {
+      const summary = `Status changed from ${statusLabel(
+        event.fromStatus,
+      )} to ${statusLabel(event.toStatus)}`;
+      return typeof metadata.reason === "string"
+        ? `${summary}: ${metadata.reason}`
+        : summary;
+    }
+    case ENQUIRY_EVENT_TYPE.NOTE_UPDATED:
+      return "Status notes updated";
+    case ENQUIRY_EVENT_TYPE.SPAM_RELEASED:
+      return "Released from spam";
+    case ENQUIRY_EVENT_TYPE.RESEND_REQUESTED:
+      return typeof metadata.recipient === "string"
+        ? `Copy requested for ${metadata.recipient}`
+        : metadata.scope === "failed"
+          ? "Resend to failed recipients requested"
+          : "Resend to all recipients requested";
+    case ENQUIRY_EVENT_TYPE.EMAIL_SENT:
+      return `${metadata.commentId ? "Mention email" : "Email"} sent to ${String(
+        metadata.recipient ?? "recipient",
+      )}`;
+    case ENQUIRY_EVENT_TYPE.EMAIL_FAILED:
+      return `${metadata.commentId ? "Mention email" : "Email"} to ${String(
+        metadata.recipient ?? "recipient",
+      )} failed`;
+    case ENQUIRY_EVENT_TYPE.EMAIL_BOUNCED:
+      return `Email to ${String(metadata.recipient ?? "recipient")} bounced`;
+    case ENQUIRY_EVENT_TYPE.ASSIGNED:
+      if (typeof metadata.assigneeName !== "string") {
+        return "Unassigned";
+      }
+      return metadata.auto
+        ? `Automatically assigned to ${metadata.assigneeName}`
+        : `Assigned to ${metadata.assigneeName}`;
+    case ENQUIRY_EVENT_TYPE.CUSTOMER_REPLIED:
+      return typeof metadata.attachmentCount === "number" &&
+        metadata.attachmentCount > 0
+        ? `Customer replied by email with ${metadata.attachmentCount} ${
+            metadata.attachmentCount === 1 ? "attachment" : "attachments"
+          }`
+        : "Customer replied by email";
+    default:
+      return event.type;
+  }
+};
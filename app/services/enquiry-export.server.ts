@@ -0,0 +1,268 @@
+import { PassThrough, Readable } from "node:stream";
+import type { Enquiry, Prisma } from "@prisma/client";
+import ExcelJS from "exceljs";
+
+import prisma from "../db.server";
+import { parseCustomFieldAnswers } from "./enquiry-form.server";
+import { getRequestType } from "./enquiry-request-types.server";
+import { parseSpamReasons, SPAM_REASON_LABELS } from "./enquiry-spam.server";
+
+export const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const isExportFormat = (value: string | null): value is ExportFormat =>
+  EXPORT_FORMATS.some((format) => format === value);
+
+// Rows are read this many at a time so a large export never holds the whole
+// table in memory.
+const EXPORT_BATCH_SIZE = 200;
+
+type ExportRow = Omit<Enquiry, "attachmentData"> & {
+  _count: { attachments: number };
+};
+
+type ExportValue = string | number | Date | null;
+
+type ExportColumn = {
+  header: string;
+  value: (enquiry: ExportRow) => ExportValue;
+};
+
+const buildColumns = (statusLabels: Map<string, string>): ExportColumn[] => [
+  { header: "Enquiry ID", value: (row) => row.id },
+  { header: "Received", value: (row) => row.createdAt },
+  { header: "Last updated", value: (row) => row.updatedAt },
+  {
+    header: "Status",
+    value: (row) => statusLabels.get(row.status) ?? row.status,
+  },
+  { header: "Status changed", value: (row) => row.statusUpdatedAt },
+  { header: "Status notes", value: (row) => row.statusNotes },
+  { header: "Name", value: (row) => row.name },
+  { header: "First name", value: (row) => row.firstName },
+  { header: "Last name", value: (row) => row.lastName },
+  { header: "Email", value: (row) => row.email },
+  { header: "Company", value: (row) => row.companyName },
+  { header: "Phone", value: (row) => row.phoneNumber },
+  {
+    header: "Request type",
+    value: (row) => getRequestType(row.requestType).label,
+  },
+  { header: "Language", value: (row) => row.locale },
+  { header: "Product", value: (row) => row.productTitle },
+  { header: "Product reference", value: (row) => row.productReference },
+  { header: "Product ID", value: (row) => row.productId },
+  { header: "Product handle", value: (row) => row.productHandle },
+  { header: "Product URL", value: (row) => row.productUrl },
+  { header: "Quantity", value: (row) => row.quantity },
+  { header: "Product colour", value: (row) => row.productColour },
+  { header: "Print position", value: (row) => row.printPosition },
+  { header: "Print colours", value: (row) => row.printColours },
+  { header: "Pantone reference", value: (row) => row.pantoneReference },
+  { header: "Artwork notes", value: (row) => row.artworkNotes },
+  { header: "Delivery deadline", value: (row) => row.deliveryDeadline },
+  { header: "Worked with us before", value: (row) => row.workedWithBefore },
+  { header: "Message", value: (row) => row.message },
+  { header: "Other requirements", value: (row) => row.extraInformation },
+  {
+    header: "Additional answers",
+    value: (row) =>
+      parseCustomFieldAnswers(row.customFields)
+        .map((answer) => `${answer.label}: ${answer.value}`)
+        .join("; ") || null,
+  },
+  { header: "Attachments", value: (row) => row._count.attachments },
+  { header: "Assignee", value: (row) => row.assigneeName },
+  { header: "Assignee email", value: (row) => row.assigneeEmail },
+  { header: "Assigned", value: (row) => row.assignedAt },
+  { header: "Email state", value: (row) => row.emailNotificationState },
+  { header: "Last email attempt", value: (row) => row.lastEmailAttemptAt },
+  { header: "Last email error", value: (row) => row.lastEmailError },
+  {
+    header: "Customer email bounced",
+    value: (row) => row.customerEmailBouncedAt,
+  },
+  { header: "Bounce reason", value: (row) => row.customerEmailBounce },
+  { header: "Spam", value: (row) => (row.isSpam ? "Yes" : "No") },
+  { header: "Spam score", value: (row) => row.spamScore },
+  {
+    header: "Spam reasons",
+    value: (row) =>
+      parseSpamReasons(row.spamReasons)
+        .map((reason) => SPAM_REASON_LABELS[reason])
+        .join("; ") || null,
+  },
+  { header: "Form block", value: (row) => row.blockId },
+];
+
+/** Matching enquiries, oldest first, one batch at a time. */
+async function* readEnquiryBatches(where: Prisma.EnquiryWhereInput) {
+  let cursor: string | undefined;
+
+  for (;;) {
+    const batch: ExportRow[] = await prisma.enquiry.findMany({
+      where,
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      omit: { attachmentData: true },
+      include: { _count: { select: { attachments: true } } },
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    if (!batch.length) {
+      return;
+    }
+
+    yield batch;
+
+    if (batch.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    cursor = batch.at(-1)?.id;
+  }
+}
+
+// Spreadsheet apps run cells that start with these as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvCell = (value: ExportValue) => {
+  if (value === null) {
+    return "";
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  const text = String(value);
+  const safe =
+    typeof value === "string" && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const toCsvLine = (values: ExportValue[]) =>
+  `${values.map(toCsvCell).join(",")}\r\n`;
+
+const streamCsv = (
+  columns: ExportColumn[],
+  where: Prisma.EnquiryWhereInput,
+) => {
+  const encoder = new TextEncoder();
+  const batches = readEnquiryBatches(where);
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      // The byte order mark makes Excel read the file as UTF-8.
+      controller.enqueue(
+        encoder.encode(
+          `\uFEFF${toCsvLine(columns.map((column) => column.header))}`,
+        ),
+      );
+    },
+    async pull(controller) {
+      const next = await batches.next();
+      if (next.done) {
+        controller.close();
+        return;
+      }
+
+      controller.enqueue(
+        encoder.encode(
+          next.value
+            .map((row) => toCsvLine(columns.map((column) => column.value(row))))
+            .join(""),
+        ),
+      );
+    },
+    async cancel() {
+      await batches.return(undefined);
+    },
+  });
+};
+
+// Resolves when the reader catches up, or when it goes away.
+const waitForDrain = (stream: PassThrough) =>
+  new Promise<void>((resolve) => {
+    const done = () => {
+      stream.off("drain", done);
+      stream.off("close", done);
+      resolve();
+    };
+    stream.on("drain", done);
+    stream.on("close", done);
+  });
+
+const streamXlsx = (
+  columns: ExportColumn[],
+  where: Prisma.EnquiryWhereInput,
+) => {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+    useSharedStrings: false,
+  });
+  const sheet = workbook.addWorksheet("Enquiries", {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  sheet.columns = columns.map((column) => ({
+    header: column.header,
+    width: Math.max(12, column.header.length + 2),
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.getRow(1).commit();
+
+  const write = async () => {
+    for await (const batch of readEnquiryBatches(where)) {
+      if (output.destroyed) {
+        return;
+      }
+      for (const row of batch) {
+        sheet.addRow(columns.map((column) => column.value(row))).commit();
+      }
+      // Wait for the client to catch up before reading the next batch.
+      if (output.writableNeedDrain) {
+        await waitForDrain(output);
+      }
+    }
+    sheet.commit();
+    await workbook.commit();
+  };
+
+  write().catch((error) => {
+    console.error("Enquiry export failed", error);
+    output.destroy(error instanceof Error ? error : new Error(String(error)));
+  });
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * Streams every enquiry matching `where` as a CSV or XLSX download, reading
+ * from the database in batches as the client consumes the response.
+ */
+export const createEnquiryExport = ({
+  format,
+  where,
+  statusLabels,
+}: {
+  format: ExportFormat;
+  where: Prisma.EnquiryWhereInput;
+  statusLabels: Map<string, string>;
+}) => {
+  const columns = buildColumns(statusLabels);
+  const filename = `enquiries-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  return {
+    filename,
+    contentType: CONTENT_TYPES[format],
+    body:
+      format === "csv" ? streamCsv(columns, where) : streamXlsx(columns, where),
+  };
+};
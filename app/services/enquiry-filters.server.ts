@@ -0,0 +1,250 @@
+import type { Prisma } from "@prisma/client";
+
+import {
+  ENQUIRY_NOTIFICATION_STATE,
+  type EnquiryNotificationState,
+} from "./enquiry-email.server";
+import type { EventActor } from "./enquiry-events.server";
+import { isRequestType } from "./enquiry-request-types.server";
+import {
+  findMatchingEnquiryIds,
+  parseSearchQuery,
+  type SearchQuery,
+} from "./enquiry-search.server";
+import { getStatusLabels, type Workflow } from "./enquiry-workflow.server";
+
+const ASSIGNEE_FILTERS = ["mine", "unassigned"] as const;
+export type AssigneeFilter = (typeof ASSIGNEE_FILTERS)[number];
+
+// Without a `sort`, search results come best match first and everything else
+// newest first.
+export const ENQUIRY_SORTS = ["newest", "oldest", "deadline"] as const;
+export type EnquirySort = (typeof ENQUIRY_SORTS)[number];
+
+// Every URL param the dashboard filters and sorts by; saved views keep these.
+export const ENQUIRY_FILTER_PARAMS = [
+  "q",
+  "status",
+  "assignee",
+  "spam",
+  "from",
+  "to",
+  "type",
+  "email",
+  "product",
+  "attachments",
+  "worked",
+  "deadlineFrom",
+  "deadlineTo",
+  "sort",
+] as const;
+
+const WORKED_WITH_FILTERS = ["yes", "no", "not_sure"] as const;
+type WorkedWithFilter = (typeof WORKED_WITH_FILTERS)[number];
+
+const MAX_QUERY_LENGTH = 500;
+const MAX_PRODUCT_LENGTH = 120;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Dashboard and export filters, as read from the URL. */
+export type EnquiryFilters = {
+  status: string | null;
+  assignee: AssigneeFilter | null;
+  spamOnly: boolean;
+  query: string;
+  // `query` parsed for the full-text index; null when it is blank.
+  search: SearchQuery | null;
+  // Inclusive `YYYY-MM-DD` bounds on the received date, in UTC.
+  from: string | null;
+  to: string | null;
+  requestType: string | null;
+  emailState: EnquiryNotificationState | null;
+  // Matched against the product title and reference.
+  product: string;
+  // Artwork uploaded with the enquiry, not files on customer replies.
+  hasAttachment: boolean | null;
+  workedWithBefore: WorkedWithFilter | null;
+  // Inclusive `YYYY-MM-DD` bounds on the requested delivery date.
+  deadlineFrom: string | null;
+  deadlineTo: string | null;
+  sort: EnquirySort | null;
+};
+
+const readYesNo = (value: string | null) =>
+  value === "yes" ? true : value === "no" ? false : null;
+
+const readOption = <T extends string>(
+  options: readonly T[],
+  value: string | null,
+): T | null => options.find((option) => option === value) ?? null;
+
+const readDate = (value: string | null) => {
+  const trimmed = value?.trim() ?? "";
+  return ISO_DATE_PATTERN.test(trimmed) &&
+    !Number.isNaN(Date.parse(`${trimmed}T00:00:00Z`))
+    ? trimmed
+    : null;
+};
+
+/**
+ * Reads the ENQUIRY_FILTER_PARAMS from the URL. Unknown values are dropped,
+ * and "mine" needs a staff session; offline sessions fall back to everyone.
+ */
+export const parseEnquiryFilters = (
+  searchParams: URLSearchParams,
+  { workflow, actor }: { workflow: Workflow; actor: EventActor },
+): EnquiryFilters => {
+  const rawStatus = searchParams.get("status")?.toUpperCase() ?? null;
+  const rawAssignee = searchParams.get("assignee");
+  const rawRequestType = searchParams.get("type");
+  const query = (searchParams.get("q")?.trim() ?? "").slice(
+    0,
+    MAX_QUERY_LENGTH,
+  );
+
+  return {
+    status:
+      rawStatus && getStatusLabels(workflow).has(rawStatus) ? rawStatus : null,
+    assignee:
+      rawAssignee === "unassigned" || (rawAssignee === "mine" && actor)
+        ? rawAssignee
+        : null,
+    spamOnly: searchParams.get("spam") === "1",
+    query,
+    search: query ? parseSearchQuery(query, workflow) : null,
+    from: readDate(searchParams.get("from")),
+    to: readDate(searchParams.get("to")),
+    requestType:
+      rawRequestType && isRequestType(rawRequestType) ? rawRequestType : null,
+    emailState: readOption(
+      Object.values(ENQUIRY_NOTIFICATION_STATE),
+      searchParams.get("email"),
+    ),
+    product: (searchParams.get("product")?.trim() ?? "").slice(
+      0,
+      MAX_PRODUCT_LENGTH,
+    ),
+    hasAttachment: readYesNo(searchParams.get("attachments")),
+    workedWithBefore: readOption(
+      WORKED_WITH_FILTERS,
+      searchParams.get("worked"),
+    ),
+    deadlineFrom: readDate(searchParams.get("deadlineFrom")),
+    deadlineTo: readDate(searchParams.get("deadlineTo")),
+    sort: readOption(ENQUIRY_SORTS, searchParams.get("sort")),
+  };
+};
+
+const addDays = (isoDate: string, days: number) => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date;
+};
+
+/**
+ * The `where` clause for a shop's enquiries. SQLite's LIKE ignores case for
+ * ASCII, so the product filter needs no `mode`. A search query is run against
+ * the full-text index first; `rankedIds` then holds its matches, best first,
+ * for callers that order by relevance. It is null without a query.
+ * `searchTruncated` is set when the query matched more than
+ * SEARCH_RESULT_LIMIT enquiries, so the clause only covers the best of them.
+ */
+export const buildEnquiryWhere = async (
+  shop: string,
+  filters: EnquiryFilters,
+  actor: EventActor,
+): Promise<{
+  where: Prisma.EnquiryWhereInput;
+  rankedIds: string[] | null;
+  searchTruncated: boolean;
+}> => {
+  const where: Prisma.EnquiryWhereInput = {
+    shop,
+    isSpam: filters.spamOnly,
+  };
+
+  if (filters.status) {
+    where.status = filters.status;
+  }
+
+  if (filters.assignee) {
+    where.assigneeId =
+      filters.assignee === "mine" ? actor?.id ?? null : null;
+  }
+
+  if (filters.from || filters.to) {
+    where.createdAt = {
+      ...(filters.from ? { gte: addDays(filters.from, 0) } : {}),
+      ...(filters.to ? { lt: addDays(filters.to, 1) } : {}),
+    };
+  }
+
+  if (filters.requestType) {
+    where.requestType = filters.requestType;
+  }
+
+  if (filters.emailState) {
+    where.emailNotificationState = filters.emailState;
+  }
+
+  if (filters.workedWithBefore) {
+    where.workedWithBefore = filters.workedWithBefore;
+  }
+
+  if (filters.hasAttachment !== null) {
+    where.attachments = filters.hasAttachment
+      ? { some: { commentId: null } }
+      : { none: { commentId: null } };
+  }
+
+  // Deadlines are stored as the storefront's `YYYY-MM-DD` text, so they
+  // compare as strings. Both bounds are always set so free-text deadlines
+  // from older forms fall outside any window.
+  if (filters.deadlineFrom || filters.deadlineTo) {
+    where.deliveryDeadline = {
+      gte: filters.deadlineFrom ?? "0000-01-01",
+      lte: filters.deadlineTo ?? "9999-12-31",
+    };
+  }
+
+  if (filters.product) {
+    where.OR = [
+      { productTitle: { contains: filters.product } },
+      { productReference: { contains: filters.product } },
+    ];
+  }
+
+  const search = filters.search;
+  if (!search) {
+    return { where, rankedIds: null, searchTruncated: false };
+  }
+
+  const matches = search.match
+    ? await findMatchingEnquiryIds(shop, search.match)
+    : null;
+  const rankedIds = matches?.ids ?? null;
+
+  where.AND = [
+    ...(search.statuses.length ? [{ status: { in: search.statuses } }] : []),
+    ...(rankedIds ? [{ id: { in: rankedIds } }] : []),
+  ];
+
+  return { where, rankedIds, searchTruncated: matches?.truncated ?? false };
+};
+
+/** Dashboard ordering for a sort; undated deadlines go last. */
+export const getEnquiryOrderBy = (
+  sort: EnquirySort | null,
+): Prisma.EnquiryOrderByWithRelationInput[] => {
+  switch (sort) {
+    case "oldest":
+      return [{ createdAt: "asc" }];
+    case "deadline":
+      return [
+        { deliveryDeadline: { sort: "asc", nulls: "last" } },
+        { createdAt: "desc" },
+      ];
+    default:
+      return [{ createdAt: "desc" }];
+  }
+};
@@ -0,0 +1,159 @@
+import type { EnquiryFormField, Prisma } from "@prisma/client";
+
+import prisma from "../db.server";
+import { rules, type FieldRule, type FieldSchema } from "./enquiry-validation.server";
+
+export const CUSTOM_FIELD_TYPES = [
+  { value: "text", label: "Short text" },
+  { value: "textarea", label: "Long text" },
+  { value: "number", label: "Number" },
+  { value: "email", label: "Email" },
+  { value: "tel", label: "Phone" },
+  { value: "date", label: "Date" },
+  { value: "select", label: "Dropdown" },
+  { value: "checkbox", label: "Checkbox" },
+] as const;
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number]["value"];
+
+const CUSTOM_FIELD_TYPE_VALUES: readonly string[] = CUSTOM_FIELD_TYPES.map(
+  (type) => type.value,
+);
+
+export const isCustomFieldType = (value: string): value is CustomFieldType =>
+  CUSTOM_FIELD_TYPE_VALUES.includes(value);
+
+/** Snapshot of an answer stored on `Enquiry.customFields`. */
+export type CustomFieldAnswer = {
+  key: string;
+  label: string;
+  type: string;
+  value: string;
+};
+
+export type PublicFormField = {
+  key: string;
+  name: string;
+  label: string;
+  type: CustomFieldType;
+  required: boolean;
+  options: string[];
+  helpText: string | null;
+};
+
+const CUSTOM_FIELD_PREFIX = "custom_fields";
+
+export const getCustomFieldInputName = (key: string) =>
+  `${CUSTOM_FIELD_PREFIX}[${key}]`;
+
+export const parseFieldOptions = (value: Prisma.JsonValue | null) =>
+  Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === "string")
+    : [];
+
+export const slugifyFieldKey = (label: string) =>
+  label
+    .normalize("NFKD")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 40) || "field";
+
+export const getFormFields = (shop: string) =>
+  prisma.enquiryFormField.findMany({
+    where: { shop },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+  });
+
+export const toPublicFormField = (field: EnquiryFormField): PublicFormField => ({
+  key: field.key,
+  name: getCustomFieldInputName(field.key),
+  label: field.label,
+  type: isCustomFieldType(field.type) ? field.type : "text",
+  required: field.required,
+  options: parseFieldOptions(field.options),
+  helpText: field.helpText,
+});
+
+const TYPE_RULES: Record<CustomFieldType, FieldRule[]> = {
+  text: [rules.maxLength(500)],
+  textarea: [rules.maxLength(5000)],
+  number: [rules.numeric],
+  email: [rules.maxLength(320), rules.email],
+  tel: [rules.maxLength(40), rules.phone],
+  date: [rules.validDate],
+  select: [],
+  checkbox: [],
+};
+
+export const buildCustomFieldSchema = (
+  fields: EnquiryFormField[],
+): FieldSchema =>
+  Object.fromEntries(
+    fields.map((field) => {
+      const publicField = toPublicFormField(field);
+      const fieldRules: FieldRule[] = [
+        ...(field.required ? [rules.required] : []),
+        ...TYPE_RULES[publicField.type],
+        ...(publicField.type === "select"
+          ? [rules.oneOf(publicField.options)]
+          : []),
+      ];
+      return [publicField.name, fieldRules];
+    }),
+  );
+
+export const collectCustomFieldAnswers = (
+  formData: FormData,
+  fields: EnquiryFormField[],
+): CustomFieldAnswer[] =>
+  fields.flatMap((field) => {
+    const raw = formData.get(getCustomFieldInputName(field.key));
+    const value = typeof raw === "string" ? raw.trim() : "";
+
+    if (field.type === "checkbox") {
+      return [
+        {
+          key: field.key,
+          label: field.label,
+          type: field.type,
+          value: value ? "Yes" : "No",
+        },
+      ];
+    }
+
+    if (!value) {
+      return [];
+    }
+
+    return [{ key: field.key, label: field.label, type: field.type, value }];
+  });
+
+export const parseCustomFieldAnswers = (
+  value: Prisma.JsonValue | null,
+): CustomFieldAnswer[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      return [];
+    }
+    const candidate = entry as Record<string, unknown>;
+    if (
+      typeof candidate.key !== "string" ||
+      typeof candidate.label !== "string" ||
+      typeof candidate.value !== "string"
+    ) {
+      return [];
+    }
+    return [
+      {
+        key: candidate.key,
+        label: candidate.label,
+        type: typeof candidate.type === "string" ? candidate.type : "text",
+        value: candidate.value,
+      },
+    ];
+  });
+};
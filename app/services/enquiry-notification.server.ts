@@ -0,0 +1,89 @@
+import prisma from "../db.server";
+import { getAttachmentStorage } from "./attachment-storage.server";
+import { getEmailTemplate } from "./email-template.server";
+import { parseCustomFieldAnswers } from "./enquiry-form.server";
+import {
+  getDashboardUrl,
+  type AttachmentPayload,
+  type EnquiryEmailPayload,
+} from "./enquiry-email.server";
+
+const findEnquiry = (enquiryId: string) =>
+  prisma.enquiry.findUnique({
+    where: { id: enquiryId },
+    omit: { attachmentData: true },
+    include: {
+      // Files the customer sent with an email reply are not resent.
+      attachments: {
+        where: { commentId: null },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+
+type StoredEnquiry = NonNullable<Awaited<ReturnType<typeof findEnquiry>>>;
+
+const toEmailPayload = (enquiry: StoredEnquiry) => {
+  const { attachments: storedAttachments, customFields, ...fields } = enquiry;
+
+  return {
+    ...fields,
+    workedWithBefore:
+      fields.workedWithBefore as EnquiryEmailPayload["workedWithBefore"],
+    attachmentFileNames: storedAttachments.map(
+      (attachment) => attachment.fileName,
+    ),
+    customFields: parseCustomFieldAnswers(customFields),
+  };
+};
+
+/**
+ * Builds the email payload for a stored enquiry without reading attachment
+ * data, for previews. Returns null when the enquiry does not exist.
+ */
+export const loadEnquiryEmailPayload = async (enquiryId: string) => {
+  const enquiry = await findEnquiry(enquiryId);
+  return enquiry ? toEmailPayload(enquiry) : null;
+};
+
+/**
+ * Rebuilds the email payload for a stored enquiry, reading its attachments
+ * back from storage, along with the shop's email template. Returns null when
+ * the enquiry does not exist.
+ */
+export const loadEnquiryNotification = async (enquiryId: string) => {
+  const enquiry = await findEnquiry(enquiryId);
+
+  if (!enquiry) {
+    return null;
+  }
+
+  const storage = getAttachmentStorage();
+  const attachments: AttachmentPayload[] = [];
+  for (const attachment of enquiry.attachments) {
+    const data = await storage.read(attachment.storageKey);
+    if (!data) {
+      console.warn("Attachment missing from storage", {
+        enquiryId,
+        attachmentId: attachment.id,
+      });
+      continue;
+    }
+    attachments.push({
+      filename: attachment.fileName,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      data,
+      url: getDashboardUrl(
+        enquiry.shop,
+        `/app/enquiries/${enquiryId}/attachments/${attachment.id}`,
+      ),
+    });
+  }
+
+  return {
+    enquiry: toEmailPayload(enquiry),
+    attachments,
+    template: await getEmailTemplate(enquiry.shop),
+  };
+};
@@ -0,0 +1,900 @@
+import { randomUUID } from "node:crypto";
+import { Prisma, type EnquiryEmailOutbox } from "@prisma/client";
+
+import prisma from "../db.server";
+import { renderMentionEmail } from "./enquiry-comments.server";
+import {
+  ENQUIRY_EMAIL_RECIPIENT,
+  ENQUIRY_EMAIL_STATUS,
+  ENQUIRY_NOTIFICATION_STATE,
+  resolveEnquiryRecipients,
+  sendEnquiryEmails,
+  type EnquiryEmailRecipient,
+  type EnquiryNotificationState,
+} from "./enquiry-email.server";
+import { loadEnquiryNotification } from "./enquiry-notification.server";
+import {
+  ENQUIRY_EVENT_TYPE,
+  recordEnquiryEvent,
+} from "./enquiry-events.server";
+import { getStatusLabels, getWorkflow } from "./enquiry-workflow.server";
+import { describeMailerProblem, getMailer } from "./mailer.server";
+import { buildReplyAddress } from "./reply-address.server";
+import { renderStatusEmailForEnquiry } from "./status-email.server";
+
+const readSetting = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const OUTBOX_SETTINGS = {
+  pollIntervalMs: readSetting(process.env.EMAIL_OUTBOX_POLL_INTERVAL_MS, 15_000),
+  batchSize: readSetting(process.env.EMAIL_OUTBOX_BATCH_SIZE, 20),
+  maxAttempts: readSetting(process.env.EMAIL_OUTBOX_MAX_ATTEMPTS, 6),
+  baseDelaySeconds: readSetting(process.env.EMAIL_OUTBOX_RETRY_BASE_SECONDS, 60),
+  maxDelaySeconds: readSetting(
+    process.env.EMAIL_OUTBOX_RETRY_MAX_SECONDS,
+    6 * 60 * 60,
+  ),
+  // Rows left in SENDING this long belong to a worker that died mid-send.
+  lockTimeoutMs: readSetting(process.env.EMAIL_OUTBOX_LOCK_TIMEOUT_MS, 10 * 60_000),
+};
+
+export const OUTBOX_STATUS = {
+  PENDING: "PENDING",
+  SENDING: "SENDING",
+  SENT: "SENT",
+  FAILED: "FAILED",
+} as const;
+
+/** 1m, 2m, 4m, ... capped at `maxDelaySeconds`, with up to 10% jitter. */
+export const getRetryDelayMs = (attempts: number) => {
+  const exponent = Math.max(0, attempts - 1);
+  const delaySeconds = Math.min(
+    OUTBOX_SETTINGS.baseDelaySeconds * 2 ** exponent,
+    OUTBOX_SETTINGS.maxDelaySeconds,
+  );
+  const jitter = 1 + Math.random() * 0.1;
+  return Math.round(delaySeconds * 1000 * jitter);
+};
+
+const recipientKey = (recipient: EnquiryEmailRecipient) =>
+  `${recipient.recipientType}:${recipient.email.trim().toLowerCase()}`;
+
+/**
+ * Latest logged attempt for each standard recipient (staff and customer),
+ * across every batch ever sent for the enquiry. Ad-hoc copies sent to other
+ * addresses, customer status updates and mention emails are left out.
+ */
+const getLatestAttempts = async (enquiryId: string) => {
+  const logs = await prisma.enquiryEmailLog.findMany({
+    where: {
+      enquiryId,
+      statusKey: null,
+      commentId: null,
+      recipientType: {
+        in: [ENQUIRY_EMAIL_RECIPIENT.STAFF, ENQUIRY_EMAIL_RECIPIENT.CUSTOMER],
+      },
+    },
+    orderBy: { createdAt: "desc" },
+    select: {
+      recipient: true,
+      recipientType: true,
+      status: true,
+      errorMessage: true,
+    },
+  });
+
+  const latest = new Map<string, (typeof logs)[number]>();
+  for (const log of logs) {
+    const key = recipientKey({
+      email: log.recipient,
+      recipientType: log.recipientType,
+    });
+    if (!latest.has(key)) {
+      latest.set(key, log);
+    }
+  }
+
+  return Array.from(latest.values());
+};
+
+/** Staff and customer addresses whose most recent attempt failed. */
+export const getFailedRecipients = async (
+  enquiryId: string,
+): Promise<EnquiryEmailRecipient[]> =>
+  (await getLatestAttempts(enquiryId))
+    .filter((attempt) => attempt.status === ENQUIRY_EMAIL_STATUS.FAILURE)
+    .map((attempt) => ({
+      email: attempt.recipient,
+      recipientType: attempt.recipientType,
+    }));
+
+/**
+ * Recomputes the enquiry's notification summary from its full email history
+ * plus any messages still waiting in the outbox: SENT once every recipient's
+ * latest attempt succeeded, PARTIAL when only some did.
+ */
+export const recomputeNotificationState = async (enquiryId: string) => {
+  const [latestAttempts, inFlight] = await Promise.all([
+    getLatestAttempts(enquiryId),
+    prisma.enquiryEmailOutbox.count({
+      where: {
+        enquiryId,
+        status: { in: [OUTBOX_STATUS.PENDING, OUTBOX_STATUS.SENDING] },
+        statusKey: null,
+        commentId: null,
+        recipientType: {
+          in: [ENQUIRY_EMAIL_RECIPIENT.STAFF, ENQUIRY_EMAIL_RECIPIENT.CUSTOMER],
+        },
+      },
+    }),
+  ]);
+
+  if (!latestAttempts.length && !inFlight) {
+    return null;
+  }
+
+  const failures = latestAttempts.filter(
+    (attempt) => attempt.status === ENQUIRY_EMAIL_STATUS.FAILURE,
+  );
+  const sent = latestAttempts.length - failures.length;
+
+  let notificationState: EnquiryNotificationState;
+  if (sent > 0 && failures.length === 0 && inFlight === 0) {
+    notificationState = ENQUIRY_NOTIFICATION_STATE.SENT;
+  } else if (sent > 0) {
+    notificationState = ENQUIRY_NOTIFICATION_STATE.PARTIAL;
+  } else if (inFlight > 0) {
+    notificationState = ENQUIRY_NOTIFICATION_STATE.PENDING;
+  } else {
+    notificationState = ENQUIRY_NOTIFICATION_STATE.FAILED;
+  }
+
+  const lastError = failures[0]?.errorMessage ?? null;
+
+  await prisma.enquiry.update({
+    where: { id: enquiryId },
+    data: { emailNotificationState: notificationState, lastEmailError: lastError },
+  });
+
+  return notificationState;
+};
+
+/**
+ * Puts messages whose worker died or hung mid-send back in the queue. The
+ * lost send counts as an attempt, so a message that keeps taking the worker
+ * down still fails once it reaches `maxAttempts` instead of looping forever.
+ */
+const releaseStaleLocks = async (now: Date, enquiryId?: string) => {
+  const stale = {
+    ...(enquiryId ? { enquiryId } : {}),
+    status: OUTBOX_STATUS.SENDING,
+    lockedAt: {
+      lt: new Date(now.getTime() - OUTBOX_SETTINGS.lockTimeoutMs),
+    },
+  };
+  const released = await prisma.enquiryEmailOutbox.findMany({
+    where: stale,
+    select: { id: true, enquiryId: true },
+  });
+
+  if (!released.length) {
+    return;
+  }
+
+  const lastError = "The worker stopped before the send finished";
+  const ids = released.map((row) => row.id);
+  // The status and lock are re-checked so a row another worker has just
+  // released is not counted twice.
+  await prisma.$transaction([
+    prisma.enquiryEmailOutbox.updateMany({
+      where: {
+        ...stale,
+        id: { in: ids },
+        attempts: { gte: OUTBOX_SETTINGS.maxAttempts - 1 },
+      },
+      data: {
+        status: OUTBOX_STATUS.FAILED,
+        attempts: { increment: 1 },
+        lastError,
+        lockedBy: null,
+        lockedAt: null,
+      },
+    }),
+    prisma.enquiryEmailOutbox.updateMany({
+      where: { ...stale, id: { in: ids } },
+      data: {
+        status: OUTBOX_STATUS.PENDING,
+        attempts: { increment: 1 },
+        nextAttemptAt: now,
+        lastError,
+        lockedBy: null,
+        lockedAt: null,
+      },
+    }),
+  ]);
+
+  console.warn("Released stale enquiry email outbox locks", {
+    messages: ids.length,
+  });
+
+  for (const id of new Set(released.map((row) => row.enquiryId))) {
+    await recomputeNotificationState(id);
+  }
+};
+
+const claimDueMessages = async (
+  workerId: string,
+  now: Date,
+  enquiryId?: string,
+) => {
+  await releaseStaleLocks(now, enquiryId);
+
+  const due = await prisma.enquiryEmailOutbox.findMany({
+    where: {
+      ...(enquiryId ? { enquiryId } : {}),
+      status: OUTBOX_STATUS.PENDING,
+      nextAttemptAt: { lte: now },
+    },
+    orderBy: { nextAttemptAt: "asc" },
+    take: OUTBOX_SETTINGS.batchSize,
+    select: { id: true },
+  });
+
+  if (!due.length) {
+    return [];
+  }
+
+  // Re-check the status in the update so two workers never claim the same row.
+  await prisma.enquiryEmailOutbox.updateMany({
+    where: {
+      id: { in: due.map((row) => row.id) },
+      status: OUTBOX_STATUS.PENDING,
+      nextAttemptAt: { lte: now },
+    },
+    data: { status: OUTBOX_STATUS.SENDING, lockedBy: workerId, lockedAt: now },
+  });
+
+  return prisma.enquiryEmailOutbox.findMany({
+    where: { lockedBy: workerId, status: OUTBOX_STATUS.SENDING },
+  });
+};
+
+/** Marks a claimed message sent, or schedules its retry when `error` is set. */
+const settleMessage = (
+  message: EnquiryEmailOutbox,
+  attemptedAt: Date,
+  error: string | null,
+) => {
+  const attempts = message.attempts + 1;
+  const exhausted = attempts >= OUTBOX_SETTINGS.maxAttempts;
+
+  return prisma.enquiryEmailOutbox.update({
+    where: { id: message.id },
+    data:
+      error === null
+        ? {
+            status: OUTBOX_STATUS.SENT,
+            attempts,
+            sentAt: attemptedAt,
+            lastError: null,
+            lockedBy: null,
+            lockedAt: null,
+          }
+        : {
+            status: exhausted ? OUTBOX_STATUS.FAILED : OUTBOX_STATUS.PENDING,
+            attempts,
+            nextAttemptAt: new Date(
+              attemptedAt.getTime() + getRetryDelayMs(attempts),
+            ),
+            lastError: error,
+            lockedBy: null,
+            lockedAt: null,
+          },
+  });
+};
+
+const sendEnquiryMessages = async (
+  enquiryId: string,
+  messages: EnquiryEmailOutbox[],
+) => {
+  const attemptedAt = new Date();
+  const notification = await loadEnquiryNotification(enquiryId);
+
+  if (!notification) {
+    await prisma.enquiryEmailOutbox.deleteMany({
+      where: { id: { in: messages.map((message) => message.id) } },
+    });
+    return;
+  }
+
+  const outcome = await sendEnquiryEmails({
+    ...notification,
+    replyTo: buildReplyAddress(enquiryId),
+    recipients: messages.map((message) => ({
+      email: message.recipient,
+      recipientType: message.recipientType,
+    })),
+  });
+
+  const operations: Prisma.PrismaPromise<unknown>[] = [
+    prisma.enquiry.update({
+      where: { id: enquiryId },
+      data: { lastEmailAttemptAt: attemptedAt },
+    }),
+  ];
+
+  // Attempts are matched to their message by recipient rather than by
+  // position, so a recipient the send skipped is never credited with
+  // another's result.
+  const attemptsByRecipient = new Map<
+    string,
+    (typeof outcome.attempts)[number][]
+  >();
+  for (const attempt of outcome.attempts) {
+    const key = recipientKey({
+      email: attempt.recipient,
+      recipientType: attempt.recipientType,
+    });
+    attemptsByRecipient.set(key, [
+      ...(attemptsByRecipient.get(key) ?? []),
+      attempt,
+    ]);
+  }
+
+  messages.forEach((message) => {
+    const attempt = attemptsByRecipient
+      .get(
+        recipientKey({
+          email: message.recipient,
+          recipientType: message.recipientType,
+        }),
+      )
+      ?.shift();
+    const attempts = message.attempts + 1;
+
+    if (attempt) {
+      operations.push(
+        prisma.enquiryEmailLog.create({
+          data: {
+            enquiryId,
+            recipient: attempt.recipient,
+            recipientType: attempt.recipientType,
+            status: attempt.status,
+            subject: attempt.subject,
+            errorMessage: attempt.errorMessage,
+            providerId: attempt.providerId,
+            metadata:
+              attempt.metadata !== null
+                ? ({
+                    ...attempt.metadata,
+                    outboxId: message.id,
+                    attempt: attempts,
+                  } as Prisma.InputJsonObject)
+                : { outboxId: message.id, attempt: attempts },
+          },
+        }),
+        recordEnquiryEvent({
+          enquiryId,
+          type:
+            attempt.status === ENQUIRY_EMAIL_STATUS.SUCCESS
+              ? ENQUIRY_EVENT_TYPE.EMAIL_SENT
+              : ENQUIRY_EVENT_TYPE.EMAIL_FAILED,
+          note: attempt.errorMessage,
+          metadata: {
+            recipient: attempt.recipient,
+            recipientType: attempt.recipientType,
+            attempt: attempts,
+          },
+        }),
+      );
+    }
+
+    operations.push(
+      settleMessage(
+        message,
+        attemptedAt,
+        attempt?.status === ENQUIRY_EMAIL_STATUS.SUCCESS
+          ? null
+          : (attempt?.errorMessage ?? outcome.lastError ?? "Unknown error"),
+      ),
+    );
+  });
+
+  await prisma.$transaction(operations);
+  await recomputeNotificationState(enquiryId);
+
+  console.info("Processed enquiry email outbox", {
+    enquiryId,
+    messages: messages.length,
+    notificationState: outcome.notificationState,
+  });
+};
+
+/**
+ * Sends a single rendered email for a claimed message, then logs the attempt,
+ * records it on the timeline and settles the message in one transaction.
+ * `kind` marks the log row as a status update or mention email.
+ */
+const deliverMessage = async (
+  message: EnquiryEmailOutbox,
+  rendered: {
+    to: string;
+    subject: string;
+    text: string;
+    html: string;
+    replyTo?: string | null;
+  },
+  kind: { statusKey: string } | { commentId: string },
+) => {
+  const attemptedAt = new Date();
+  const mailer = getMailer();
+  let providerId: string | null = null;
+  let errorMessage: string | null = mailer ? null : describeMailerProblem();
+
+  if (mailer) {
+    try {
+      const result = await mailer.send({
+        to: rendered.to,
+        subject: rendered.subject,
+        text: rendered.text,
+        html: rendered.html,
+        ...(rendered.replyTo ? { replyTo: rendered.replyTo } : {}),
+      });
+      providerId = result.providerId;
+    } catch (error) {
+      console.error("Failed to send outbox email", {
+        enquiryId: message.enquiryId,
+        ...kind,
+        error,
+      });
+      errorMessage =
+        error instanceof Error ? error.message : "Unknown error sending email";
+    }
+  }
+
+  const attempt = message.attempts + 1;
+
+  await prisma.$transaction([
+    prisma.enquiryEmailLog.create({
+      data: {
+        enquiryId: message.enquiryId,
+        recipient: rendered.to,
+        recipientType: message.recipientType,
+        status:
+          errorMessage === null
+            ? ENQUIRY_EMAIL_STATUS.SUCCESS
+            : ENQUIRY_EMAIL_STATUS.FAILURE,
+        subject: rendered.subject,
+        errorMessage,
+        providerId,
+        ...kind,
+        metadata: { outboxId: message.id, attempt },
+      },
+    }),
+    recordEnquiryEvent({
+      enquiryId: message.enquiryId,
+      type:
+        errorMessage === null
+          ? ENQUIRY_EVENT_TYPE.EMAIL_SENT
+          : ENQUIRY_EVENT_TYPE.EMAIL_FAILED,
+      note: errorMessage,
+      metadata: {
+        recipient: rendered.to,
+        recipientType: message.recipientType,
+        ...kind,
+        attempt,
+      },
+    }),
+    settleMessage(message, attemptedAt, errorMessage),
+  ]);
+};
+
+/**
+ * Sends a customer status update email, rendered from the shop's template
+ * for `statusKey` as it stands now. Messages for a status whose email has
+ * since been switched off are dropped; a hard bounce fails them for good.
+ */
+const sendStatusMessage = async (
+  message: EnquiryEmailOutbox,
+  statusKey: string,
+) => {
+  const enquiry = await prisma.enquiry.findUnique({
+    where: { id: message.enquiryId },
+    select: { shop: true, customerEmailBouncedAt: true },
+  });
+
+  if (enquiry?.customerEmailBouncedAt) {
+    await prisma.enquiryEmailOutbox.update({
+      where: { id: message.id },
+      data: {
+        status: OUTBOX_STATUS.FAILED,
+        lastError: "The customer's email address has bounced",
+        lockedBy: null,
+        lockedAt: null,
+      },
+    });
+    return;
+  }
+
+  const rendered = enquiry
+    ? await renderStatusEmailForEnquiry({
+        enquiryId: message.enquiryId,
+        statusKey,
+        statusLabel:
+          getStatusLabels(await getWorkflow(enquiry.shop)).get(statusKey) ??
+          statusKey,
+      })
+    : null;
+
+  if (!rendered) {
+    await prisma.enquiryEmailOutbox.deleteMany({ where: { id: message.id } });
+    return;
+  }
+
+  await deliverMessage(message, rendered, { statusKey });
+};
+
+/**
+ * Sends a staff member the comment that mentioned them, as it reads now.
+ * Messages for a comment that has since been deleted are dropped.
+ */
+const sendMentionMessage = async (
+  message: EnquiryEmailOutbox,
+  commentId: string,
+) => {
+  const comment = await prisma.enquiryComment.findUnique({
+    where: { id: commentId },
+    select: {
+      body: true,
+      authorName: true,
+      authorEmail: true,
+      enquiry: { select: { shop: true, name: true } },
+    },
+  });
+
+  if (!comment) {
+    await prisma.enquiryEmailOutbox.deleteMany({ where: { id: message.id } });
+    return;
+  }
+
+  const rendered = renderMentionEmail({
+    shop: comment.enquiry.shop,
+    enquiryName: comment.enquiry.name,
+    authorName: comment.authorName ?? comment.authorEmail,
+    body: comment.body,
+  });
+
+  await deliverMessage(
+    message,
+    { ...rendered, to: message.recipient },
+    { commentId },
+  );
+};
+
+/**
+ * Sends every due outbox message once, optionally only those for a single
+ * enquiry. Returns the number of messages tried.
+ */
+export const processOutbox = async ({
+  enquiryId,
+}: { enquiryId?: string } = {}) => {
+  const workerId = randomUUID();
+  const claimed = await claimDueMessages(workerId, new Date(), enquiryId);
+
+  const byEnquiry = new Map<string, EnquiryEmailOutbox[]>();
+  for (const message of claimed) {
+    const group = byEnquiry.get(message.enquiryId) ?? [];
+    group.push(message);
+    byEnquiry.set(message.enquiryId, group);
+  }
+
+  for (const [enquiryId, messages] of byEnquiry) {
+    try {
+      const notifications = messages.filter(
+        (message) => message.statusKey === null && message.commentId === null,
+      );
+      if (notifications.length) {
+        await sendEnquiryMessages(enquiryId, notifications);
+      }
+      for (const message of messages) {
+        if (message.statusKey !== null) {
+          await sendStatusMessage(message, message.statusKey);
+        } else if (message.commentId !== null) {
+          await sendMentionMessage(message, message.commentId);
+        }
+      }
+    } catch (error) {
+      console.error("Failed to process enquiry email outbox", {
+        enquiryId,
+        error,
+      });
+      // Messages already settled before the error keep their outcome.
+      await prisma.enquiryEmailOutbox.updateMany({
+        where: {
+          id: { in: messages.map((message) => message.id) },
+          status: OUTBOX_STATUS.SENDING,
+        },
+        data: {
+          status: OUTBOX_STATUS.PENDING,
+          nextAttemptAt: new Date(Date.now() + getRetryDelayMs(1)),
+          lockedBy: null,
+          lockedAt: null,
+        },
+      });
+    }
+  }
+
+  return claimed.length;
+};
+
+type OutboxWorkerState = {
+  timer: ReturnType<typeof setTimeout> | null;
+  running: boolean;
+  rerun: boolean;
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var enquiryOutboxWorker: OutboxWorkerState | undefined;
+}
+
+const runOutbox = async (state: OutboxWorkerState) => {
+  if (state.running) {
+    state.rerun = true;
+    return;
+  }
+
+  state.running = true;
+  try {
+    let processed = 0;
+    do {
+      state.rerun = false;
+      processed = await processOutbox();
+    } while (state.rerun || processed >= OUTBOX_SETTINGS.batchSize);
+  } catch (error) {
+    console.error("Enquiry email outbox run failed", error);
+  } finally {
+    state.running = false;
+  }
+};
+
+const scheduleOutboxRun = (delayMs = OUTBOX_SETTINGS.pollIntervalMs) => {
+  const state = global.enquiryOutboxWorker;
+  if (!state) {
+    return;
+  }
+
+  if (state.timer) {
+    clearTimeout(state.timer);
+  }
+
+  state.timer = setTimeout(async () => {
+    state.timer = null;
+    await runOutbox(state);
+    if (!state.timer) {
+      scheduleOutboxRun();
+    }
+  }, delayMs);
+  state.timer.unref?.();
+};
+
+/**
+ * Starts the polling loop inside the Node server. Safe to call more than once;
+ * dev reloads reuse the worker stored on `global`.
+ */
+export const startOutboxWorker = () => {
+  if (process.env.EMAIL_OUTBOX_WORKER === "off" || global.enquiryOutboxWorker) {
+    return;
+  }
+
+  global.enquiryOutboxWorker = { timer: null, running: false, rerun: false };
+  scheduleOutboxRun(0);
+  console.info("Enquiry email outbox worker started", {
+    pollIntervalMs: OUTBOX_SETTINGS.pollIntervalMs,
+    maxAttempts: OUTBOX_SETTINGS.maxAttempts,
+  });
+};
+
+/**
+ * Writes that queue one outbox message per recipient, for the caller to run
+ * in a transaction alongside its own changes; follow up with
+ * `afterOutboxQueued`. Pass `statusKey` or `commentId` to queue a status
+ * update or mention email instead of the enquiry notification. Recipients
+ * that already have a message of the same kind waiting for a retry are
+ * brought forward instead of being queued twice. `messageIds` holds one id
+ * per recipient.
+ */
+export const prepareOutboxMessages = async (
+  enquiryId: string,
+  recipients: EnquiryEmailRecipient[],
+  {
+    statusKey = null,
+    commentId = null,
+  }: { statusKey?: string | null; commentId?: string | null } = {},
+) => {
+  const waiting = await prisma.enquiryEmailOutbox.findMany({
+    where: { enquiryId, status: OUTBOX_STATUS.PENDING, statusKey, commentId },
+    select: { id: true, recipient: true, recipientType: true },
+  });
+  const waitingByKey = new Map(
+    waiting.map((row) => [
+      recipientKey({ email: row.recipient, recipientType: row.recipientType }),
+      row.id,
+    ]),
+  );
+
+  const now = new Date();
+  const uniqueTargets = Array.from(
+    new Map(
+      recipients.map((target) => [recipientKey(target), target]),
+    ).values(),
+  );
+  const toReschedule = uniqueTargets.flatMap((target) => {
+    const id = waitingByKey.get(recipientKey(target));
+    return id ? [id] : [];
+  });
+  // New rows get their ids here so callers can follow up on them.
+  const toCreate = uniqueTargets
+    .filter((target) => !waitingByKey.has(recipientKey(target)))
+    .map((target) => ({ ...target, id: randomUUID() }));
+
+  return {
+    operations: [
+      prisma.enquiryEmailOutbox.updateMany({
+        where: { id: { in: toReschedule } },
+        data: { nextAttemptAt: now },
+      }),
+      prisma.enquiryEmailOutbox.createMany({
+        data: toCreate.map((target) => ({
+          id: target.id,
+          enquiryId,
+          recipient: target.email,
+          recipientType: target.recipientType,
+          statusKey,
+          commentId,
+          nextAttemptAt: now,
+        })),
+      }),
+    ],
+    messageIds: [...toReschedule, ...toCreate.map((target) => target.id)],
+  };
+};
+
+/** Write that records an enquiry has nobody to notify. */
+export const markNoRecipients = (enquiryId: string) =>
+  prisma.enquiry.update({
+    where: { id: enquiryId },
+    data: {
+      emailNotificationState: ENQUIRY_NOTIFICATION_STATE.FAILED,
+      lastEmailError:
+        "No email recipients configured for enquiry notifications",
+    },
+  });
+
+/**
+ * Refreshes the notification summary of enquiries whose notifications were
+ * just queued and, unless `wake` is false, nudges the worker.
+ */
+export const afterOutboxQueued = async (
+  enquiryIds: string[],
+  { wake = true }: { wake?: boolean } = {},
+) => {
+  for (const enquiryId of new Set(enquiryIds)) {
+    await recomputeNotificationState(enquiryId);
+  }
+
+  if (wake) {
+    scheduleOutboxRun(0);
+  }
+};
+
+/**
+ * Queues one outbox message per recipient and, unless `wake` is false, nudges
+ * the worker. Defaults to the assignee, or the configured staff inboxes when
+ * nobody is assigned, plus the customer. A customer whose address has
+ * bounced is left out, even when passed in `recipients`. Returns the ids of
+ * the messages queued or brought forward, one per recipient.
+ */
+export const enqueueEnquiryNotifications = async (
+  enquiryId: string,
+  {
+    recipients,
+    wake = true,
+  }: { recipients?: EnquiryEmailRecipient[]; wake?: boolean } = {},
+) => {
+  const enquiry = await prisma.enquiry.findUnique({
+    where: { id: enquiryId },
+    select: {
+      id: true,
+      email: true,
+      assigneeEmail: true,
+      customerEmailBouncedAt: true,
+    },
+  });
+
+  if (!enquiry) {
+    return [];
+  }
+
+  const targets =
+    recipients?.filter(
+      (recipient) =>
+        !enquiry.customerEmailBouncedAt ||
+        recipient.recipientType !== ENQUIRY_EMAIL_RECIPIENT.CUSTOMER,
+    ) ?? resolveEnquiryRecipients(enquiry);
+
+  if (!targets.length) {
+    if (!recipients) {
+      await markNoRecipients(enquiryId);
+    }
+    return [];
+  }
+
+  const { operations, messageIds } = await prepareOutboxMessages(
+    enquiryId,
+    targets,
+  );
+  await prisma.$transaction(operations);
+  await afterOutboxQueued([enquiryId], { wake });
+
+  return messageIds;
+};
+
+/**
+ * Queues the customer's email for the enquiry's move to `statusKey` and,
+ * unless `wake` is false, nudges the worker. Returns the message id, or null
+ * when the enquiry is gone or the customer's address has hard-bounced.
+ */
+export const enqueueStatusEmail = async (
+  enquiryId: string,
+  statusKey: string,
+  { wake = true }: { wake?: boolean } = {},
+) => {
+  const enquiry = await prisma.enquiry.findUnique({
+    where: { id: enquiryId },
+    select: { email: true, customerEmailBouncedAt: true },
+  });
+
+  if (!enquiry || enquiry.customerEmailBouncedAt) {
+    return null;
+  }
+
+  const { operations, messageIds } = await prepareOutboxMessages(
+    enquiryId,
+    [{ email: enquiry.email, recipientType: ENQUIRY_EMAIL_RECIPIENT.CUSTOMER }],
+    { statusKey },
+  );
+  await prisma.$transaction(operations);
+
+  if (wake) {
+    scheduleOutboxRun(0);
+  }
+
+  return messageIds[0] ?? null;
+};
+
+/**
+ * Queues an email for each staff member mentioned in a comment and nudges
+ * the worker. Returns the ids of the messages queued, one per recipient.
+ */
+export const enqueueMentionEmails = async (
+  enquiryId: string,
+  commentId: string,
+  recipients: EnquiryEmailRecipient[],
+) => {
+  if (!recipients.length) {
+    return [];
+  }
+
+  const { operations, messageIds } = await prepareOutboxMessages(
+    enquiryId,
+    recipients,
+    { commentId },
+  );
+  await prisma.$transaction(operations);
+  scheduleOutboxRun(0);
+
+  return messageIds;
+};
@@ -0,0 +1,133 @@
+export type RequestTypeDefinition = {
+  value: string;
+  // Value of the storefront `?type=` parameter that selects this type.
+  param: string;
+  label: string;
+  subjectPrefix: string;
+  // Storefront heading used when the theme's locale files have no
+  // `sections.custom_enquiry.titles.<param>` translation for this type.
+  title: string;
+  // `{{ product_title }}` is replaced on the storefront.
+  titleWithProduct: string;
+  staffCopy: string;
+  customerCopy: string;
+  // Workflow status key; shops without it start at their first stage.
+  defaultStatus: string;
+};
+
+/**
+ * Every kind of storefront enquiry. Email subjects and copy, dashboard
+ * labels and starting status come from here. Storefront headings are
+ * translated in the theme extension's locale files; add a `titles` entry
+ * there alongside any new type.
+ */
+export const REQUEST_TYPES = [
+  {
+    value: "visual_enquiry",
+    param: "visual",
+    label: "Free visual",
+    subjectPrefix: "Free Visual",
+    title: "Request a FREE visual",
+    titleWithProduct: "Request a Free Visual for {{ product_title }}",
+    staffCopy: "A new free visual request has been submitted.",
+    customerCopy:
+      "We have received your free visual request and our design team will send you a visual shortly.",
+    defaultStatus: "NEW",
+  },
+  {
+    value: "quote",
+    param: "quote",
+    label: "Quote",
+    subjectPrefix: "Quote Request",
+    title: "Instant Quote",
+    titleWithProduct: "Instant Quote for {{ product_title }}",
+    staffCopy: "A new quote request has been submitted.",
+    customerCopy:
+      "We have received your quote request and will send you a quotation as soon as possible.",
+    defaultStatus: "NEW",
+  },
+  {
+    value: "sample",
+    param: "sample",
+    label: "Free sample",
+    subjectPrefix: "Sample Request",
+    title: "Order a Free Sample",
+    titleWithProduct: "Order a Free Sample for {{ product_title }}",
+    staffCopy:
+      "A new free sample request has been submitted. Check stock before confirming delivery.",
+    customerCopy:
+      "We have received your sample request and will confirm delivery details shortly.",
+    defaultStatus: "NEW",
+  },
+  {
+    value: "buy",
+    param: "buy",
+    label: "Buying request",
+    subjectPrefix: "Buying Request",
+    title: "Buying request",
+    titleWithProduct: "Buying request for {{ product_title }}",
+    staffCopy:
+      "A customer would like to place an order. Confirm pricing and availability with them.",
+    customerCopy:
+      "We have received your buying request and will be in touch to confirm your order.",
+    defaultStatus: "IN_PROGRESS",
+  },
+] as const satisfies readonly RequestTypeDefinition[];
+
+export type RequestTypeValue = (typeof REQUEST_TYPES)[number]["value"];
+
+export const DEFAULT_REQUEST_TYPE: RequestTypeValue = "visual_enquiry";
+
+const REQUEST_TYPE_MAP = new Map<string, RequestTypeDefinition>(
+  REQUEST_TYPES.map((type) => [type.value, type]),
+);
+
+export const isRequestType = (value: string): value is RequestTypeValue =>
+  REQUEST_TYPE_MAP.has(value);
+
+/**
+ * Resolves a submitted `request_type`, accepting either the stored value or
+ * the storefront `?type=` parameter. Unknown values fall back to the default
+ * type.
+ */
+export const normalizeRequestType = (
+  value: string | null | undefined,
+): RequestTypeValue => {
+  const candidate = value?.trim().toLowerCase() ?? "";
+  const match = REQUEST_TYPES.find(
+    (type) => type.value === candidate || type.param === candidate,
+  );
+  return match?.value ?? DEFAULT_REQUEST_TYPE;
+};
+
+/**
+ * Looks up a stored request type. Values saved before the registry existed
+ * get a generic definition labelled with the raw value.
+ */
+export const getRequestType = (value: string): RequestTypeDefinition => {
+  const known = REQUEST_TYPE_MAP.get(value);
+  if (known) {
+    return known;
+  }
+
+  return {
+    value,
+    param: value,
+    label: value,
+    subjectPrefix: "Enquiry",
+    title: value,
+    titleWithProduct: value,
+    staffCopy: "A new enquiry has been submitted.",
+    customerCopy: "We have received your enquiry and will be in touch shortly.",
+    defaultStatus: "NEW",
+  };
+};
+
+/** Request types as sent to the storefront block. */
+export const toPublicRequestTypes = () =>
+  REQUEST_TYPES.map((type) => ({
+    param: type.param,
+    value: type.value,
+    title: type.title,
+    titleWithProduct: type.titleWithProduct,
+  }));
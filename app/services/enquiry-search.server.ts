@@ -0,0 +1,145 @@
+import prisma from "../db.server";
+import type { Workflow } from "./enquiry-workflow.server";
+
+// Columns of the "EnquirySearch" FTS5 table that a query can name with
+// `field:`. Triggers in the 20260413090000_add_enquiry_search migration fill
+// them from the enquiry and its comments.
+export const SEARCH_FIELDS = [
+  "name",
+  "email",
+  "company",
+  "product",
+  "message",
+  "notes",
+  "comments",
+] as const;
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+const isSearchField = (value: string): value is SearchField =>
+  SEARCH_FIELDS.some((field) => field === value);
+
+// Matches beyond this are dropped, so the dashboard's other filters always
+// run against a bounded id list. Callers are told when that happens so they
+// can ask for a narrower search instead of acting on part of the results.
+// The dashboard pages ranked results in memory (getRankedPage in
+// app/routes/app.enquiries/route.tsx), so raising this much further needs
+// the paging pushed into SQL first.
+export const SEARCH_RESULT_LIMIT = 1000;
+
+export type SearchQuery = {
+  // FTS5 MATCH expression; null when the query only filters by status.
+  match: string | null;
+  // Workflow keys from `status:` qualifiers; any of them matches.
+  statuses: string[];
+};
+
+// A `field:` prefix, then a quoted phrase (closing quote optional) or a word.
+const TOKEN_PATTERN = /(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+const SEARCHABLE = /[\p{L}\p{N}]/u;
+
+const toStatusKey = (value: string, workflow: Workflow) => {
+  const normalized = value.trim().toLowerCase();
+  const status = workflow.statuses.find(
+    (candidate) =>
+      candidate.key.toLowerCase() === normalized ||
+      candidate.label.toLowerCase() === normalized ||
+      candidate.key.toLowerCase() === normalized.replace(/[\s-]+/g, "_"),
+  );
+
+  // Unknown statuses are kept so the search finds nothing rather than
+  // silently ignoring the qualifier.
+  return status?.key ?? value.trim().toUpperCase();
+};
+
+/**
+ * Turns what staff typed into an FTS5 expression. Words match as prefixes,
+ * `"quoted phrases"` match exactly, and `email:`, `product:` and the other
+ * SEARCH_FIELDS limit a term to one column. `status:` filters by workflow
+ * status, by key or label. Every term must match.
+ */
+export const parseSearchQuery = (
+  raw: string,
+  workflow: Workflow,
+): SearchQuery => {
+  const terms: string[] = [];
+  const statuses: string[] = [];
+
+  for (const token of raw.matchAll(TOKEN_PATTERN)) {
+    const [text, qualifier, phrase, word] = token;
+    const field = qualifier?.toLowerCase() ?? null;
+
+    if (field === "status") {
+      const value = phrase ?? word ?? "";
+      if (value.trim()) {
+        statuses.push(toStatusKey(value, workflow));
+      }
+      continue;
+    }
+
+    // An unknown qualifier, such as the scheme of a pasted URL, is searched
+    // as part of the text.
+    const column = field && isSearchField(field) ? field : null;
+    const value = (column ? phrase ?? word : phrase ?? text) ?? "";
+    const cleaned = value.replace(/"/g, " ").trim();
+
+    if (!SEARCHABLE.test(cleaned)) {
+      continue;
+    }
+
+    const expression = phrase !== undefined ? `"${cleaned}"` : `"${cleaned}"*`;
+    terms.push(column ? `${column} : ${expression}` : expression);
+  }
+
+  return {
+    match: terms.length ? terms.join(" AND ") : null,
+    statuses,
+  };
+};
+
+/**
+ * Ids of the shop's enquiries matching an FTS5 expression, best match
+ * first, up to SEARCH_RESULT_LIMIT. `truncated` is set when there were more.
+ */
+export const findMatchingEnquiryIds = async (shop: string, match: string) => {
+  const rows = await prisma.$queryRaw<Array<{ enquiryId: string }>>`
+    SELECT s."enquiryId"
+    FROM "EnquirySearch" s
+    JOIN "Enquiry" e ON e."id" = s."enquiryId"
+    WHERE "EnquirySearch" MATCH ${match} AND e."shop" = ${shop}
+    -- bm25 weights follow the column order, starting with the unindexed id:
+    -- a hit on the name or email outranks one deep in a comment.
+    ORDER BY bm25("EnquirySearch", 0, 10, 8, 5, 4, 1, 2, 1)
+    LIMIT ${SEARCH_RESULT_LIMIT + 1}
+  `;
+
+  return {
+    ids: rows.slice(0, SEARCH_RESULT_LIMIT).map((row) => row.enquiryId),
+    truncated: rows.length > SEARCH_RESULT_LIMIT,
+  };
+};
+
+/**
+ * Rebuilds the search index from scratch. The triggers keep it current, but
+ * a migration that redefines "Enquiry" or "EnquiryComment" drops them, so
+ * run this (`npm run search:reindex`) after recreating them.
+ */
+export const rebuildSearchIndex = async () => {
+  const [, inserted] = await prisma.$transaction([
+    prisma.$executeRaw`DELETE FROM "EnquirySearch"`,
+    prisma.$executeRaw`
+      INSERT INTO "EnquirySearch" ("enquiryId", "name", "email", "company", "product", "message", "notes", "comments")
+      SELECT
+        "id",
+        "name",
+        "email",
+        coalesce("companyName", ''),
+        coalesce("productTitle", '') || ' ' || coalesce("productReference", ''),
+        "message" || ' ' || coalesce("extraInformation", ''),
+        coalesce("statusNotes", '') || ' ' || coalesce("artworkNotes", ''),
+        coalesce((SELECT group_concat("body", ' ') FROM "EnquiryComment" WHERE "enquiryId" = "Enquiry"."id"), '')
+      FROM "Enquiry"
+    `,
+  ]);
+
+  return inserted;
+};
@@ -0,0 +1,368 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+
+import prisma from "../db.server";
+
+const readSetting = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const SPAM_SETTINGS = {
+  minSubmitSeconds: readSetting(process.env.ENQUIRY_MIN_SUBMIT_SECONDS, 3),
+  tokenMaxAgeSeconds: readSetting(
+    process.env.ENQUIRY_FORM_TOKEN_MAX_AGE_SECONDS,
+    24 * 60 * 60,
+  ),
+  rateLimitWindowSeconds: readSetting(
+    process.env.ENQUIRY_RATE_LIMIT_WINDOW_SECONDS,
+    60 * 60,
+  ),
+  maxPerIp: readSetting(process.env.ENQUIRY_RATE_LIMIT_PER_IP, 5),
+  maxPerEmail: readSetting(process.env.ENQUIRY_RATE_LIMIT_PER_EMAIL, 3),
+  scoreThreshold: readSetting(process.env.ENQUIRY_SPAM_SCORE_THRESHOLD, 5),
+  // Proxies in front of the app that append to X-Forwarded-For. Entries left
+  // of the ones they added come from the client and can be forged. Storefront
+  // submissions come through Shopify's app proxy and then the host's load
+  // balancer, so the shopper is the second entry from the right.
+  trustedProxyHops: readSetting(process.env.ENQUIRY_TRUSTED_PROXY_HOPS, 2),
+};
+
+/** Name of the hidden input real visitors never fill in. */
+export const HONEYPOT_FIELD = "website";
+export const FORM_TOKEN_FIELD = "form_token";
+
+export const SPAM_REASON = {
+  HONEYPOT: "honeypot",
+  MISSING_TOKEN: "missing_token",
+  INVALID_TOKEN: "invalid_token",
+  EXPIRED_TOKEN: "expired_token",
+  TOO_FAST: "too_fast",
+  LINKS: "links",
+  SPAM_KEYWORDS: "spam_keywords",
+  LINK_IN_NAME: "link_in_name",
+  SHOUTING: "shouting",
+  REPEATED_CHARACTERS: "repeated_characters",
+  NON_PRINTABLE: "non_printable",
+} as const;
+export type SpamReason = (typeof SPAM_REASON)[keyof typeof SPAM_REASON];
+
+export const SPAM_REASON_LABELS: Record<SpamReason, string> = {
+  honeypot: "Hidden honeypot field was filled in",
+  missing_token: "Form token missing",
+  invalid_token: "Form token invalid",
+  expired_token: "Form token expired",
+  too_fast: "Submitted faster than a person could type",
+  links: "Message contains several links",
+  spam_keywords: "Message contains common spam phrases",
+  link_in_name: "Name contains a link",
+  shouting: "Message is mostly capital letters",
+  repeated_characters: "Message contains long runs of one character",
+  non_printable: "Message contains hidden control characters",
+};
+
+const REASON_WEIGHTS: Record<SpamReason, number> = {
+  honeypot: 10,
+  missing_token: 3,
+  invalid_token: 5,
+  expired_token: 2,
+  too_fast: 5,
+  links: 2,
+  spam_keywords: 3,
+  link_in_name: 4,
+  shouting: 1,
+  repeated_characters: 1,
+  non_printable: 2,
+};
+
+const SPAM_PHRASES = [
+  "casino",
+  "viagra",
+  "cialis",
+  "crypto",
+  "bitcoin",
+  "forex",
+  "backlink",
+  "seo service",
+  "rank your website",
+  "first page of google",
+  "payday loan",
+  "guest post",
+  "web traffic",
+];
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+const HAS_LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S/i;
+
+const getTokenSecret = () =>
+  process.env.ENQUIRY_FORM_TOKEN_SECRET || process.env.SHOPIFY_API_SECRET || "";
+
+const signTimestamp = (timestamp: string) =>
+  createHmac("sha256", getTokenSecret()).update(timestamp).digest("hex");
+
+/**
+ * Issues a signed token carrying the time the form was loaded. Submissions
+ * that come back sooner than `minSubmitSeconds` are treated as automated.
+ */
+export const issueFormToken = (now = new Date()) => {
+  const timestamp = String(now.getTime());
+  return `${timestamp}.${signTimestamp(timestamp)}`;
+};
+
+export const checkFormToken = (
+  token: string | null,
+  now = new Date(),
+): SpamReason | null => {
+  if (!token) {
+    return SPAM_REASON.MISSING_TOKEN;
+  }
+
+  const [timestamp, signature] = token.split(".");
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) {
+    return SPAM_REASON.INVALID_TOKEN;
+  }
+
+  const expected = Buffer.from(signTimestamp(timestamp), "hex");
+  const received = Buffer.from(signature, "hex");
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    return SPAM_REASON.INVALID_TOKEN;
+  }
+
+  const ageSeconds = (now.getTime() - Number(timestamp)) / 1000;
+  if (ageSeconds < SPAM_SETTINGS.minSubmitSeconds) {
+    return SPAM_REASON.TOO_FAST;
+  }
+
+  if (ageSeconds > SPAM_SETTINGS.tokenMaxAgeSeconds) {
+    return SPAM_REASON.EXPIRED_TOKEN;
+  }
+
+  return null;
+};
+
+const scoreContent = ({
+  name,
+  message,
+}: {
+  name: string;
+  message: string | null;
+}): SpamReason[] => {
+  const reasons: SpamReason[] = [];
+  const text = message ?? "";
+  const lowered = text.toLowerCase();
+
+  if ((text.match(LINK_PATTERN) ?? []).length >= 2) {
+    reasons.push(SPAM_REASON.LINKS);
+  }
+
+  if (SPAM_PHRASES.some((phrase) => lowered.includes(phrase))) {
+    reasons.push(SPAM_REASON.SPAM_KEYWORDS);
+  }
+
+  if (HAS_LINK_PATTERN.test(name)) {
+    reasons.push(SPAM_REASON.LINK_IN_NAME);
+  }
+
+  const letters = text.replace(/[^a-z]/gi, "");
+  if (letters.length >= 20 && letters === letters.toUpperCase()) {
+    reasons.push(SPAM_REASON.SHOUTING);
+  }
+
+  if (/(.)\1{9,}/.test(text)) {
+    reasons.push(SPAM_REASON.REPEATED_CHARACTERS);
+  }
+
+  // eslint-disable-next-line no-control-regex
+  if (/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u200B-\u200F]/.test(text)) {
+    reasons.push(SPAM_REASON.NON_PRINTABLE);
+  }
+
+  return reasons;
+};
+
+export type SpamAssessment = {
+  isSpam: boolean;
+  score: number;
+  reasons: SpamReason[];
+};
+
+export const assessSubmission = ({
+  formData,
+  name,
+  message,
+  now = new Date(),
+}: {
+  formData: FormData;
+  name: string;
+  message: string | null;
+  now?: Date;
+}): SpamAssessment => {
+  const reasons: SpamReason[] = [];
+
+  const honeypot = formData.get(HONEYPOT_FIELD);
+  if (typeof honeypot === "string" && honeypot.trim().length > 0) {
+    reasons.push(SPAM_REASON.HONEYPOT);
+  }
+
+  const token = formData.get(FORM_TOKEN_FIELD);
+  const tokenReason = checkFormToken(
+    typeof token === "string" && token ? token : null,
+    now,
+  );
+  if (tokenReason) {
+    reasons.push(tokenReason);
+  }
+
+  reasons.push(...scoreContent({ name, message }));
+
+  const score = reasons.reduce(
+    (total, reason) => total + REASON_WEIGHTS[reason],
+    0,
+  );
+
+  return {
+    isSpam: score >= SPAM_SETTINGS.scoreThreshold,
+    score,
+    reasons,
+  };
+};
+
+/**
+ * The client address as seen by the outermost trusted proxy. X-Real-IP is
+ * only used when ENQUIRY_TRUST_X_REAL_IP says our own proxy sets it.
+ */
+export const getClientIp = (request: Request) => {
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (forwarded.length) {
+    return forwarded[
+      Math.max(0, forwarded.length - SPAM_SETTINGS.trustedProxyHops)
+    ];
+  }
+
+  if (process.env.ENQUIRY_TRUST_X_REAL_IP === "true") {
+    return request.headers.get("x-real-ip")?.trim() || null;
+  }
+
+  return null;
+};
+
+// Rate limit values are hashed so the table never holds raw IP or email
+// addresses.
+const hashRateLimitValue = (value: string) =>
+  createHash("sha256").update(value.trim().toLowerCase()).digest("hex");
+
+export const RATE_LIMIT_KIND = {
+  IP: "IP",
+  EMAIL: "EMAIL",
+} as const;
+
+export type RateLimitResult =
+  | { limited: false }
+  | { limited: true; kind: string; retryAfterSeconds: number };
+
+/**
+ * Counts recent submissions for the client IP and email address and records
+ * this attempt. Attempts that are over the limit are still recorded so a
+ * client that keeps retrying stays blocked.
+ */
+export const checkRateLimit = async ({
+  shop,
+  ip,
+  email,
+  now = new Date(),
+}: {
+  shop: string;
+  ip: string | null;
+  email: string | null;
+  now?: Date;
+}): Promise<RateLimitResult> => {
+  const windowStart = new Date(
+    now.getTime() - SPAM_SETTINGS.rateLimitWindowSeconds * 1000,
+  );
+
+  const checks = [
+    { kind: RATE_LIMIT_KIND.IP, value: ip, limit: SPAM_SETTINGS.maxPerIp },
+    {
+      kind: RATE_LIMIT_KIND.EMAIL,
+      value: email,
+      limit: SPAM_SETTINGS.maxPerEmail,
+    },
+  ].flatMap((check) =>
+    check.value ? [{ ...check, value: hashRateLimitValue(check.value) }] : [],
+  );
+
+  if (!checks.length) {
+    return { limited: false };
+  }
+
+  await prisma.enquiryRateLimitHit.deleteMany({
+    where: { createdAt: { lt: windowStart } },
+  });
+
+  let result: RateLimitResult = { limited: false };
+
+  for (const check of checks) {
+    const hits = await prisma.enquiryRateLimitHit.findMany({
+      where: {
+        shop,
+        kind: check.kind,
+        value: check.value,
+        createdAt: { gte: windowStart },
+      },
+      orderBy: { createdAt: "asc" },
+      select: { createdAt: true },
+    });
+
+    if (hits.length >= check.limit && !result.limited) {
+      const oldest = hits[hits.length - check.limit].createdAt;
+      result = {
+        limited: true,
+        kind: check.kind,
+        retryAfterSeconds: Math.max(
+          1,
+          Math.ceil(
+            (oldest.getTime() +
+              SPAM_SETTINGS.rateLimitWindowSeconds * 1000 -
+              now.getTime()) /
+              1000,
+          ),
+        ),
+      };
+    }
+  }
+
+  await prisma.enquiryRateLimitHit.createMany({
+    data: checks.map((check) => ({
+      shop,
+      kind: check.kind,
+      value: check.value,
+      createdAt: now,
+    })),
+  });
+
+  return result;
+};
+
+export const rateLimitedResponse = (retryAfterSeconds: number) =>
+  new Response(JSON.stringify({ ok: false, error: "rate_limited" }), {
+    status: 429,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+      "Retry-After": String(retryAfterSeconds),
+    },
+  });
+
+export const parseSpamReasons = (value: unknown): SpamReason[] =>
+  Array.isArray(value)
+    ? value.filter(
+        (entry): entry is SpamReason =>
+          typeof entry === "string" && entry in SPAM_REASON_LABELS,
+      )
+    : [];
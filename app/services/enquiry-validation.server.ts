@@ -0,0 +1,221 @@
+export const VALIDATION_ERROR = {
+  REQUIRED: "required",
+  INVALID_EMAIL: "invalid_email",
+  INVALID_PHONE: "invalid_phone",
+  INVALID_QUANTITY: "invalid_quantity",
+  INVALID_NUMBER: "invalid_number",
+  INVALID_DATE: "invalid_date",
+  DATE_NOT_IN_FUTURE: "date_not_in_future",
+  INVALID_OPTION: "invalid_option",
+  TOO_LONG: "too_long",
+  TOO_MANY_FILES: "too_many_files",
+  FILE_TOO_LARGE: "file_too_large",
+  TOTAL_TOO_LARGE: "total_too_large",
+} as const;
+export type ValidationErrorCode =
+  (typeof VALIDATION_ERROR)[keyof typeof VALIDATION_ERROR];
+
+export type FieldErrors = Record<string, ValidationErrorCode>;
+
+/**
+ * A rule receives the trimmed field value (null when blank) and returns an
+ * error code, or null when the value passes. Rules run in order and stop at
+ * the first failure, so `required` should come first when present.
+ */
+export type FieldRule = (value: string | null) => ValidationErrorCode | null;
+
+export type FieldSchema = Record<string, FieldRule[]>;
+
+const MB = 1024 * 1024;
+
+const readLimit = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const ATTACHMENT_LIMITS = {
+  maxFiles: readLimit(process.env.ENQUIRY_ATTACHMENT_MAX_FILES, 10),
+  maxFileBytes: readLimit(process.env.ENQUIRY_ATTACHMENT_MAX_FILE_BYTES, 25 * MB),
+  maxTotalBytes: readLimit(
+    process.env.ENQUIRY_ATTACHMENT_MAX_TOTAL_BYTES,
+    50 * MB,
+  ),
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const PHONE_PATTERN = /^\+?[0-9\s().-]+$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const required: FieldRule = (value) =>
+  value ? null : VALIDATION_ERROR.REQUIRED;
+
+const email: FieldRule = (value) =>
+  !value || EMAIL_PATTERN.test(value) ? null : VALIDATION_ERROR.INVALID_EMAIL;
+
+const phone: FieldRule = (value) => {
+  if (!value) {
+    return null;
+  }
+  const digits = value.replace(/\D/g, "");
+  return PHONE_PATTERN.test(value) && digits.length >= 7 && digits.length <= 15
+    ? null
+    : VALIDATION_ERROR.INVALID_PHONE;
+};
+
+const positiveInteger: FieldRule = (value) => {
+  if (!value) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0
+    ? null
+    : VALIDATION_ERROR.INVALID_QUANTITY;
+};
+
+const numeric: FieldRule = (value) =>
+  !value || Number.isFinite(Number(value))
+    ? null
+    : VALIDATION_ERROR.INVALID_NUMBER;
+
+const validDate: FieldRule = (value) => {
+  if (!value) {
+    return null;
+  }
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return ISO_DATE_PATTERN.test(value) && !Number.isNaN(parsed.getTime())
+    ? null
+    : VALIDATION_ERROR.INVALID_DATE;
+};
+
+const futureDate: FieldRule = (value) => {
+  if (!value) {
+    return null;
+  }
+  const dateError = validDate(value);
+  if (dateError) {
+    return dateError;
+  }
+  const today = new Date().toISOString().slice(0, 10);
+  return value > today ? null : VALIDATION_ERROR.DATE_NOT_IN_FUTURE;
+};
+
+const oneOf =
+  (options: readonly string[]): FieldRule =>
+  (value) =>
+    !value ||
+    options.some((option) => option.toLowerCase() === value.toLowerCase())
+      ? null
+      : VALIDATION_ERROR.INVALID_OPTION;
+
+const maxLength =
+  (limit: number): FieldRule =>
+  (value) =>
+    !value || value.length <= limit ? null : VALIDATION_ERROR.TOO_LONG;
+
+export const rules = {
+  required,
+  email,
+  phone,
+  positiveInteger,
+  numeric,
+  validDate,
+  futureDate,
+  oneOf,
+  maxLength,
+};
+
+/** Storefront form field names mapped to the rules they must satisfy. */
+export const ENQUIRY_FIELD_SCHEMA: FieldSchema = {
+  name: [rules.required, rules.maxLength(200)],
+  company_name: [rules.required, rules.maxLength(200)],
+  email: [rules.required, rules.maxLength(320), rules.email],
+  phone_number: [rules.required, rules.maxLength(40), rules.phone],
+  quantity: [rules.required, rules.positiveInteger],
+  delivery_deadline: [rules.required, rules.futureDate],
+  worked_with_before: [
+    rules.required,
+    rules.oneOf(["yes", "no", "not_sure"]),
+  ],
+  other_requirements: [rules.maxLength(5000)],
+  product_colour: [rules.maxLength(200)],
+  print_position: [rules.maxLength(200)],
+  print_colours: [rules.maxLength(200)],
+  pantone_reference: [rules.maxLength(200)],
+  artwork_notes: [rules.maxLength(5000)],
+};
+
+/** Used instead of `name` when the block asks for first and last name. */
+const SPLIT_NAME_FIELD_SCHEMA: FieldSchema = {
+  first_name: [rules.required, rules.maxLength(100)],
+  last_name: [rules.required, rules.maxLength(100)],
+};
+
+export const getEnquiryFieldSchema = (formData: FormData): FieldSchema => {
+  if (!formData.has("first_name") && !formData.has("last_name")) {
+    return ENQUIRY_FIELD_SCHEMA;
+  }
+
+  return {
+    ...SPLIT_NAME_FIELD_SCHEMA,
+    ...Object.fromEntries(
+      Object.entries(ENQUIRY_FIELD_SCHEMA).filter(([field]) => field !== "name"),
+    ),
+  };
+};
+
+export const validateFormData = (
+  formData: FormData,
+  schema: FieldSchema,
+): FieldErrors => {
+  const errors: FieldErrors = {};
+
+  for (const [field, fieldRules] of Object.entries(schema)) {
+    const raw = formData.get(field);
+    const value =
+      typeof raw === "string" && raw.trim().length > 0 ? raw.trim() : null;
+
+    for (const rule of fieldRules) {
+      const error = rule(value);
+      if (error) {
+        errors[field] = error;
+        break;
+      }
+    }
+  }
+
+  return errors;
+};
+
+export const validateAttachmentFiles = (
+  files: Array<{ size: number }>,
+): ValidationErrorCode | null => {
+  if (files.length > ATTACHMENT_LIMITS.maxFiles) {
+    return VALIDATION_ERROR.TOO_MANY_FILES;
+  }
+
+  if (files.some((file) => file.size > ATTACHMENT_LIMITS.maxFileBytes)) {
+    return VALIDATION_ERROR.FILE_TOO_LARGE;
+  }
+
+  const totalBytes = files.reduce((acc, file) => acc + file.size, 0);
+  if (totalBytes > ATTACHMENT_LIMITS.maxTotalBytes) {
+    return VALIDATION_ERROR.TOTAL_TOO_LARGE;
+  }
+
+  return null;
+};
+
+export const hasFieldErrors = (errors: FieldErrors) =>
+  Object.keys(errors).length > 0;
+
+export const validationErrorResponse = (fieldErrors: FieldErrors) =>
+  new Response(
+    JSON.stringify({ ok: false, error: "validation_failed", fieldErrors }),
+    {
+      status: 422,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    },
+  );
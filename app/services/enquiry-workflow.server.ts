@@ -0,0 +1,195 @@
+import prisma from "../db.server";
+
+export const STATUS_TONES = [
+  { value: "info", label: "Blue" },
+  { value: "caution", label: "Yellow" },
+  { value: "warning", label: "Orange" },
+  { value: "success", label: "Green" },
+  { value: "critical", label: "Red" },
+  { value: "neutral", label: "Grey" },
+] as const;
+export type StatusTone = (typeof STATUS_TONES)[number]["value"];
+
+const STATUS_TONE_VALUES: readonly string[] = STATUS_TONES.map(
+  (tone) => tone.value,
+);
+
+export const isStatusTone = (value: string): value is StatusTone =>
+  STATUS_TONE_VALUES.includes(value);
+
+export type WorkflowStatusDefinition = {
+  key: string;
+  label: string;
+  tone: StatusTone;
+};
+
+export type WorkflowTransitionDefinition = {
+  fromKey: string;
+  toKey: string;
+  requiresReason: boolean;
+};
+
+export type Workflow = {
+  // In pipeline order.
+  statuses: WorkflowStatusDefinition[];
+  transitions: WorkflowTransitionDefinition[];
+};
+
+export const DEFAULT_WORKFLOW_STATUSES: WorkflowStatusDefinition[] = [
+  { key: "NEW", label: "New", tone: "info" },
+  { key: "IN_PROGRESS", label: "In progress", tone: "caution" },
+  { key: "AWAITING_CUSTOMER", label: "Awaiting customer", tone: "caution" },
+  { key: "QUOTE_SENT", label: "Quote sent", tone: "caution" },
+  { key: "COMPLETED", label: "Completed", tone: "success" },
+  { key: "CLOSED", label: "Closed", tone: "success" },
+];
+
+/**
+ * Every status may move to every other. Reopening a closed enquiry needs a
+ * reason so the timeline explains why it came back.
+ */
+const buildDefaultTransitions = (
+  statuses: WorkflowStatusDefinition[],
+): WorkflowTransitionDefinition[] =>
+  statuses.flatMap((from) =>
+    statuses
+      .filter((to) => to.key !== from.key)
+      .map((to) => ({
+        fromKey: from.key,
+        toKey: to.key,
+        requiresReason: from.key === "CLOSED",
+      })),
+  );
+
+export const DEFAULT_WORKFLOW: Workflow = {
+  statuses: DEFAULT_WORKFLOW_STATUSES,
+  transitions: buildDefaultTransitions(DEFAULT_WORKFLOW_STATUSES),
+};
+
+/** Shops that have not customised their pipeline get the default workflow. */
+export const getWorkflow = async (shop: string): Promise<Workflow> => {
+  const [statuses, transitions] = await Promise.all([
+    prisma.workflowStatus.findMany({
+      where: { shop },
+      orderBy: { position: "asc" },
+      select: { key: true, label: true, tone: true },
+    }),
+    prisma.workflowTransition.findMany({
+      where: { shop },
+      select: { fromKey: true, toKey: true, requiresReason: true },
+    }),
+  ]);
+
+  if (!statuses.length) {
+    return DEFAULT_WORKFLOW;
+  }
+
+  return {
+    statuses: statuses.map((status) => ({
+      ...status,
+      tone: isStatusTone(status.tone) ? status.tone : "info",
+    })),
+    transitions,
+  };
+};
+
+/**
+ * Saves the default workflow for a shop that has none, so it can be edited.
+ * Returns the shop's statuses in order.
+ */
+export const ensureWorkflow = async (shop: string) => {
+  const existing = await prisma.workflowStatus.findMany({
+    where: { shop },
+    orderBy: { position: "asc" },
+  });
+
+  if (existing.length) {
+    return existing;
+  }
+
+  await prisma.$transaction([
+    prisma.workflowStatus.createMany({
+      data: DEFAULT_WORKFLOW.statuses.map((status, position) => ({
+        ...status,
+        shop,
+        position,
+      })),
+    }),
+    prisma.workflowTransition.createMany({
+      data: DEFAULT_WORKFLOW.transitions.map((transition) => ({
+        ...transition,
+        shop,
+      })),
+    }),
+  ]);
+
+  return prisma.workflowStatus.findMany({
+    where: { shop },
+    orderBy: { position: "asc" },
+  });
+};
+
+export const getStatusLabels = (workflow: Workflow) =>
+  new Map(workflow.statuses.map((status) => [status.key, status.label]));
+
+export const findTransition = (
+  workflow: Workflow,
+  fromKey: string,
+  toKey: string,
+) =>
+  workflow.transitions.find(
+    (transition) =>
+      transition.fromKey === fromKey && transition.toKey === toKey,
+  ) ?? null;
+
+/**
+ * Checks a status change against the shop's workflow. Returns an error
+ * message for the merchant, or null when the change is allowed.
+ */
+export const checkTransition = (
+  workflow: Workflow,
+  fromKey: string,
+  toKey: string,
+  reason: string | null,
+) => {
+  const labels = getStatusLabels(workflow);
+  const toLabel = labels.get(toKey);
+
+  if (!toLabel) {
+    return "Choose a status from the workflow";
+  }
+
+  if (fromKey === toKey) {
+    return null;
+  }
+
+  const fromLabel = labels.get(fromKey) ?? fromKey;
+  const transition = findTransition(workflow, fromKey, toKey);
+
+  if (!transition) {
+    return `Enquiries cannot move from ${fromLabel} to ${toLabel}`;
+  }
+
+  if (transition.requiresReason && !reason) {
+    return `Give a reason for moving from ${fromLabel} to ${toLabel}`;
+  }
+
+  return null;
+};
+
+/**
+ * Starting status for a new enquiry. Falls back to the first stage when the
+ * request type's default has been removed from the shop's workflow.
+ */
+export const resolveInitialStatus = (workflow: Workflow, preferred: string) =>
+  workflow.statuses.some((status) => status.key === preferred)
+    ? preferred
+    : workflow.statuses[0]?.key ?? preferred;
+
+export const slugifyStatusKey = (label: string) =>
+  label
+    .normalize("NFKD")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 40) || "STATUS";
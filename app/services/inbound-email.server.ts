@@ -0,0 +1,355 @@
+import { createHmac } from "node:crypto";
+import { Prisma } from "@prisma/client";
+
+import prisma from "../db.server";
+import {
+  getAttachmentStorage,
+  storeAttachment,
+} from "./attachment-storage.server";
+import { COMMENT_SOURCE, MAX_COMMENT_LENGTH } from "./enquiry-comments.server";
+import { ENQUIRY_EVENT_TYPE } from "./enquiry-events.server";
+import { ATTACHMENT_LIMITS } from "./enquiry-validation.server";
+import { findTransition, getWorkflow } from "./enquiry-workflow.server";
+import { parseReplyAddress, safeEqual } from "./reply-address.server";
+
+// Mailgun signs each POST with a timestamp; older ones are treated as replays.
+export const INBOUND_SIGNATURE_MAX_AGE_SECONDS = 15 * 60;
+
+// A reply from the customer moves the enquiry back onto the team's plate.
+const AWAITING_CUSTOMER_STATUS = "AWAITING_CUSTOMER";
+const RESUMED_STATUS = "IN_PROGRESS";
+
+/**
+ * Checks the `timestamp`, `token` and `signature` fields Mailgun adds to
+ * every webhook against `MAILGUN_WEBHOOK_SIGNING_KEY`. `now` is in
+ * milliseconds and can be pinned to replay recorded payloads.
+ */
+export const verifyMailgunSignature = (
+  {
+    timestamp,
+    token,
+    signature,
+  }: { timestamp: string; token: string; signature: string },
+  {
+    signingKey,
+    now = Date.now(),
+  }: { signingKey: string; now?: number },
+) => {
+  const sentAt = Number.parseInt(timestamp, 10);
+  if (!token || !signature || !Number.isFinite(sentAt)) {
+    return false;
+  }
+
+  if (Math.abs(now / 1000 - sentAt) > INBOUND_SIGNATURE_MAX_AGE_SECONDS) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", signingKey)
+    .update(`${timestamp}${token}`)
+    .digest("hex");
+
+  return safeEqual(signature.toLowerCase(), expected);
+};
+
+/**
+ * Records the `token` of a verified webhook. Returns false when the token was
+ * already used, meaning the request is a replay. Tokens are kept for twice
+ * the signature window, after which the timestamp check rejects them anyway.
+ */
+export const claimWebhookToken = async (token: string) => {
+  await prisma.inboundWebhookToken.deleteMany({
+    where: {
+      createdAt: {
+        lt: new Date(Date.now() - 2 * INBOUND_SIGNATURE_MAX_AGE_SECONDS * 1000),
+      },
+    },
+  });
+
+  try {
+    await prisma.inboundWebhookToken.create({ data: { token } });
+    return true;
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+// Files stored for a reply that could not be saved; failures are only logged.
+const removeStoredFiles = async (storageKeys: string[]) => {
+  const storage = getAttachmentStorage();
+  for (const storageKey of storageKeys) {
+    try {
+      await storage.remove(storageKey);
+    } catch (error) {
+      console.error("Failed to remove attachment of unsaved email reply", {
+        storageKey,
+        error,
+      });
+    }
+  }
+};
+
+export type InboundEmail = {
+  recipient: string;
+  senderEmail: string;
+  senderName: string | null;
+  subject: string;
+  messageId: string | null;
+  body: string;
+  attachments: File[];
+};
+
+const FROM_PATTERN = /^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/;
+
+/** Reads the fields of a Mailgun "forward" route POST (parsed message). */
+export const parseInboundEmail = (formData: FormData): InboundEmail => {
+  const read = (name: string) => {
+    const value = formData.get(name);
+    return typeof value === "string" ? value.trim() : "";
+  };
+  const from = FROM_PATTERN.exec(read("from"));
+  const attachments = Array.from(formData.entries()).flatMap(([name, value]) =>
+    /^attachment-\d+$/.test(name) && typeof value !== "string" && value.size
+      ? [value]
+      : [],
+  );
+
+  return {
+    recipient: read("recipient") || read("To"),
+    senderEmail: (read("sender") || from?.[2] || read("from")).toLowerCase(),
+    senderName: from?.[1]?.trim() || null,
+    subject: read("subject"),
+    messageId: read("Message-Id") || null,
+    // Mailgun strips quoted history and signatures into `stripped-text`.
+    body: read("stripped-text") || read("body-plain"),
+    attachments,
+  };
+};
+
+/**
+ * Attachments that fit the storefront upload limits, in the order received.
+ * Anything over the limits is reported back by name instead of stored.
+ */
+const selectInboundAttachments = (files: File[]) => {
+  const accepted: File[] = [];
+  const skipped: string[] = [];
+  let totalBytes = 0;
+
+  for (const file of files) {
+    if (
+      accepted.length >= ATTACHMENT_LIMITS.maxFiles ||
+      file.size > ATTACHMENT_LIMITS.maxFileBytes ||
+      totalBytes + file.size > ATTACHMENT_LIMITS.maxTotalBytes
+    ) {
+      skipped.push(file.name || "attachment");
+      continue;
+    }
+
+    accepted.push(file);
+    totalBytes += file.size;
+  }
+
+  return { accepted, skipped };
+};
+
+export type InboundEmailResult =
+  | {
+      outcome: "stored";
+      enquiryId: string;
+      commentId: string;
+      statusChanged: boolean;
+      skippedAttachments: string[];
+    }
+  | { outcome: "duplicate"; enquiryId: string }
+  | { outcome: "rejected"; status: number; error: string };
+
+/**
+ * Verifies an inbound email webhook and adds the reply, with its
+ * attachments, to the enquiry named in the reply address. Enquiries waiting
+ * on the customer move back to In progress when the shop's workflow allows
+ * it. Mailgun retries anything but a 2xx or 406, so problems that a retry
+ * cannot fix are rejected with 406. Each webhook `token` is accepted once;
+ * a request that fails after claiming it releases it for Mailgun's retry.
+ */
+export const handleInboundEmail = async (
+  formData: FormData,
+  { now }: { now?: number } = {},
+): Promise<InboundEmailResult> => {
+  const signingKey = process.env.MAILGUN_WEBHOOK_SIGNING_KEY;
+  if (!signingKey) {
+    return {
+      outcome: "rejected",
+      status: 503,
+      error: "MAILGUN_WEBHOOK_SIGNING_KEY is not configured",
+    };
+  }
+
+  const read = (name: string) => {
+    const value = formData.get(name);
+    return typeof value === "string" ? value : "";
+  };
+  const signed = verifyMailgunSignature(
+    {
+      timestamp: read("timestamp"),
+      token: read("token"),
+      signature: read("signature"),
+    },
+    { signingKey, now },
+  );
+  if (!signed) {
+    return { outcome: "rejected", status: 401, error: "Invalid signature" };
+  }
+
+  const email = parseInboundEmail(formData);
+  const enquiryId = parseReplyAddress(email.recipient);
+  if (!enquiryId) {
+    return {
+      outcome: "rejected",
+      status: 406,
+      error: "Recipient is not an enquiry reply address",
+    };
+  }
+
+  const enquiry = await prisma.enquiry.findUnique({
+    where: { id: enquiryId },
+    select: { id: true, shop: true, status: true },
+  });
+  if (!enquiry) {
+    return { outcome: "rejected", status: 406, error: "Enquiry not found" };
+  }
+
+  if (email.messageId) {
+    const existing = await prisma.enquiryComment.findUnique({
+      where: {
+        enquiryId_messageId: { enquiryId, messageId: email.messageId },
+      },
+      select: { id: true },
+    });
+    if (existing) {
+      return { outcome: "duplicate", enquiryId };
+    }
+  }
+
+  const { accepted, skipped } = selectInboundAttachments(email.attachments);
+  if (!email.body && !accepted.length) {
+    return { outcome: "rejected", status: 406, error: "The reply is empty" };
+  }
+
+  const token = read("token");
+  if (!(await claimWebhookToken(token))) {
+    return {
+      outcome: "rejected",
+      status: 406,
+      error: "Webhook token was already used",
+    };
+  }
+
+  const workflow = await getWorkflow(enquiry.shop);
+  const statusChanged =
+    enquiry.status === AWAITING_CUSTOMER_STATUS &&
+    Boolean(findTransition(workflow, AWAITING_CUSTOMER_STATUS, RESUMED_STATUS));
+  const body = [
+    email.body.slice(0, MAX_COMMENT_LENGTH),
+    ...(skipped.length
+      ? [`Attachments too large to keep: ${skipped.join(", ")}`]
+      : []),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const storedAttachments = [];
+
+  try {
+    for (const file of accepted) {
+      const filename = file.name || "attachment";
+      const mimeType = file.type || "application/octet-stream";
+      const data = Buffer.from(await file.arrayBuffer());
+      const stored = await storeAttachment({
+        shop: enquiry.shop,
+        filename,
+        mimeType,
+        data,
+      });
+      storedAttachments.push({
+        enquiryId,
+        fileName: filename,
+        mimeType,
+        size: data.byteLength,
+        storageKey: stored.storageKey,
+        checksum: stored.checksum,
+      });
+    }
+
+    // Moving the status does not send the In progress customer email; the
+    // customer has only just written to us.
+    const [comment] = await prisma.$transaction([
+      prisma.enquiryComment.create({
+        data: {
+          enquiryId,
+          authorName: email.senderName,
+          authorEmail: email.senderEmail || null,
+          body,
+          source: COMMENT_SOURCE.CUSTOMER_EMAIL,
+          messageId: email.messageId,
+          attachments: storedAttachments.length
+            ? { create: storedAttachments }
+            : undefined,
+        },
+        select: { id: true },
+      }),
+      prisma.enquiry.update({
+        where: { id: enquiryId },
+        data: {
+          ...(statusChanged
+            ? { status: RESUMED_STATUS, statusUpdatedAt: new Date() }
+            : {}),
+          events: {
+            create: [
+              {
+                type: ENQUIRY_EVENT_TYPE.CUSTOMER_REPLIED,
+                actorName: email.senderName,
+                actorEmail: email.senderEmail || null,
+                metadata: {
+                  subject: email.subject,
+                  attachmentCount: storedAttachments.length,
+                },
+              },
+              ...(statusChanged
+                ? [
+                    {
+                      type: ENQUIRY_EVENT_TYPE.STATUS_CHANGED,
+                      fromStatus: AWAITING_CUSTOMER_STATUS,
+                      toStatus: RESUMED_STATUS,
+                      metadata: { reason: "Customer replied by email" },
+                    },
+                  ]
+                : []),
+            ],
+          },
+        },
+        select: { id: true },
+      }),
+    ]);
+
+    return {
+      outcome: "stored",
+      enquiryId,
+      commentId: comment.id,
+      statusChanged,
+      skippedAttachments: skipped,
+    };
+  } catch (error) {
+    // Nothing was saved, so the files would be orphaned, and Mailgun's retry
+    // must not be mistaken for a replay.
+    await removeStoredFiles(
+      storedAttachments.map((attachment) => attachment.storageKey),
+    );
+    await prisma.inboundWebhookToken.deleteMany({ where: { token } });
+    throw error;
+  }
+};
@@ -0,0 +1,235 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import Mailgun from "mailgun.js";
+import formData from "form-data";
+import nodemailer from "nodemailer";
+
+export const MAIL_TRANSPORT = {
+  MAILGUN: "mailgun",
+  SMTP: "smtp",
+  FILE: "file",
+} as const;
+export type MailTransport = (typeof MAIL_TRANSPORT)[keyof typeof MAIL_TRANSPORT];
+
+export type MailAttachment = {
+  filename: string;
+  data: Buffer;
+  contentType: string;
+};
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  replyTo?: string;
+  attachments?: MailAttachment[];
+};
+
+export type MailSendResult = {
+  providerId: string | null;
+  metadata: Record<string, unknown> | null;
+};
+
+export type Mailer = {
+  transport: MailTransport;
+  fromEmail: string;
+  send: (message: MailMessage) => Promise<MailSendResult>;
+};
+
+const createMailgunMailer = (fromEmail: string): Mailer | null => {
+  const apiKey = process.env.MAILGUN_API_KEY;
+  const domain = process.env.MAILGUN_DOMAIN;
+
+  if (!apiKey || !domain) {
+    return null;
+  }
+
+  const mailgun = new Mailgun(formData);
+  const client = mailgun.client({
+    username: "api",
+    key: apiKey,
+    url: process.env.MAILGUN_API_BASE_URL,
+  });
+
+  return {
+    transport: MAIL_TRANSPORT.MAILGUN,
+    fromEmail,
+    send: async (message) => {
+      const response = await client.messages.create(domain, {
+        to: message.to,
+        from: fromEmail,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        ...(message.replyTo ? { "h:Reply-To": message.replyTo } : {}),
+        ...(message.attachments?.length
+          ? { attachment: message.attachments }
+          : {}),
+      });
+
+      return {
+        providerId: response?.id ?? null,
+        metadata: {
+          transport: MAIL_TRANSPORT.MAILGUN,
+          message: response?.message ?? null,
+        },
+      };
+    },
+  };
+};
+
+const toNodemailerMessage = (fromEmail: string, message: MailMessage) => ({
+  from: fromEmail,
+  to: message.to,
+  subject: message.subject,
+  text: message.text,
+  html: message.html,
+  replyTo: message.replyTo,
+  attachments: message.attachments?.map((attachment) => ({
+    filename: attachment.filename,
+    content: attachment.data,
+    contentType: attachment.contentType,
+  })),
+});
+
+const createSmtpMailer = (fromEmail: string): Mailer | null => {
+  const host = process.env.SMTP_HOST;
+
+  if (!host) {
+    return null;
+  }
+
+  const port = Number.parseInt(process.env.SMTP_PORT ?? "", 10) || 587;
+  const user = process.env.SMTP_USER;
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: process.env.SMTP_SECURE === "true" || port === 465,
+    ...(user ? { auth: { user, pass: process.env.SMTP_PASSWORD ?? "" } } : {}),
+  });
+
+  return {
+    transport: MAIL_TRANSPORT.SMTP,
+    fromEmail,
+    send: async (message) => {
+      const info = await transporter.sendMail(
+        toNodemailerMessage(fromEmail, message),
+      );
+
+      return {
+        providerId: info.messageId ?? null,
+        metadata: {
+          transport: MAIL_TRANSPORT.SMTP,
+          response: info.response ?? null,
+          accepted: info.accepted,
+          rejected: info.rejected,
+        },
+      };
+    },
+  };
+};
+
+/** Development transport: writes each message to `MAIL_FILE_DIR` as an .eml file. */
+const createFileMailer = (fromEmail: string): Mailer => {
+  const directory = path.resolve(process.env.MAIL_FILE_DIR || "storage/mail");
+  const transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: "unix",
+  });
+
+  return {
+    transport: MAIL_TRANSPORT.FILE,
+    fromEmail,
+    send: async (message) => {
+      const info = await transporter.sendMail(
+        toNodemailerMessage(fromEmail, message),
+      );
+      const safeRecipient = message.to.replace(/[^a-z0-9@._-]+/gi, "_");
+      const filePath = path.join(
+        directory,
+        `${new Date().toISOString().replace(/[:.]/g, "-")}-${safeRecipient}.eml`,
+      );
+
+      await mkdir(directory, { recursive: true });
+      await writeFile(filePath, info.message);
+
+      return {
+        providerId: info.messageId ?? null,
+        metadata: { transport: MAIL_TRANSPORT.FILE, path: filePath },
+      };
+    },
+  };
+};
+
+const resolveTransport = (): MailTransport | null => {
+  const configured = process.env.MAIL_TRANSPORT?.trim().toLowerCase();
+
+  if (configured) {
+    return Object.values(MAIL_TRANSPORT).find(
+      (transport) => transport === configured,
+    ) ?? null;
+  }
+
+  if (process.env.MAILGUN_API_KEY) {
+    return MAIL_TRANSPORT.MAILGUN;
+  }
+
+  if (process.env.SMTP_HOST) {
+    return MAIL_TRANSPORT.SMTP;
+  }
+
+  return process.env.NODE_ENV === "production" ? null : MAIL_TRANSPORT.FILE;
+};
+
+// The file transport never delivers anything, so it gets a placeholder sender.
+const getFromEmail = (transport: MailTransport | null) =>
+  process.env.MAIL_FROM_EMAIL ||
+  process.env.MAILGUN_FROM_EMAIL ||
+  (transport === MAIL_TRANSPORT.FILE ? "enquiries@localhost" : "");
+
+let mailer: Mailer | null | undefined;
+
+/**
+ * Returns the transport chosen by `MAIL_TRANSPORT` (mailgun, smtp or file).
+ * Without it, Mailgun is used when its key is set, then SMTP when `SMTP_HOST`
+ * is set, then the file transport outside production. Returns null when the
+ * chosen transport is missing settings.
+ */
+export const getMailer = () => {
+  if (mailer !== undefined) {
+    return mailer;
+  }
+
+  const transport = resolveTransport();
+  const fromEmail = getFromEmail(transport);
+
+  if (!fromEmail || !transport) {
+    mailer = null;
+  } else if (transport === MAIL_TRANSPORT.MAILGUN) {
+    mailer = createMailgunMailer(fromEmail);
+  } else if (transport === MAIL_TRANSPORT.SMTP) {
+    mailer = createSmtpMailer(fromEmail);
+  } else {
+    mailer = createFileMailer(fromEmail);
+  }
+
+  return mailer;
+};
+
+export const describeMailerProblem = () => {
+  const transport = resolveTransport();
+
+  if (!transport) {
+    return process.env.MAIL_TRANSPORT
+      ? `Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}".`
+      : "No email transport is configured.";
+  }
+
+  if (!getFromEmail(transport)) {
+    return "Missing sender address (MAIL_FROM_EMAIL).";
+  }
+
+  return `The ${transport} email transport is missing required settings.`;
+};
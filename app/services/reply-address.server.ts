@@ -0,0 +1,61 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+const REPLY_ADDRESS_PATTERN = /reply\+([a-z0-9]+)\.([a-f0-9]{16})@([^\s,<>"]+)/gi;
+
+const getInboundDomain = () =>
+  process.env.INBOUND_EMAIL_DOMAIN?.trim().toLowerCase() || null;
+
+// Reply addresses are signed so nobody can post into an enquiry by guessing
+// its id. Falls back to the app secret when no dedicated key is set.
+const getReplyAddressSecret = () =>
+  process.env.INBOUND_EMAIL_SECRET || process.env.SHOPIFY_API_SECRET || "";
+
+const signEnquiryId = (enquiryId: string, secret: string) =>
+  createHmac("sha256", secret).update(enquiryId).digest("hex").slice(0, 16);
+
+export const safeEqual = (left: string, right: string) =>
+  left.length === right.length &&
+  timingSafeEqual(Buffer.from(left), Buffer.from(right));
+
+/**
+ * Reply-to address that routes a customer's reply back to the enquiry, e.g.
+ * `reply+<enquiryId>.<signature>@replies.example.com`. Returns null when
+ * `INBOUND_EMAIL_DOMAIN` is not set, so emails keep the sender as reply-to.
+ */
+export const buildReplyAddress = (enquiryId: string) => {
+  const domain = getInboundDomain();
+  const secret = getReplyAddressSecret();
+
+  if (!domain || !secret) {
+    return null;
+  }
+
+  return `reply+${enquiryId}.${signEnquiryId(enquiryId, secret)}@${domain}`;
+};
+
+/**
+ * Finds the enquiry id in a recipient list. Only addresses on the inbound
+ * domain with a valid signature count; returns null when there is none.
+ */
+export const parseReplyAddress = (recipients: string) => {
+  const domain = getInboundDomain();
+  const secret = getReplyAddressSecret();
+
+  if (!domain || !secret) {
+    return null;
+  }
+
+  for (const match of recipients.matchAll(REPLY_ADDRESS_PATTERN)) {
+    const [, localId, signature, addressDomain] = match;
+    // Enquiry ids are lowercase; some mail clients change the case.
+    const enquiryId = localId.toLowerCase();
+    if (
+      addressDomain.toLowerCase() === domain &&
+      safeEqual(signature.toLowerCase(), signEnquiryId(enquiryId, secret))
+    ) {
+      return enquiryId;
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,184 @@
+import prisma from "../db.server";
+import type { EventActor } from "./enquiry-events.server";
+import {
+  buildEnquiryWhere,
+  ENQUIRY_FILTER_PARAMS,
+  parseEnquiryFilters,
+} from "./enquiry-filters.server";
+import { getWorkflow } from "./enquiry-workflow.server";
+
+export const MAX_VIEW_NAME_LENGTH = 60;
+
+// Per staff member; keeps the app nav and the live counts manageable.
+export const MAX_SAVED_VIEWS = 20;
+
+// The app nav loads on every admin page, so it counts only this many views.
+// The home page lists them all.
+export const NAV_VIEW_LIMIT = 8;
+
+export type SavedViewSummary = {
+  id: string;
+  name: string;
+  // Query string for /app/enquiries, without the leading `?`.
+  query: string;
+  shared: boolean;
+  isOwn: boolean;
+  ownerName: string | null;
+  // Enquiries the view matches right now, for the person looking at it.
+  count: number;
+};
+
+/**
+ * Keeps only the dashboard's filter and sort params, in a fixed order, so
+ * the same filters always save as the same query.
+ */
+export const normalizeViewQuery = (raw: string) => {
+  const params = new URLSearchParams(raw.replace(/^\?/, ""));
+  const kept = new URLSearchParams();
+
+  for (const name of ENQUIRY_FILTER_PARAMS) {
+    const value = params.get(name)?.trim();
+    if (value) {
+      kept.set(name, value);
+    }
+  }
+
+  return kept.toString();
+};
+
+/**
+ * Shared views plus the staff member's own, by name, with live counts. Pass
+ * `limit` to load and count only the first few.
+ */
+export const listSavedViews = async (
+  shop: string,
+  actor: EventActor,
+  { limit }: { limit?: number } = {},
+): Promise<SavedViewSummary[]> => {
+  const views = await prisma.savedView.findMany({
+    where: {
+      shop,
+      OR: [{ shared: true }, ...(actor ? [{ ownerId: actor.id }] : [])],
+    },
+    orderBy: [{ name: "asc" }, { createdAt: "asc" }],
+    take: limit,
+  });
+
+  if (!views.length) {
+    return [];
+  }
+
+  const workflow = await getWorkflow(shop);
+
+  return Promise.all(
+    views.map(async (view) => {
+      const filters = parseEnquiryFilters(new URLSearchParams(view.query), {
+        workflow,
+        actor,
+      });
+      const { where } = await buildEnquiryWhere(shop, filters, actor);
+
+      return {
+        id: view.id,
+        name: view.name,
+        query: view.query,
+        shared: view.shared,
+        isOwn: view.ownerId === actor?.id,
+        ownerName: view.ownerName,
+        count: await prisma.enquiry.count({ where }),
+      };
+    }),
+  );
+};
+
+/**
+ * Saves the dashboard's current filters under a name. Saving a name the
+ * staff member already used replaces that view.
+ */
+export const saveView = async ({
+  shop,
+  actor,
+  name: rawName,
+  query: rawQuery,
+  shared,
+}: {
+  shop: string;
+  actor: EventActor;
+  name: string;
+  query: string;
+  shared: boolean;
+}) => {
+  if (!actor) {
+    return {
+      error: "Sign in with a staff account to save views",
+      status: 403,
+    } as const;
+  }
+
+  const name = rawName.trim();
+  if (!name) {
+    return { error: "Give the view a name", status: 400 } as const;
+  }
+  if (name.length > MAX_VIEW_NAME_LENGTH) {
+    return {
+      error: `View names can be up to ${MAX_VIEW_NAME_LENGTH} characters`,
+      status: 400,
+    } as const;
+  }
+
+  const query = normalizeViewQuery(rawQuery);
+  const key = { shop, ownerId: actor.id, name };
+  const existing = await prisma.savedView.findUnique({
+    where: { shop_ownerId_name: key },
+    select: { id: true },
+  });
+
+  if (
+    !existing &&
+    (await prisma.savedView.count({ where: { shop, ownerId: actor.id } })) >=
+      MAX_SAVED_VIEWS
+  ) {
+    return {
+      error: `You can save up to ${MAX_SAVED_VIEWS} views; delete one first`,
+      status: 400,
+    } as const;
+  }
+
+  const view = await prisma.savedView.upsert({
+    where: { shop_ownerId_name: key },
+    create: { ...key, query, shared, ownerName: actor.name ?? actor.email },
+    update: { query, shared, ownerName: actor.name ?? actor.email },
+  });
+
+  return { view, replaced: Boolean(existing) } as const;
+};
+
+/** Deletes a view. Only the staff member who saved it can delete it. */
+export const deleteView = async ({
+  shop,
+  actor,
+  viewId,
+}: {
+  shop: string;
+  actor: EventActor;
+  viewId: string;
+}) => {
+  const view = viewId
+    ? await prisma.savedView.findUnique({ where: { id: viewId } })
+    : null;
+
+  if (!view || view.shop !== shop) {
+    return { error: "View not found", status: 404 } as const;
+  }
+
+  if (view.ownerId !== actor?.id) {
+    return {
+      error: "Only the person who saved this view can delete it",
+      status: 403,
+    } as const;
+  }
+
+  await prisma.savedView.delete({ where: { id: view.id } });
+
+  return { view } as const;
+};
@@ -0,0 +1,63 @@
+import prisma from "../db.server";
+
+export type StaffMember = {
+  id: string;
+  name: string;
+  email: string | null;
+  // Used for @mentions, e.g. `jane.doe`.
+  handle: string;
+};
+
+const toHandle = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ".")
+    .replace(/^\.+|\.+$/g, "");
+
+/**
+ * Staff who have opened the app, read from their online sessions. Shopify
+ * has no staff list for apps without the `read_users` scope, so anyone who
+ * has not signed in yet is missing.
+ */
+export const getStaffDirectory = async (
+  shop: string,
+): Promise<StaffMember[]> => {
+  const sessions = await prisma.session.findMany({
+    where: { shop, isOnline: true, userId: { not: null } },
+    select: { userId: true, firstName: true, lastName: true, email: true },
+    orderBy: { expires: "desc" },
+  });
+
+  const members = new Map<string, StaffMember>();
+  const handles = new Set<string>();
+
+  for (const session of sessions) {
+    const id = String(session.userId);
+    if (members.has(id)) {
+      continue;
+    }
+
+    const name =
+      [session.firstName, session.lastName].filter(Boolean).join(" ") ||
+      session.email ||
+      `Staff ${id}`;
+    const base =
+      toHandle(name) || toHandle(session.email?.split("@")[0] ?? "") || id;
+
+    let handle = base;
+    let suffix = 2;
+    while (handles.has(handle)) {
+      handle = `${base}${suffix}`;
+      suffix += 1;
+    }
+    handles.add(handle);
+
+    members.set(id, { id, name, email: session.email, handle });
+  }
+
+  return Array.from(members.values()).sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+};
@@ -0,0 +1,145 @@
+import prisma from "../db.server";
+import { getEmailTemplate, TEMPLATE_PLACEHOLDERS } from "./email-template.server";
+import { renderStatusUpdateEmail } from "./enquiry-email.server";
+import { loadEnquiryEmailPayload } from "./enquiry-notification.server";
+import { buildReplyAddress } from "./reply-address.server";
+
+export const STATUS_EMAIL_PLACEHOLDERS = [
+  ...TEMPLATE_PLACEHOLDERS,
+  { key: "status", description: "The status the enquiry moved to" },
+];
+
+export type StatusEmailSettings = {
+  statusKey: string;
+  enabled: boolean;
+  subject: string;
+  body: string;
+};
+
+const TEXT_LIMITS = { subject: 200, body: 5000 };
+
+// Statuses that mean the customer has something to read or do get an email
+// out of the box; every other status starts switched off.
+const DEFAULT_STATUS_EMAILS: Record<
+  string,
+  Omit<StatusEmailSettings, "statusKey">
+> = {
+  QUOTE_SENT: {
+    enabled: true,
+    subject: "Your quote from {{brandName}}",
+    body: "Hi {{firstName}},\n\nYour quote for {{productTitle}} is on its way. Reply to this email if you have any questions.\n\n{{brandName}}",
+  },
+  AWAITING_CUSTOMER: {
+    enabled: true,
+    subject: "We need a little more information",
+    body: "Hi {{firstName}},\n\nWe need a few more details before we can move your {{requestType}} enquiry forward. Please reply to this email when you can.\n\n{{brandName}}",
+  },
+};
+
+const GENERIC_STATUS_EMAIL: Omit<StatusEmailSettings, "statusKey"> = {
+  enabled: false,
+  subject: "Update on your enquiry: {{status}}",
+  body: "Hi {{firstName}},\n\nYour {{requestType}} enquiry is now {{status}}.\n\n{{brandName}}",
+};
+
+export const getDefaultStatusEmail = (
+  statusKey: string,
+): StatusEmailSettings => ({
+  statusKey,
+  ...(DEFAULT_STATUS_EMAILS[statusKey] ?? GENERIC_STATUS_EMAIL),
+});
+
+/** The shop's customer email for each status, falling back to the defaults. */
+export const getStatusEmails = async (shop: string, statusKeys: string[]) => {
+  const stored = await prisma.statusEmailTemplate.findMany({
+    where: { shop, statusKey: { in: statusKeys } },
+    select: { statusKey: true, enabled: true, subject: true, body: true },
+  });
+  const byKey = new Map(stored.map((entry) => [entry.statusKey, entry]));
+
+  return new Map(
+    statusKeys.map((key) => [
+      key,
+      byKey.get(key) ?? getDefaultStatusEmail(key),
+    ]),
+  );
+};
+
+export const getStatusEmail = async (shop: string, statusKey: string) =>
+  (await getStatusEmails(shop, [statusKey])).get(statusKey) ??
+  getDefaultStatusEmail(statusKey);
+
+export const parseStatusEmailForm = (formData: FormData) => {
+  const read = (name: string) => {
+    const value = formData.get(name);
+    return typeof value === "string" ? value.trim() : "";
+  };
+  const subject = read("subject");
+  const body = read("body");
+  const enabled = formData.get("enabled") === "on";
+
+  if (!subject || !body) {
+    return { error: "Subject and message are required" } as const;
+  }
+
+  if (subject.length > TEXT_LIMITS.subject) {
+    return { error: "Subject is too long" } as const;
+  }
+
+  if (body.length > TEXT_LIMITS.body) {
+    return { error: "Message is too long" } as const;
+  }
+
+  return { data: { enabled, subject, body } } as const;
+};
+
+export const saveStatusEmail = (
+  shop: string,
+  statusKey: string,
+  data: Omit<StatusEmailSettings, "statusKey">,
+) =>
+  prisma.statusEmailTemplate.upsert({
+    where: { shop_statusKey: { shop, statusKey } },
+    create: { ...data, shop, statusKey },
+    update: data,
+  });
+
+/**
+ * Renders the email a customer would get when their enquiry moves to
+ * `statusKey`. Returns null when the enquiry does not exist or the status
+ * has no email switched on. The outbox worker sends it; see
+ * `enqueueStatusEmail` in enquiry-outbox.server.ts.
+ */
+export const renderStatusEmailForEnquiry = async ({
+  enquiryId,
+  statusKey,
+  statusLabel,
+}: {
+  enquiryId: string;
+  statusKey: string;
+  statusLabel: string;
+}) => {
+  const enquiry = await loadEnquiryEmailPayload(enquiryId);
+  if (!enquiry) {
+    return null;
+  }
+
+  const settings = await getStatusEmail(enquiry.shop, statusKey);
+  if (!settings.enabled) {
+    return null;
+  }
+
+  const rendered = renderStatusUpdateEmail({
+    enquiry,
+    template: await getEmailTemplate(enquiry.shop),
+    subjectPattern: settings.subject,
+    bodyPattern: settings.body,
+    statusLabel,
+  });
+
+  return {
+    ...rendered,
+    to: enquiry.email,
+    replyTo: buildReplyAddress(enquiryId),
+  };
+};
@@ -16,6 +16,12 @@ const shopify = shopifyApp({
   authPathPrefix: "/auth",
   sessionStorage: new PrismaSessionStorage(prisma),
   distribution: AppDistribution.AppStore,
+  // Online tokens identify the staff member behind each admin request: the
+  // audit trail, comments, assignment and saved views all record who acted,
+  // and the staff directory is read from these sessions. Token exchange still
+  // stores the shop's offline session first, so webhooks and
+  // `unauthenticated.admin` keep using offline tokens.
+  useOnlineTokens: true,
   future: {
     expiringOfflineAccessTokens: true,
   },
@@ -33,6 +33,8 @@
   };
 
   const TYPE_PARAM = "type";
+  // Mirrors the app's request-type registry so the type is set before the
+  // form definition loads; the app also accepts the raw `?type=` value.
   const REQUEST_TYPE_MAP = {
     visual: "visual_enquiry",
     quote: "quote",
@@ -50,30 +52,51 @@
     }
   };
 
-  const getDynamicTitleText = (type, productTitle, templates) => {
-    if (!type || !templates) return null;
-    const key = productTitle
-      ? `${type}_with_product`
-      : type;
-    const template = templates[key] ?? templates[type];
-    if (!template) return null;
-    return template.replace(/\{\{\s*product_title\s*\}\}/g, productTitle || "");
+  // Translated headings from the theme locale files win; the registry's
+  // titles only cover types the theme has no translation for yet.
+  const getTitleTemplate = (type, productTitle, templates, requestType) => {
+    const key = productTitle ? `${type}_with_product` : type;
+    const translated = templates?.[key] ?? templates?.[type];
+    if (translated) return translated;
+    if (!requestType) return null;
+    return productTitle ? requestType.titleWithProduct : requestType.title;
   };
 
-  const updateDynamicHeading = (section, productTitle) => {
+  // Request types arrive with the form definition, and the product title
+  // arrives separately, so each section remembers whichever came first.
+  const headingState = new WeakMap();
+
+  const updateDynamicHeading = (section, updates) => {
     if (!section) return;
+    const state = { ...headingState.get(section), ...updates };
+    headingState.set(section, state);
+
     const params = new URLSearchParams(window.location.search);
     const type = params.get(TYPE_PARAM);
     if (!type) return;
-    const templates = getTitleTemplates(section);
-    const text = getDynamicTitleText(type, productTitle, templates);
-    if (text == null) return;
+    const requestType = Array.isArray(state.requestTypes)
+      ? state.requestTypes.find(
+          (entry) => entry.param === type || entry.value === type,
+        )
+      : null;
+
+    const input = section.querySelector("[data-request-type-input]");
+    const value = requestType?.value ?? REQUEST_TYPE_MAP[type];
+    if (input && value) input.value = value;
+
+    const template = getTitleTemplate(
+      requestType?.param ?? type,
+      state.productTitle,
+      getTitleTemplates(section),
+      requestType,
+    );
+    if (template == null) return;
     const heading = section.querySelector("[data-dynamic-heading]");
-    if (heading) heading.textContent = text;
-    const requestType = REQUEST_TYPE_MAP[type];
-    if (requestType) {
-      const input = section.querySelector("[data-request-type-input]");
-      if (input) input.value = requestType;
+    if (heading) {
+      heading.textContent = template.replace(
+        /\{\{\s*product_title\s*\}\}/g,
+        state.productTitle || "",
+      );
     }
   };
 
@@ -152,7 +175,9 @@
       setHiddenValue(form, "[data-product-url-input]", productUrl);
     }
     const section = form?.closest(".custom-enquiry");
-    if (section) updateDynamicHeading(section, product?.title || "");
+    if (section) {
+      updateDynamicHeading(section, { productTitle: product?.title || "" });
+    }
   };
 
   const showEmptyState = (contextNode) => {
@@ -265,6 +290,177 @@
     showEmptyState(contextNode);
   };
 
+  const readErrorMessages = (form) => {
+    const script = form.querySelector("[data-error-messages]");
+    if (!script) return {};
+    try {
+      return JSON.parse(script.textContent) || {};
+    } catch (error) {
+      console.warn("Failed to parse error messages JSON", error);
+      return {};
+    }
+  };
+
+  const clearFieldErrors = (form) => {
+    form.querySelectorAll("[data-field-error]").forEach((node) => node.remove());
+    form.querySelectorAll("[aria-invalid]").forEach((input) => {
+      input.removeAttribute("aria-invalid");
+      const describedBy = (input.getAttribute("aria-describedby") || "")
+        .split(" ")
+        .filter((id) => id && !id.endsWith("-error"))
+        .join(" ");
+      if (describedBy) {
+        input.setAttribute("aria-describedby", describedBy);
+      } else {
+        input.removeAttribute("aria-describedby");
+      }
+    });
+  };
+
+  const clearFieldError = (input) => {
+    const field = input.closest(".custom-enquiry__field");
+    field?.querySelector("[data-field-error]")?.remove();
+    input.removeAttribute("aria-invalid");
+  };
+
+  const renderFieldErrors = (form, fieldErrors, messages) => {
+    let firstInvalid = null;
+
+    Object.entries(fieldErrors).forEach(([name, code]) => {
+      const input = form.querySelector(`[name="${CSS.escape(name)}"]`);
+      const field = input?.closest(".custom-enquiry__field");
+      if (!input || !field) return;
+
+      const errorId = `${input.id || name}-error`;
+      const errorNode = document.createElement("p");
+      errorNode.className = "custom-enquiry__field-error";
+      errorNode.id = errorId;
+      errorNode.dataset.fieldError = "";
+      errorNode.textContent = messages[code] || code;
+      field.appendChild(errorNode);
+
+      input.setAttribute("aria-invalid", "true");
+      const describedBy = input.getAttribute("aria-describedby");
+      input.setAttribute(
+        "aria-describedby",
+        describedBy ? `${describedBy} ${errorId}` : errorId,
+      );
+
+      if (!firstInvalid) firstInvalid = input;
+    });
+
+    firstInvalid?.focus();
+  };
+
+  const createCustomFieldInput = (field, selectPlaceholder) => {
+    if (field.type === "textarea") {
+      const textarea = document.createElement("textarea");
+      textarea.className = "custom-enquiry__textarea";
+      textarea.rows = 4;
+      return textarea;
+    }
+
+    if (field.type === "select") {
+      const select = document.createElement("select");
+      select.className = "custom-enquiry__select";
+      const placeholder = document.createElement("option");
+      placeholder.value = "";
+      placeholder.textContent = selectPlaceholder;
+      select.appendChild(placeholder);
+      field.options.forEach((value) => {
+        const option = document.createElement("option");
+        option.value = value;
+        option.textContent = value;
+        select.appendChild(option);
+      });
+      return select;
+    }
+
+    const input = document.createElement("input");
+    input.className = "custom-enquiry__input";
+    input.type = field.type;
+    if (field.type === "checkbox") {
+      input.value = "yes";
+    }
+    if (field.type === "number") {
+      input.step = "any";
+    }
+    return input;
+  };
+
+  const renderCustomFields = (form, fields) => {
+    const container = form.querySelector("[data-custom-fields]");
+    const grid = container?.querySelector("[data-custom-fields-grid]");
+    if (!container || !grid) return;
+
+    const selectPlaceholder = container.dataset.selectPlaceholder || "";
+    const idPrefix = `custom-enquiry-custom-${container.dataset.blockId || ""}`;
+    grid.replaceChildren();
+
+    fields.forEach((field) => {
+      const inputId = `${idPrefix}-${field.key}`;
+      const wrapper = document.createElement("div");
+      wrapper.className = "custom-enquiry__field";
+      if (field.type === "textarea") {
+        wrapper.classList.add("custom-enquiry__field--span-2");
+      }
+
+      const input = createCustomFieldInput(field, selectPlaceholder);
+      input.id = inputId;
+      input.name = field.name;
+      input.required = field.required;
+
+      const label = document.createElement("label");
+      label.className = "custom-enquiry__label";
+      label.htmlFor = inputId;
+      label.textContent = field.label;
+
+      if (field.type === "checkbox") {
+        wrapper.classList.add("custom-enquiry__field--checkbox");
+        wrapper.append(input, label);
+      } else {
+        wrapper.append(label, input);
+      }
+
+      if (field.helpText) {
+        const hint = document.createElement("p");
+        hint.className = "custom-enquiry__field-hint";
+        hint.id = `${inputId}-hint`;
+        hint.textContent = field.helpText;
+        input.setAttribute("aria-describedby", hint.id);
+        wrapper.appendChild(hint);
+      }
+
+      grid.appendChild(wrapper);
+    });
+
+    container.hidden = fields.length === 0;
+  };
+
+  const loadCustomFields = async (form, endpoint) => {
+    try {
+      const response = await fetch(`${endpoint}/form`, {
+        headers: { Accept: "application/json" },
+        credentials: "same-origin",
+      });
+      if (!response.ok) {
+        throw new Error(`Unexpected status ${response.status}`);
+      }
+      const result = await response.json();
+      renderCustomFields(form, Array.isArray(result?.fields) ? result.fields : []);
+      if (result?.formToken) {
+        setHiddenValue(form, "[data-form-token-input]", result.formToken);
+      }
+      if (Array.isArray(result?.requestTypes)) {
+        updateDynamicHeading(form.closest(".custom-enquiry"), {
+          requestTypes: result.requestTypes,
+        });
+      }
+    } catch (error) {
+      console.warn("Failed to load custom enquiry fields", error);
+    }
+  };
+
   const initForm = (form) => {
     if (window.Shopify && window.Shopify.designMode) {
       // Allow submissions inside the theme editor without hitting the proxy.
@@ -276,12 +472,24 @@
     const submitButton = form.querySelector(".custom-enquiry__submit");
     const successMessage = form.dataset.successMessage || "Message received.";
     const errorMessage = form.dataset.errorMessage || "Something went wrong.";
+    const validationMessage =
+      form.dataset.validationMessage || "Please check the highlighted fields.";
+    const rateLimitedMessage = form.dataset.rateLimitedMessage || errorMessage;
+    const fieldErrorMessages = readErrorMessages(form);
     const endpoint = form.dataset.proxyUrl || form.action;
 
     if (!endpoint) {
       return;
     }
 
+    loadCustomFields(form, endpoint);
+
+    form.addEventListener("input", (event) => {
+      if (event.target?.getAttribute?.("aria-invalid") === "true") {
+        clearFieldError(event.target);
+      }
+    });
+
     form.addEventListener("submit", async (event) => {
       event.preventDefault();
 
@@ -290,6 +498,7 @@
       }
 
       statusNode.textContent = "";
+      clearFieldErrors(form);
       submitButton.disabled = true;
       submitButton.classList.add("is-loading");
 
@@ -315,6 +524,15 @@
           statusNode.classList.remove("custom-enquiry__status--error");
           statusNode.classList.add("custom-enquiry__status--success");
           form.reset();
+        } else if (response.status === 422 && result?.fieldErrors) {
+          renderFieldErrors(form, result.fieldErrors, fieldErrorMessages);
+          statusNode.textContent = validationMessage;
+          statusNode.classList.remove("custom-enquiry__status--success");
+          statusNode.classList.add("custom-enquiry__status--error");
+        } else if (response.status === 429) {
+          statusNode.textContent = rateLimitedMessage;
+          statusNode.classList.remove("custom-enquiry__status--success");
+          statusNode.classList.add("custom-enquiry__status--error");
         } else {
           throw new Error("Request failed");
         }
@@ -333,8 +551,7 @@
   const init = () => {
     document.querySelectorAll(".js-custom-request-form").forEach((form) => {
       initForm(form);
-      const section = form.closest(".custom-enquiry");
-      if (section) updateDynamicHeading(section, null);
+      updateDynamicHeading(form.closest(".custom-enquiry"), {});
       initProductContext(form);
     });
   };
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Enquiry" ADD COLUMN "attachmentStorageKey" TEXT;
+ALTER TABLE "Enquiry" ADD COLUMN "attachmentChecksum" TEXT;
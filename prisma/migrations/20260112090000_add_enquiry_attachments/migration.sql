@@ -0,0 +1,74 @@
+-- CreateTable
+CREATE TABLE "EnquiryAttachment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "enquiryId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "checksum" TEXT NOT NULL,
+    CONSTRAINT "EnquiryAttachment_enquiryId_fkey" FOREIGN KEY ("enquiryId") REFERENCES "Enquiry" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Move attachments that already live in object storage into the new table.
+-- Inline blobs are left on "Enquiry" for `npm run attachments:migrate`.
+INSERT INTO "EnquiryAttachment" ("id", "createdAt", "enquiryId", "fileName", "mimeType", "size", "storageKey", "checksum")
+SELECT lower(hex(randomblob(12))), "createdAt", "id", COALESCE("attachmentFileName", 'attachment'), COALESCE("attachmentMimeType", 'application/octet-stream'), COALESCE("attachmentSize", 0), "attachmentStorageKey", COALESCE("attachmentChecksum", '')
+FROM "Enquiry"
+WHERE "attachmentStorageKey" IS NOT NULL;
+
+UPDATE "Enquiry" SET "attachmentFileName" = NULL, "attachmentMimeType" = NULL, "attachmentSize" = NULL WHERE "attachmentStorageKey" IS NOT NULL;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Enquiry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'NEW',
+    "statusUpdatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "statusNotes" TEXT,
+    "emailNotificationState" TEXT NOT NULL DEFAULT 'PENDING',
+    "lastEmailAttemptAt" DATETIME,
+    "lastEmailError" TEXT,
+    "shop" TEXT NOT NULL,
+    "blockId" TEXT,
+    "name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "firstName" TEXT,
+    "lastName" TEXT,
+    "companyName" TEXT,
+    "phoneNumber" TEXT,
+    "requestType" TEXT NOT NULL,
+    "productReference" TEXT,
+    "quantity" INTEGER,
+    "productColour" TEXT,
+    "printPosition" TEXT,
+    "printColours" TEXT,
+    "pantoneReference" TEXT,
+    "deliveryDeadline" TEXT,
+    "workedWithBefore" TEXT,
+    "message" TEXT NOT NULL,
+    "extraInformation" TEXT,
+    "artworkNotes" TEXT,
+    "productId" TEXT,
+    "productHandle" TEXT,
+    "productTitle" TEXT,
+    "productUrl" TEXT,
+    "attachmentFileName" TEXT,
+    "attachmentMimeType" TEXT,
+    "attachmentSize" INTEGER,
+    "attachmentData" BLOB
+);
+INSERT INTO "new_Enquiry" ("artworkNotes", "attachmentData", "attachmentFileName", "attachmentMimeType", "attachmentSize", "blockId", "companyName", "createdAt", "deliveryDeadline", "email", "emailNotificationState", "extraInformation", "firstName", "id", "lastEmailAttemptAt", "lastEmailError", "lastName", "message", "name", "pantoneReference", "phoneNumber", "printColours", "printPosition", "productColour", "productHandle", "productId", "productReference", "productTitle", "productUrl", "quantity", "requestType", "shop", "status", "statusNotes", "statusUpdatedAt", "updatedAt", "workedWithBefore") SELECT "artworkNotes", "attachmentData", "attachmentFileName", "attachmentMimeType", "attachmentSize", "blockId", "companyName", "createdAt", "deliveryDeadline", "email", "emailNotificationState", "extraInformation", "firstName", "id", "lastEmailAttemptAt", "lastEmailError", "lastName", "message", "name", "pantoneReference", "phoneNumber", "printColours", "printPosition", "productColour", "productHandle", "productId", "productReference", "productTitle", "productUrl", "quantity", "requestType", "shop", "status", "statusNotes", "statusUpdatedAt", "updatedAt", "workedWithBefore" FROM "Enquiry";
+DROP TABLE "Enquiry";
+ALTER TABLE "new_Enquiry" RENAME TO "Enquiry";
+CREATE INDEX "Enquiry_shop_createdAt_idx" ON "Enquiry"("shop", "createdAt");
+CREATE INDEX "Enquiry_shop_status_idx" ON "Enquiry"("shop", "status");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "EnquiryAttachment_enquiryId_createdAt_idx" ON "EnquiryAttachment"("enquiryId", "createdAt");
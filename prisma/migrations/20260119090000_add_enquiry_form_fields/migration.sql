@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Enquiry" ADD COLUMN "customFields" JSONB;
+
+-- CreateTable
+CREATE TABLE "EnquiryFormField" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "shop" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "options" JSONB,
+    "helpText" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0
+);
+
+-- CreateIndex
+CREATE INDEX "EnquiryFormField_shop_position_idx" ON "EnquiryFormField"("shop", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EnquiryFormField_shop_key_key" ON "EnquiryFormField"("shop", "key");
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Enquiry" ADD COLUMN "isSpam" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Enquiry" ADD COLUMN "spamScore" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Enquiry" ADD COLUMN "spamReasons" JSONB;
+
+-- CreateTable
+CREATE TABLE "EnquiryRateLimitHit" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "shop" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "value" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "Enquiry_shop_isSpam_createdAt_idx" ON "Enquiry"("shop", "isSpam", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "EnquiryRateLimitHit_shop_kind_value_createdAt_idx" ON "EnquiryRateLimitHit"("shop", "kind", "value", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "EnquiryRateLimitHit_createdAt_idx" ON "EnquiryRateLimitHit"("createdAt");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "EnquiryEmailOutbox" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "enquiryId" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "recipientType" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedBy" TEXT,
+    "lockedAt" DATETIME,
+    "sentAt" DATETIME,
+    "lastError" TEXT,
+    CONSTRAINT "EnquiryEmailOutbox_enquiryId_fkey" FOREIGN KEY ("enquiryId") REFERENCES "Enquiry" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "EnquiryEmailOutbox_status_nextAttemptAt_idx" ON "EnquiryEmailOutbox"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "EnquiryEmailOutbox_enquiryId_idx" ON "EnquiryEmailOutbox"("enquiryId");
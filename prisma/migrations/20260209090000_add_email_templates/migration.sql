@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "EmailTemplate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "shop" TEXT NOT NULL,
+    "brandName" TEXT NOT NULL,
+    "logoUrl" TEXT,
+    "accentColor" TEXT NOT NULL,
+    "backgroundColor" TEXT NOT NULL,
+    "panelColor" TEXT NOT NULL,
+    "textColor" TEXT NOT NULL,
+    "footerText" TEXT,
+    "footerUrl" TEXT,
+    "subjectPattern" TEXT NOT NULL,
+    "staffIntro" TEXT NOT NULL,
+    "customerIntro" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailTemplate_shop_key" ON "EmailTemplate"("shop");
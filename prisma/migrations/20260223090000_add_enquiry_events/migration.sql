@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "EnquiryEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "enquiryId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "actorId" TEXT,
+    "actorName" TEXT,
+    "actorEmail" TEXT,
+    "fromStatus" TEXT,
+    "toStatus" TEXT,
+    "note" TEXT,
+    "metadata" JSONB,
+    CONSTRAINT "EnquiryEvent_enquiryId_fkey" FOREIGN KEY ("enquiryId") REFERENCES "Enquiry" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "EnquiryEvent_enquiryId_createdAt_idx" ON "EnquiryEvent"("enquiryId", "createdAt");
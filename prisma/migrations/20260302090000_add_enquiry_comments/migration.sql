@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "EnquiryComment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "enquiryId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "authorName" TEXT,
+    "authorEmail" TEXT,
+    "body" TEXT NOT NULL,
+    "mentions" JSONB,
+    "editedAt" DATETIME,
+    CONSTRAINT "EnquiryComment_enquiryId_fkey" FOREIGN KEY ("enquiryId") REFERENCES "Enquiry" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "EnquiryComment_enquiryId_createdAt_idx" ON "EnquiryComment"("enquiryId", "createdAt");
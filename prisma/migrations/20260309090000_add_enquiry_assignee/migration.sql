@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Enquiry" ADD COLUMN "assigneeId" TEXT;
+ALTER TABLE "Enquiry" ADD COLUMN "assigneeName" TEXT;
+ALTER TABLE "Enquiry" ADD COLUMN "assigneeEmail" TEXT;
+ALTER TABLE "Enquiry" ADD COLUMN "assignedAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "ShopSettings" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "shop" TEXT NOT NULL,
+    "autoAssign" BOOLEAN NOT NULL DEFAULT false,
+    "lastAssigneeId" TEXT
+);
+
+-- CreateIndex
+CREATE INDEX "Enquiry_shop_assigneeId_idx" ON "Enquiry"("shop", "assigneeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShopSettings_shop_key" ON "ShopSettings"("shop");
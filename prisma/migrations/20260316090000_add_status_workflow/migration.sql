@@ -0,0 +1,33 @@
+-- Enquiry.status was the EnquiryStatus enum, which SQLite already stores as
+-- TEXT, so the column needs no change.
+
+-- CreateTable
+CREATE TABLE "WorkflowStatus" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "shop" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "tone" TEXT NOT NULL DEFAULT 'info',
+    "position" INTEGER NOT NULL DEFAULT 0
+);
+
+-- CreateTable
+CREATE TABLE "WorkflowTransition" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "shop" TEXT NOT NULL,
+    "fromKey" TEXT NOT NULL,
+    "toKey" TEXT NOT NULL,
+    "requiresReason" BOOLEAN NOT NULL DEFAULT false
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkflowStatus_shop_key_key" ON "WorkflowStatus"("shop", "key");
+
+-- CreateIndex
+CREATE INDEX "WorkflowStatus_shop_position_idx" ON "WorkflowStatus"("shop", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkflowTransition_shop_fromKey_toKey_key" ON "WorkflowTransition"("shop", "fromKey", "toKey");
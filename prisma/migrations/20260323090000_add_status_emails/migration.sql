@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "EnquiryEmailLog" ADD COLUMN "statusKey" TEXT;
+
+-- CreateTable
+CREATE TABLE "StatusEmailTemplate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "shop" TEXT NOT NULL,
+    "statusKey" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StatusEmailTemplate_shop_statusKey_key" ON "StatusEmailTemplate"("shop", "statusKey");
@@ -0,0 +1,42 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_EnquiryComment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "enquiryId" TEXT NOT NULL,
+    "authorId" TEXT,
+    "authorName" TEXT,
+    "authorEmail" TEXT,
+    "body" TEXT NOT NULL,
+    "mentions" JSONB,
+    "editedAt" DATETIME,
+    "source" TEXT NOT NULL DEFAULT 'STAFF',
+    "messageId" TEXT,
+    CONSTRAINT "EnquiryComment_enquiryId_fkey" FOREIGN KEY ("enquiryId") REFERENCES "Enquiry" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_EnquiryComment" ("id", "createdAt", "updatedAt", "enquiryId", "authorId", "authorName", "authorEmail", "body", "mentions", "editedAt") SELECT "id", "createdAt", "updatedAt", "enquiryId", "authorId", "authorName", "authorEmail", "body", "mentions", "editedAt" FROM "EnquiryComment";
+DROP TABLE "EnquiryComment";
+ALTER TABLE "new_EnquiryComment" RENAME TO "EnquiryComment";
+CREATE INDEX "EnquiryComment_enquiryId_createdAt_idx" ON "EnquiryComment"("enquiryId", "createdAt");
+CREATE UNIQUE INDEX "EnquiryComment_enquiryId_messageId_key" ON "EnquiryComment"("enquiryId", "messageId");
+CREATE TABLE "new_EnquiryAttachment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "enquiryId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "commentId" TEXT,
+    CONSTRAINT "EnquiryAttachment_enquiryId_fkey" FOREIGN KEY ("enquiryId") REFERENCES "Enquiry" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "EnquiryAttachment_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "EnquiryComment" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_EnquiryAttachment" ("id", "createdAt", "enquiryId", "fileName", "mimeType", "size", "storageKey", "checksum") SELECT "id", "createdAt", "enquiryId", "fileName", "mimeType", "size", "storageKey", "checksum" FROM "EnquiryAttachment";
+DROP TABLE "EnquiryAttachment";
+ALTER TABLE "new_EnquiryAttachment" RENAME TO "EnquiryAttachment";
+CREATE INDEX "EnquiryAttachment_enquiryId_createdAt_idx" ON "EnquiryAttachment"("enquiryId", "createdAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Enquiry" ADD COLUMN "customerEmailBounce" TEXT;
+ALTER TABLE "Enquiry" ADD COLUMN "customerEmailBouncedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "EnquiryEmailLog" ADD COLUMN "deliveryDetail" TEXT;
+ALTER TABLE "EnquiryEmailLog" ADD COLUMN "deliveryStatus" TEXT;
+ALTER TABLE "EnquiryEmailLog" ADD COLUMN "deliveryUpdatedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "EnquiryEmailLog_providerId_idx" ON "EnquiryEmailLog"("providerId");
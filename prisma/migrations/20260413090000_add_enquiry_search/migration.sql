@@ -0,0 +1,72 @@
+-- Full-text index over enquiries and their comments; see
+-- app/services/enquiry-search.server.ts. The triggers keep it in step with
+-- "Enquiry" and "EnquiryComment", so a migration that redefines either table
+-- must recreate them (or run `npm run search:reindex` afterwards).
+CREATE VIRTUAL TABLE "EnquirySearch" USING fts5(
+    "enquiryId" UNINDEXED,
+    "name",
+    "email",
+    "company",
+    "product",
+    "message",
+    "notes",
+    "comments",
+    tokenize = 'unicode61 remove_diacritics 2',
+    prefix = '2 3'
+);
+
+INSERT INTO "EnquirySearch" ("enquiryId", "name", "email", "company", "product", "message", "notes", "comments")
+SELECT
+    "id",
+    "name",
+    "email",
+    coalesce("companyName", ''),
+    coalesce("productTitle", '') || ' ' || coalesce("productReference", ''),
+    "message" || ' ' || coalesce("extraInformation", ''),
+    coalesce("statusNotes", '') || ' ' || coalesce("artworkNotes", ''),
+    coalesce((SELECT group_concat("body", ' ') FROM "EnquiryComment" WHERE "enquiryId" = "Enquiry"."id"), '')
+FROM "Enquiry";
+
+CREATE TRIGGER "Enquiry_search_insert" AFTER INSERT ON "Enquiry" BEGIN
+    INSERT INTO "EnquirySearch" ("enquiryId", "name", "email", "company", "product", "message", "notes", "comments")
+    VALUES (
+        NEW."id",
+        NEW."name",
+        NEW."email",
+        coalesce(NEW."companyName", ''),
+        coalesce(NEW."productTitle", '') || ' ' || coalesce(NEW."productReference", ''),
+        NEW."message" || ' ' || coalesce(NEW."extraInformation", ''),
+        coalesce(NEW."statusNotes", '') || ' ' || coalesce(NEW."artworkNotes", ''),
+        ''
+    );
+END;
+
+CREATE TRIGGER "Enquiry_search_update" AFTER UPDATE OF "name", "email", "companyName", "productTitle", "productReference", "message", "extraInformation", "statusNotes", "artworkNotes" ON "Enquiry" BEGIN
+    UPDATE "EnquirySearch" SET
+        "name" = NEW."name",
+        "email" = NEW."email",
+        "company" = coalesce(NEW."companyName", ''),
+        "product" = coalesce(NEW."productTitle", '') || ' ' || coalesce(NEW."productReference", ''),
+        "message" = NEW."message" || ' ' || coalesce(NEW."extraInformation", ''),
+        "notes" = coalesce(NEW."statusNotes", '') || ' ' || coalesce(NEW."artworkNotes", '')
+    WHERE "enquiryId" = NEW."id";
+END;
+
+CREATE TRIGGER "Enquiry_search_delete" AFTER DELETE ON "Enquiry" BEGIN
+    DELETE FROM "EnquirySearch" WHERE "enquiryId" = OLD."id";
+END;
+
+CREATE TRIGGER "EnquiryComment_search_insert" AFTER INSERT ON "EnquiryComment" BEGIN
+    UPDATE "EnquirySearch" SET "comments" = coalesce((SELECT group_concat("body", ' ') FROM "EnquiryComment" WHERE "enquiryId" = NEW."enquiryId"), '')
+    WHERE "enquiryId" = NEW."enquiryId";
+END;
+
+CREATE TRIGGER "EnquiryComment_search_update" AFTER UPDATE OF "body" ON "EnquiryComment" BEGIN
+    UPDATE "EnquirySearch" SET "comments" = coalesce((SELECT group_concat("body", ' ') FROM "EnquiryComment" WHERE "enquiryId" = NEW."enquiryId"), '')
+    WHERE "enquiryId" = NEW."enquiryId";
+END;
+
+CREATE TRIGGER "EnquiryComment_search_delete" AFTER DELETE ON "EnquiryComment" BEGIN
+    UPDATE "EnquirySearch" SET "comments" = coalesce((SELECT group_concat("body", ' ') FROM "EnquiryComment" WHERE "enquiryId" = OLD."enquiryId"), '')
+    WHERE "enquiryId" = OLD."enquiryId";
+END;
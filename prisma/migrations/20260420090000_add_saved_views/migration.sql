@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "SavedView" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "shared" BOOLEAN NOT NULL DEFAULT false,
+    "ownerId" TEXT NOT NULL,
+    "ownerName" TEXT
+);
+
+-- CreateIndex
+CREATE INDEX "SavedView_shop_shared_idx" ON "SavedView"("shop", "shared");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SavedView_shop_ownerId_name_key" ON "SavedView"("shop", "ownerId", "name");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "EnquiryEmailOutbox" ADD COLUMN "statusKey" TEXT;
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "InboundWebhookToken" (
+    "token" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "InboundWebhookToken_createdAt_idx" ON "InboundWebhookToken"("createdAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "EnquiryEmailOutbox" ADD COLUMN "commentId" TEXT;
+
+-- AlterTable
+ALTER TABLE "EnquiryEmailLog" ADD COLUMN "commentId" TEXT;
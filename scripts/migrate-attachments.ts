@@ -0,0 +1,116 @@
+/**
+ * One-off migration that moves legacy `Enquiry.attachmentData` blobs into the
+ * configured attachment storage, records them as `EnquiryAttachment` rows and
+ * clears the inline columns.
+ *
+ * Usage: npm run attachments:migrate [-- --dry-run]
+ */
+import prisma from "../app/db.server";
+import { storeAttachment } from "../app/services/attachment-storage.server";
+
+const BATCH_SIZE = 20;
+
+const dryRun = process.argv.includes("--dry-run");
+
+const main = async () => {
+  let migrated = 0;
+  let failed = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const batch = await prisma.enquiry.findMany({
+      where: {
+        attachmentData: { not: null },
+        ...(cursor ? { id: { gt: cursor } } : {}),
+      },
+      select: {
+        id: true,
+        shop: true,
+        attachmentFileName: true,
+        attachmentMimeType: true,
+        attachmentData: true,
+      },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    if (!batch.length) {
+      break;
+    }
+
+    cursor = batch.at(-1)?.id;
+
+    for (const enquiry of batch) {
+      if (!enquiry.attachmentData) {
+        continue;
+      }
+
+      const data = Buffer.from(enquiry.attachmentData);
+
+      if (dryRun) {
+        console.info("Would migrate attachment", {
+          enquiryId: enquiry.id,
+          size: data.byteLength,
+        });
+        migrated += 1;
+        continue;
+      }
+
+      try {
+        const stored = await storeAttachment({
+          shop: enquiry.shop,
+          filename: enquiry.attachmentFileName || "attachment",
+          mimeType: enquiry.attachmentMimeType || "application/octet-stream",
+          data,
+        });
+
+        await prisma.enquiry.update({
+          where: { id: enquiry.id },
+          data: {
+            attachmentFileName: null,
+            attachmentMimeType: null,
+            attachmentSize: null,
+            attachmentData: null,
+            attachments: {
+              create: {
+                fileName: enquiry.attachmentFileName || "attachment",
+                mimeType:
+                  enquiry.attachmentMimeType || "application/octet-stream",
+                size: data.byteLength,
+                storageKey: stored.storageKey,
+                checksum: stored.checksum,
+              },
+            },
+          },
+        });
+
+        migrated += 1;
+        console.info("Migrated attachment", {
+          enquiryId: enquiry.id,
+          storageKey: stored.storageKey,
+        });
+      } catch (error) {
+        failed += 1;
+        console.error("Failed to migrate attachment", {
+          enquiryId: enquiry.id,
+          error,
+        });
+      }
+    }
+  }
+
+  console.info("Attachment migration finished", { migrated, failed, dryRun });
+
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main()
+  .catch((error) => {
+    console.error("Attachment migration aborted", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,23 @@
+/**
+ * Rebuilds the "EnquirySearch" full-text index from the enquiries and their
+ * comments. Needed after a migration that redefines "Enquiry" or
+ * "EnquiryComment", since that drops the triggers that keep it in step.
+ *
+ * Usage: npm run search:reindex
+ */
+import prisma from "../app/db.server";
+import { rebuildSearchIndex } from "../app/services/enquiry-search.server";
+
+const main = async () => {
+  const indexed = await rebuildSearchIndex();
+  console.info("Search index rebuilt", { indexed });
+};
+
+main()
+  .catch((error) => {
+    console.error("Search index rebuild failed", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
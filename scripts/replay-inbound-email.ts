@@ -0,0 +1,105 @@
+/**
+ * Replays a recorded inbound email webhook against the local database, for
+ * checking reply capture without sending real email. The payload is JSON:
+ * `{ "fields": { ...form fields Mailgun posted }, "attachments": [{ "field":
+ * "attachment-1", "filename", "contentType", "base64" }] }`.
+ *
+ * Recorded payloads are checked against their own timestamp, so they verify
+ * with the signing key that was live when they were captured. `--resign`
+ * signs the payload afresh with `MAILGUN_WEBHOOK_SIGNING_KEY`, and
+ * `--enquiry=<id>` readdresses it to that enquiry's reply address. The sample
+ * in scripts/fixtures/inbound-reply.json needs both. Each webhook token is
+ * accepted once, so replaying the same payload again needs `--resign` too.
+ *
+ * Usage: npm run inbound:replay -- <payload.json> [--resign] [--enquiry=<id>]
+ */
+import { createHmac, randomBytes } from "node:crypto";
+import { readFile } from "node:fs/promises";
+
+import prisma from "../app/db.server";
+import { handleInboundEmail } from "../app/services/inbound-email.server";
+import { buildReplyAddress } from "../app/services/reply-address.server";
+
+type RecordedPayload = {
+  fields: Record<string, string>;
+  attachments?: Array<{
+    field?: string;
+    filename: string;
+    contentType?: string;
+    base64: string;
+  }>;
+};
+
+const args = process.argv.slice(2);
+const payloadPath = args.find((arg) => !arg.startsWith("--"));
+const resign = args.includes("--resign");
+const enquiryId = args
+  .find((arg) => arg.startsWith("--enquiry="))
+  ?.slice("--enquiry=".length);
+
+const main = async () => {
+  if (!payloadPath) {
+    throw new Error("Pass the path of a recorded payload");
+  }
+
+  const payload = JSON.parse(
+    await readFile(payloadPath, "utf8"),
+  ) as RecordedPayload;
+  const fields = { ...payload.fields };
+
+  if (enquiryId) {
+    const replyAddress = buildReplyAddress(enquiryId);
+    if (!replyAddress) {
+      throw new Error("Set INBOUND_EMAIL_DOMAIN to build reply addresses");
+    }
+    fields.recipient = replyAddress;
+    fields.To = replyAddress;
+  }
+
+  if (resign) {
+    const signingKey = process.env.MAILGUN_WEBHOOK_SIGNING_KEY;
+    if (!signingKey) {
+      throw new Error("Set MAILGUN_WEBHOOK_SIGNING_KEY to re-sign payloads");
+    }
+    fields.timestamp = String(Math.floor(Date.now() / 1000));
+    fields.token = randomBytes(25).toString("hex");
+    fields.signature = createHmac("sha256", signingKey)
+      .update(`${fields.timestamp}${fields.token}`)
+      .digest("hex");
+  }
+
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value);
+  }
+  payload.attachments?.forEach((attachment, index) => {
+    formData.append(
+      attachment.field ?? `attachment-${index + 1}`,
+      new File([Buffer.from(attachment.base64, "base64")], attachment.filename, {
+        type: attachment.contentType ?? "application/octet-stream",
+      }),
+    );
+  });
+  if (payload.attachments?.length && !fields["attachment-count"]) {
+    formData.set("attachment-count", String(payload.attachments.length));
+  }
+
+  const result = await handleInboundEmail(formData, {
+    now: resign ? Date.now() : Number(fields.timestamp) * 1000,
+  });
+
+  console.info("Inbound email replayed", result);
+
+  if (result.outcome === "rejected") {
+    process.exitCode = 1;
+  }
+};
+
+main()
+  .catch((error) => {
+    console.error("Inbound email replay failed", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });